@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { fetchAllFiles, fetchFiles } from './files';
+import type { FileEntry, FileListing } from './files';
+import { cachedRequest } from './response-cache';
+
+vi.mock('./response-cache', () => ({ cachedRequest: vi.fn() }));
+
+function file(index: number): FileEntry {
+  return {
+    name: `file${index}.txt`,
+    relative_path: `reports/file${index}.txt`,
+    size: index,
+    size_display: `${index} B`,
+    modified: String(index),
+    modified_display: `day ${index}`,
+    download_url: `/files/download/file${index}`,
+  };
+}
+
+/** A `/files` endpoint with `count` files that applies at most `cap` of the requested limit. */
+function serveFiles(count: number, cap = Infinity): void {
+  const files = Array.from({ length: count }, (_, index) => file(index));
+  vi.mocked(cachedRequest).mockImplementation(async (_path, options) => {
+    const limit = Math.min(Number(options?.query?.limit), cap);
+    const listing: FileListing = {
+      files: files.slice(0, limit),
+      total_count: count,
+      total_size: count,
+      has_more: limit < count,
+      limit,
+    };
+    return listing;
+  });
+}
+
+function requestedLimits(): unknown[] {
+  return vi.mocked(cachedRequest).mock.calls.map(([, options]) => options?.query?.limit);
+}
+
+afterEach(() => {
+  vi.mocked(cachedRequest).mockReset();
+});
+
+describe('fetchAllFiles', () => {
+  it('loads the rest of the listing in one request after the first page', async () => {
+    serveFiles(250);
+    const onPage = vi.fn();
+
+    const files = await fetchAllFiles(100, onPage);
+
+    expect(files).toHaveLength(250);
+    expect(new Set(files.map((entry) => entry.relative_path)).size).toBe(250);
+    expect(requestedLimits()).toEqual([100, 250]);
+    expect(onPage.mock.calls.map(([loaded, total]) => [loaded, total])).toEqual([
+      [100, 250],
+      [250, 250],
+    ]);
+  });
+
+  it('stops after one page when there is nothing more', async () => {
+    serveFiles(40);
+
+    await expect(fetchAllFiles(100)).resolves.toHaveLength(40);
+    expect(requestedLimits()).toEqual([100]);
+  });
+
+  it('asks for no more than maxFiles', async () => {
+    serveFiles(5000);
+
+    const files = await fetchAllFiles(100, undefined, { maxFiles: 2000 });
+
+    expect(files).toHaveLength(2000);
+    expect(requestedLimits()).toEqual([100, 2000]);
+  });
+
+  it('fails instead of returning a listing the API cut short', async () => {
+    serveFiles(250, 100);
+
+    await expect(fetchAllFiles(100)).rejects.toThrow(
+      'The API lists at most 100 files at a time, so only part of the 250 files can be shown.',
+    );
+  });
+});
+
+describe('fetchFiles', () => {
+  it('sends only the limit', async () => {
+    serveFiles(10);
+
+    await fetchFiles(25);
+
+    expect(cachedRequest).toHaveBeenCalledWith('/files', { query: { limit: 25 } });
+  });
+});
@@ -1,4 +1,8 @@
-import { apiRequest } from './http-client';
+import { isOfflineMode } from '../config/environment';
+import { ApiError, OfflineError, apiRequest, apiStream } from './http-client';
+import type { CallOptions } from './http-client';
+import { cachedRequest } from './response-cache';
+import type { CachedCallOptions } from './response-cache';
 
 export type FileEntry = {
   name: string;
@@ -20,12 +24,116 @@ export type FileListing = {
   limit: number;
 };
 
-export async function fetchFiles(limit = 25): Promise<FileListing> {
-  return apiRequest<FileListing>('/files', { query: { limit } });
+/**
+ * The first `limit` files. The API pages by `limit` alone (a listing always starts at the first file
+ * and `limit` echoes what was applied), so a longer listing is a larger `limit`. A listing that was
+ * capped below the requested limit is an error rather than a silently short page.
+ */
+export async function fetchFiles(
+  limit = 25,
+  options: CachedCallOptions<FileListing> = {},
+): Promise<FileListing> {
+  const listing = await cachedRequest<FileListing>('/files', { ...options, query: { limit } });
+  if (listing.has_more && listing.files.length < limit) {
+    throw new Error(
+      `The API lists at most ${listing.files.length} files at a time, so only part of the ${listing.total_count} files can be shown.`,
+    );
+  }
+  return listing;
 }
 
-export async function deleteFile(relativePath: string): Promise<{ success: boolean; message: string }>{
+/**
+ * Load the whole listing, or its first `maxFiles` entries: a first page, then the rest in one request
+ * for `total_count` files. `onPage` reports progress after each request.
+ */
+export async function fetchAllFiles(
+  pageSize = 100,
+  onPage?: (loaded: number, total: number, listing: FileListing) => void,
+  options: CallOptions & { maxFiles?: number } = {},
+): Promise<FileEntry[]> {
+  const maxFiles = options.maxFiles ?? Infinity;
+  let limit = Math.min(pageSize, maxFiles);
+  for (;;) {
+    const listing = await fetchFiles(limit, { signal: options.signal });
+    onPage?.(listing.files.length, listing.total_count, listing);
+    if (!listing.has_more || listing.files.length >= maxFiles) {
+      return listing.files.slice(0, maxFiles);
+    }
+    limit = Math.min(Math.max(listing.total_count, limit + pageSize), maxFiles);
+  }
+}
+
+export async function deleteFile(relativePath: string, options: CallOptions = {}): Promise<{ success: boolean; message: string }>{
   return apiRequest<{ success: boolean; message: string }>(`/files/${encodeURIComponent(relativePath)}`, {
     method: 'DELETE',
+    signal: options.signal,
+  });
+}
+
+export type FileUploadResult = {
+  files: FileEntry[];
+  message?: string | null;
+};
+
+export type LocalUpload = {
+  name: string;
+  data: Blob;
+};
+
+export async function uploadFiles(
+  uploads: LocalUpload[],
+  options: CallOptions = {},
+): Promise<FileUploadResult> {
+  const form = new FormData();
+  uploads.forEach((upload) => {
+    form.append('files', upload.data, upload.name);
+  });
+  return apiRequest<FileUploadResult>('/files', {
+    method: 'POST',
+    body: form,
+    signal: options.signal,
   });
 }
+
+/**
+ * Look up a single file by its relative path. The API has no per-file endpoint, so this scans the
+ * listing.
+ */
+export async function findFile(
+  relativePath: string,
+  options: CallOptions = {},
+): Promise<FileEntry | null> {
+  const files = await fetchAllFiles(100, undefined, options);
+  return files.find((file) => file.relative_path === relativePath) ?? null;
+}
+
+/**
+ * Start downloading a file and return the unread response.
+ */
+export async function downloadFile(
+  file: FileEntry,
+  options: CallOptions = {},
+): Promise<Response> {
+  return downloadFromUrl(file.download_url, options);
+}
+
+/**
+ * Fetch a download link as returned by the API. Relative links go through the authenticated API
+ * client; absolute ones (e.g. signed storage URLs) are fetched without the API credentials.
+ */
+export async function downloadFromUrl(
+  url: string,
+  options: CallOptions = {},
+): Promise<Response> {
+  if (!/^https?:\/\//i.test(url)) {
+    return apiStream(url, { headers: { Accept: '*/*' }, signal: options.signal });
+  }
+  if (isOfflineMode()) {
+    throw new OfflineError();
+  }
+  const response = await fetch(url, { signal: options.signal });
+  if (!response.ok) {
+    throw new ApiError(response.statusText || 'Download failed', response.status);
+  }
+  return response;
+}
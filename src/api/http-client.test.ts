@@ -0,0 +1,98 @@
+import { getEventListeners } from 'events';
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { ApiError, apiRequest, apiStream } from './http-client';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let home: string;
+let handler: Handler;
+let hits: string[] = [];
+
+function reply(status: number, body: unknown, headers: Record<string, string> = {}): Handler {
+  return (_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+  };
+}
+
+/** Serve `handlers` in turn, repeating the last one. */
+function sequence(...handlers: Handler[]): Handler {
+  let next = 0;
+  return (request, response) => handlers[Math.min(next++, handlers.length - 1)](request, response);
+}
+
+beforeAll(async () => {
+  home = await fs.mkdtemp(join(tmpdir(), 'tmates-http-'));
+  server = createServer((request, response) => {
+    hits.push(`${request.method} ${request.url}`);
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  vi.stubEnv('TMATES_CLI_HOME', home);
+  vi.stubEnv('TMATES_API_BASE_URL', `http://127.0.0.1:${port}`);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  hits = [];
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+describe('apiRequest', () => {
+  it('retries an idempotent request after Retry-After', async () => {
+    handler = sequence(
+      reply(503, { detail: 'busy' }, { 'Retry-After': '0' }),
+      reply(200, { ok: true }),
+    );
+
+    await expect(apiRequest('/status', { token: 't', retries: 2 })).resolves.toEqual({ ok: true });
+    expect(hits).toEqual(['GET /status', 'GET /status']);
+  });
+
+  it('does not retry a POST on a server error', async () => {
+    handler = reply(503, { detail: 'busy' }, { 'Retry-After': '0' });
+
+    await expect(
+      apiRequest('/chats', { method: 'POST', body: {}, token: 't', retries: 2 }),
+    ).rejects.toMatchObject({ name: 'ApiError', status: 503, message: 'busy' });
+    expect(hits).toHaveLength(1);
+  });
+
+  it('surfaces a rate limit that asks for too long a wait', async () => {
+    handler = reply(429, { detail: 'slow down' }, { 'Retry-After': '120' });
+
+    const error = await apiRequest('/status', { token: 't', retries: 2 }).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(hits).toHaveLength(1);
+  });
+});
+
+describe('apiStream', () => {
+  it("stops listening to the caller's signal once the body has been read", async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('streamed');
+    };
+    const controller = new AbortController();
+
+    const response = await apiStream('/files/a.txt', { token: 't', signal: controller.signal });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1);
+    await expect(response.text()).resolves.toBe('streamed');
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+});
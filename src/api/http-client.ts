@@ -1,6 +1,14 @@
 import chalk from 'chalk';
 import { resolveAppConfig } from '../config/app-config';
-import { getAccessToken } from '../auth/supabase-auth';
+import { isOfflineMode } from '../config/environment';
+import {
+  getAccessToken,
+  getFreshAccessToken,
+  getStaticAccessToken,
+  refreshAccessToken,
+} from '../auth/supabase-auth';
+import { debugLog } from '../cli/debug';
+import { describeError } from '../cli/format';
 
 export class ApiError extends Error {
   status: number;
@@ -21,14 +29,307 @@ export type RequestOptions = {
   body?: unknown;
   token?: string | null;
   allowUnauthenticated?: boolean;
+  signal?: AbortSignal;
+  /** Per-attempt timeout; defaults to `TMATES_HTTP_TIMEOUT_MS` (30s). `0` disables it. */
+  timeoutMs?: number;
+  /** Retries after the first attempt; defaults to `TMATES_HTTP_RETRIES` (3). */
+  retries?: number;
 };
 
-export async function apiRequest<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+/**
+ * Options accepted by the endpoint wrappers in `src/api`.
+ */
+export type CallOptions = {
+  signal?: AbortSignal;
+};
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The API did not respond within ${formatSeconds(timeoutMs)}.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * A request that needs the API while `--offline` is set.
+ */
+export class OfflineError extends Error {
+  constructor(
+    message = 'Offline mode (--offline) only shows cached data; this needs a connection.',
+  ) {
+    super(message);
+    this.name = 'OfflineError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10_000;
+/** Longer `Retry-After` waits are not worth blocking the terminal for; the error surfaces instead. */
+const RETRY_AFTER_MAX_MS = 60_000;
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+
+/**
+ * True for errors caused by an aborted signal, i.e. a request the user cancelled.
+ */
+export function isAbortError(error: unknown): boolean {
+  return Boolean(
+    error && typeof error === 'object' && (error as { name?: unknown }).name === 'AbortError',
+  );
+}
+
+export async function apiRequest<T = unknown>(
+  path: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  const { response, payload } = await sendRequest(path, options, true);
+
+  if (!response.ok) {
+    throw new ApiError(extractErrorMessage(payload, response), response.status, payload);
+  }
+
+  return payload as T;
+}
+
+/**
+ * Perform an authenticated request and hand back the unread response, for bodies that are
+ * streamed (server-sent events, downloads) rather than parsed as a whole. The timeout only covers
+ * waiting for the response headers.
+ */
+export async function apiStream(path: string, options: RequestOptions = {}): Promise<Response> {
+  const { response, payload } = await sendRequest(path, options, false);
+
+  if (!response.ok) {
+    throw new ApiError(extractErrorMessage(payload, response), response.status, payload);
+  }
+
+  return response;
+}
+
+/**
+ * Send a request. A 401 for the session's token refreshes the session (once, shared with concurrent
+ * requests) and replays the request; if another request already refreshed it, the replay simply
+ * uses the new token.
+ */
+async function sendRequest(
+  path: string,
+  options: RequestOptions,
+  readBody: boolean,
+): Promise<{ response: Response; payload: unknown }> {
+  if (isOfflineMode()) {
+    throw new OfflineError();
+  }
+  const first = await sendWithRetries(path, options, readBody);
+  if (first.response.status !== 401 || options.token || !first.token) {
+    return first;
+  }
+  if (first.token === getStaticAccessToken()) {
+    throw new ApiError(
+      'The access token from --token or TMATES_TOKEN was rejected. Supply a valid one.',
+      401,
+      first.payload,
+    );
+  }
+  if (getAccessToken() === first.token) {
+    debugLog(`${path} returned 401; refreshing the session.`);
+    await refreshAccessToken();
+  }
+  return sendWithRetries(path, options, readBody);
+}
+
+/**
+ * Send a request, retrying with exponential backoff and full jitter. Network errors, timeouts and
+ * 408/5xx responses are retried for idempotent methods only; 429 is retried for any method since the
+ * server did not process the request. A `Retry-After` header takes precedence over the backoff.
+ * Error bodies are always read; successful ones only when `readBody` is set.
+ */
+async function sendWithRetries(
+  path: string,
+  options: RequestOptions,
+  readBody: boolean,
+): Promise<{ response: Response; payload: unknown; token: string | null }> {
+  const { url, init, token } = await prepareRequest(path, options);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const idempotent = IDEMPOTENT_METHODS.has(method);
+  const timeoutMs =
+    options.timeoutMs ?? readEnvInteger('TMATES_HTTP_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const retries = options.retries ?? readEnvInteger('TMATES_HTTP_RETRIES', DEFAULT_RETRIES);
+
+  for (let attempt = 0; ; attempt += 1) {
+    let result: { response: Response; payload: unknown };
+    try {
+      result = await attemptRequest(url, init, timeoutMs, options.signal, readBody);
+    } catch (error) {
+      if (isAbortError(error) || !idempotent || attempt >= retries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      debugLog(`${method} ${path} failed (${describeError(error)}); retrying in ${delay}ms.`);
+      await sleep(delay, options.signal);
+      continue;
+    }
+
+    const { status } = result.response;
+    const retryable = status === 429 || (idempotent && RETRYABLE_STATUSES.has(status));
+    if (!retryable || attempt >= retries) {
+      return { ...result, token };
+    }
+    const delay = retryDelay(result.response, attempt);
+    if (delay === null) {
+      return { ...result, token };
+    }
+    debugLog(`${method} ${path} returned ${status}; retrying in ${delay}ms.`);
+    await sleep(delay, options.signal);
+  }
+}
+
+/**
+ * One fetch with its own timeout. The caller's signal is forwarded to the attempt's controller so
+ * that cancelling also stops a body that is still being read.
+ */
+async function attemptRequest(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  readBody: boolean,
+): Promise<{ response: Response; payload: unknown }> {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const forwardAbort = (): void => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const stopForwarding = (): void => signal?.removeEventListener('abort', forwardAbort);
+  let streaming = false;
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!readBody && response.ok) {
+      // Keep forwarding cancellation while the caller consumes the stream.
+      streaming = true;
+      return { response: releaseWhenConsumed(response, stopForwarding), payload: undefined };
+    }
+    return { response, payload: await readPayload(response) };
+  } catch (error) {
+    if (timedOut) {
+      throw new RequestTimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (!streaming) {
+      stopForwarding();
+    }
+  }
+}
+
+/** Wrap the body so that `release` runs once it has been read, has failed or was cancelled. */
+function releaseWhenConsumed(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Delay before the next attempt: `Retry-After` (seconds or an HTTP date) when present, else the
+ * backoff. Null when the server asks for a longer wait than we are willing to block for.
+ */
+function retryDelay(response: Response, attempt: number): number | null {
+  const header = response.headers.get('retry-after')?.trim();
+  if (!header) {
+    return backoffDelay(attempt);
+  }
+  const seconds = Number(header);
+  const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  if (Number.isNaN(delay)) {
+    return backoffDelay(attempt);
+  }
+  return delay > RETRY_AFTER_MAX_MS ? null : Math.max(0, Math.round(delay));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function readEnvInteger(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = ms / 1000;
+  return `${Number.isInteger(seconds) ? seconds : seconds.toFixed(1)}s`;
+}
+
+async function prepareRequest(
+  path: string,
+  options: RequestOptions,
+): Promise<{ url: string; init: RequestInit; token: string | null }> {
   const config = await resolveAppConfig();
   const base = config.apiBaseUrl;
   if (!base) {
     throw new Error(
-      'API base URL is not configured. Set TMATES_API_BASE_URL or configure it via CLI settings.',
+      'API base URL is not configured. Set TMATES_API_BASE_URL or run `tmates config set api-base-url <url>`.',
     );
   }
 
@@ -51,7 +352,7 @@ export async function apiRequest<T = unknown>(path: string, options: RequestOpti
     }
   }
 
-  const token = options.token ?? getAccessToken();
+  const token = options.token ?? (await getFreshAccessToken());
   if (!options.allowUnauthenticated && !token) {
     throw new Error('You must be signed in to perform this action. Run `tmates login`.');
   }
@@ -60,26 +361,30 @@ export async function apiRequest<T = unknown>(path: string, options: RequestOpti
     headers.set('Authorization', `Bearer ${token}`);
   }
 
-  const response = await fetch(url, {
-    method: options.method ?? 'GET',
-    headers,
-    body,
-  });
+  return {
+    url,
+    init: {
+      method: options.method ?? 'GET',
+      headers,
+      body,
+    },
+    token,
+  };
+}
 
+async function readPayload(response: Response): Promise<unknown> {
   const rawText = await response.text();
   const contentType = response.headers.get('content-type') ?? '';
   const isJson = contentType.includes('application/json');
-  const payload = isJson && rawText ? JSON.parse(rawText) : rawText;
-
-  if (!response.ok) {
-    const message =
-      (payload && typeof payload === 'object' && 'detail' in payload
-        ? String((payload as { detail: unknown }).detail)
-        : response.statusText || 'Request failed') || 'Request failed';
-    throw new ApiError(message, response.status, payload);
-  }
+  return isJson && rawText ? JSON.parse(rawText) : rawText;
+}
 
-  return payload as T;
+function extractErrorMessage(payload: unknown, response: Response): string {
+  return (
+    (payload && typeof payload === 'object' && 'detail' in payload
+      ? String((payload as { detail: unknown }).detail)
+      : response.statusText || 'Request failed') || 'Request failed'
+  );
 }
 
 function buildUrl(base: string, path: string, query?: RequestOptions['query']): string {
@@ -98,6 +403,9 @@ function buildUrl(base: string, path: string, query?: RequestOptions['query']):
 }
 
 export function formatApiError(error: unknown): string {
+  if (isAbortError(error)) {
+    return chalk.yellow('Request cancelled.');
+  }
   if (error instanceof ApiError) {
     const detail = error.detail;
     if (detail && typeof detail === 'object') {
@@ -1,4 +1,7 @@
 import { apiRequest } from './http-client';
+import type { CallOptions } from './http-client';
+import { cachedRequest } from './response-cache';
+import type { CachedCallOptions } from './response-cache';
 
 export type ChatMessageAttachment = {
   uri: string;
@@ -42,38 +45,51 @@ export type ChatMessageCreate = {
   attachments?: ChatMessageAttachment[];
 };
 
-export async function fetchChatThreads(): Promise<ChatThreadSummary[]> {
-  return apiRequest<ChatThreadSummary[]>('/chats');
+export async function fetchChatThreads(
+  options: CachedCallOptions<ChatThreadSummary[]> = {},
+): Promise<ChatThreadSummary[]> {
+  return cachedRequest<ChatThreadSummary[]>('/chats', options);
 }
 
-export async function fetchChatThread(threadId: string): Promise<ChatThread> {
-  return apiRequest<ChatThread>(`/chats/${encodeURIComponent(threadId)}`);
+export async function fetchChatThread(
+  threadId: string,
+  options: CachedCallOptions<ChatThread> = {},
+): Promise<ChatThread> {
+  return cachedRequest<ChatThread>(`/chats/${encodeURIComponent(threadId)}`, options);
 }
 
-export async function createChatThread(agentKey: string): Promise<ChatThreadSummary> {
+export async function createChatThread(
+  agentKey: string,
+  options: CallOptions = {},
+): Promise<ChatThreadSummary> {
   return apiRequest<ChatThreadSummary>(`/chats?agent_key=${encodeURIComponent(agentKey)}`, {
     method: 'POST',
+    signal: options.signal,
   });
 }
 
 export async function sendChatMessage(
   threadId: string,
   payload: ChatMessageCreate,
+  options: CallOptions = {},
 ): Promise<ChatMessage> {
   return apiRequest<ChatMessage>(`/chats/${encodeURIComponent(threadId)}/messages`, {
     method: 'POST',
     body: payload,
+    signal: options.signal,
   });
 }
 
-export async function deleteChatThread(threadId: string): Promise<void> {
+export async function deleteChatThread(threadId: string, options: CallOptions = {}): Promise<void> {
   await apiRequest<void>(`/chats/${encodeURIComponent(threadId)}`, {
     method: 'DELETE',
+    signal: options.signal,
   });
 }
 
-export async function clearChatHistory(threadId: string): Promise<void> {
+export async function clearChatHistory(threadId: string, options: CallOptions = {}): Promise<void> {
   await apiRequest<void>(`/chats/${encodeURIComponent(threadId)}/clear`, {
     method: 'POST',
+    signal: options.signal,
   });
 }
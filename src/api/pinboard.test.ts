@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { scanPinboardPosts } from './pinboard';
+import type { PinboardPost } from './pinboard';
+import { cachedRequest } from './response-cache';
+
+vi.mock('./response-cache', () => ({ cachedRequest: vi.fn(), getCacheInfo: () => null }));
+
+function servePosts(count: number): void {
+  const posts: PinboardPost[] = Array.from({ length: count }, (_, index) => ({
+    id: `p${index}`,
+    title: `Post ${index}`,
+    slug: `post-${index}`,
+    priority: 'normal',
+    attachments: [],
+    sources: [],
+  }));
+  vi.mocked(cachedRequest).mockImplementation(async (_path, options) =>
+    posts.slice(0, Number(options?.query?.limit)),
+  );
+}
+
+afterEach(() => {
+  vi.mocked(cachedRequest).mockReset();
+});
+
+describe('scanPinboardPosts', () => {
+  it('hands each post over once while asking for longer listings', async () => {
+    servePosts(120);
+    const pages: string[][] = [];
+
+    await scanPinboardPosts((posts) => {
+      pages.push(posts.map((post) => post.id));
+      return false;
+    });
+
+    expect(vi.mocked(cachedRequest).mock.calls.map(([, options]) => options?.query)).toEqual([
+      { limit: 50 },
+      { limit: 100 },
+      { limit: 200 },
+    ]);
+    expect(pages.map((page) => page.length)).toEqual([50, 50, 20]);
+    expect(new Set(pages.flat()).size).toBe(120);
+  });
+
+  it('stops when onPage asks it to', async () => {
+    servePosts(500);
+
+    await scanPinboardPosts((_posts, scanned) => scanned >= 100);
+
+    expect(cachedRequest).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,4 +1,6 @@
-import { apiRequest } from './http-client';
+import type { CallOptions } from './http-client';
+import { cachedRequest, getCacheInfo } from './response-cache';
+import type { CachedCallOptions } from './response-cache';
 
 export type PinboardAttachment = {
   url: string;
@@ -29,10 +31,44 @@ export type PinboardPost = {
   sources: PinboardSource[];
 };
 
-export async function fetchPinboardPosts(limit = 10): Promise<PinboardPost[]> {
-  return apiRequest<PinboardPost[]>('/pinboard', { query: { limit } });
+/**
+ * The newest `limit` posts. The API pages by `limit` alone, so older posts come with a larger one.
+ */
+export async function fetchPinboardPosts(
+  limit = 10,
+  options: CachedCallOptions<PinboardPost[]> = {},
+): Promise<PinboardPost[]> {
+  return cachedRequest<PinboardPost[]>('/pinboard', { ...options, query: { limit } });
 }
 
-export async function fetchPinboardPost(slug: string): Promise<PinboardPost> {
-  return apiRequest<PinboardPost>(`/pinboard/${encodeURIComponent(slug)}`);
+export async function fetchPinboardPost(
+  slug: string,
+  options: CachedCallOptions<PinboardPost> = {},
+): Promise<PinboardPost> {
+  return cachedRequest<PinboardPost>(`/pinboard/${encodeURIComponent(slug)}`, options);
+}
+
+/** Posts requested by the first request of a scan; each further request asks for twice as many. */
+const SCAN_PAGE_SIZE = 50;
+
+/**
+ * Page through the pinboard, newest first, handing each request's unseen posts to `onPage` until it
+ * returns true or the pinboard runs out. Resolves to true when any page came from the cache.
+ */
+export async function scanPinboardPosts(
+  onPage: (posts: PinboardPost[], scanned: number) => boolean,
+  options: CallOptions = {},
+): Promise<boolean> {
+  const seen = new Set<string>();
+  let fromCache = false;
+  for (let limit = SCAN_PAGE_SIZE; ; limit *= 2) {
+    const posts = await fetchPinboardPosts(limit, { signal: options.signal });
+    fromCache ||= getCacheInfo(posts) !== null;
+    // Every request starts again at the newest post.
+    const fresh = posts.filter((post) => !seen.has(post.id));
+    fresh.forEach((post) => seen.add(post.id));
+    if (onPage(fresh, seen.size) || posts.length < limit) {
+      return fromCache;
+    }
+  }
 }
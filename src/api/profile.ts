@@ -1,4 +1,5 @@
 import { apiRequest } from './http-client';
+import type { CallOptions } from './http-client';
 
 export type UserProfile = {
   id: string;
@@ -14,13 +15,17 @@ export type UpdateUserProfileInput = {
   email?: string | null;
 };
 
-export async function fetchUserProfile(): Promise<UserProfile> {
-  return apiRequest<UserProfile>('/profile');
+export async function fetchUserProfile(options: CallOptions = {}): Promise<UserProfile> {
+  return apiRequest<UserProfile>('/profile', { signal: options.signal });
 }
 
-export async function updateUserProfile(payload: UpdateUserProfileInput): Promise<UserProfile> {
+export async function updateUserProfile(
+  payload: UpdateUserProfileInput,
+  options: CallOptions = {},
+): Promise<UserProfile> {
   return apiRequest<UserProfile>('/profile', {
     method: 'PATCH',
     body: payload,
+    signal: options.signal,
   });
 }
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { ApiError, apiRequest } from './http-client';
+import type * as HttpClient from './http-client';
+import { cachedRequest, getCacheInfo, setStaleDataNotifier } from './response-cache';
+
+vi.mock('./http-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof HttpClient>()),
+  apiRequest: vi.fn(),
+}));
+
+let home: string;
+const notifier = vi.fn();
+
+beforeAll(async () => {
+  home = await fs.mkdtemp(join(tmpdir(), 'tmates-cache-'));
+  vi.stubEnv('TMATES_CLI_HOME', home);
+  vi.stubEnv('TMATES_PROFILE', '');
+  vi.stubEnv('TMATES_OFFLINE', '');
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  setStaleDataNotifier(notifier);
+});
+
+afterEach(async () => {
+  vi.stubEnv('TMATES_OFFLINE', '');
+  vi.mocked(apiRequest).mockReset();
+  notifier.mockReset();
+  await fs.rm(join(home, 'cache'), { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  setStaleDataNotifier(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+/** Put `data` in the cache for `path` through a successful request. */
+async function prime(path: string, data: object, query?: Record<string, number>): Promise<void> {
+  vi.mocked(apiRequest).mockResolvedValueOnce(data);
+  await cachedRequest(path, { query });
+}
+
+describe('cachedRequest', () => {
+  it('returns fresh data untouched', async () => {
+    vi.mocked(apiRequest).mockResolvedValueOnce({ name: 'fresh' });
+
+    const data = await cachedRequest('/agents');
+
+    expect(data).toEqual({ name: 'fresh' });
+    expect(getCacheInfo(data)).toBeNull();
+    expect(notifier).not.toHaveBeenCalled();
+  });
+
+  it('serves the cached copy when the API is unreachable', async () => {
+    await prime('/agents', { name: 'cached' });
+    vi.mocked(apiRequest).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const data = await cachedRequest('/agents');
+
+    expect(data).toEqual({ name: 'cached' });
+    expect(getCacheInfo(data)).toMatchObject({ reason: 'unreachable' });
+    expect(notifier).toHaveBeenCalledWith(expect.objectContaining({ reason: 'unreachable' }));
+  });
+
+  it('treats server errors as unreachable, but not rejections', async () => {
+    await prime('/agents', { name: 'cached' });
+    vi.mocked(apiRequest).mockRejectedValueOnce(new ApiError('Bad gateway', 502));
+    await expect(cachedRequest('/agents')).resolves.toEqual({ name: 'cached' });
+
+    vi.mocked(apiRequest).mockRejectedValueOnce(new ApiError('Forbidden', 403));
+    await expect(cachedRequest('/agents')).rejects.toThrow('Forbidden');
+  });
+
+  it('falls back quietly when the caller cancels', async () => {
+    await prime('/agents', { name: 'cached' });
+    vi.mocked(apiRequest).mockRejectedValueOnce(new DOMException('Aborted', 'AbortError'));
+
+    const data = await cachedRequest('/agents');
+
+    expect(getCacheInfo(data)).toMatchObject({ reason: 'cancelled' });
+    expect(notifier).not.toHaveBeenCalled();
+  });
+
+  it('passes the error on when nothing is cached', async () => {
+    vi.mocked(apiRequest).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(cachedRequest('/agents')).rejects.toThrow('fetch failed');
+  });
+
+  it('keeps a separate copy for each query', async () => {
+    await prime('/files', { page: 'limit 25' }, { limit: 25 });
+    vi.stubEnv('TMATES_OFFLINE', '1');
+
+    await expect(cachedRequest('/files', { query: { limit: 25 } })).resolves.toEqual({
+      page: 'limit 25',
+    });
+    await expect(cachedRequest('/files', { query: { limit: 50 } })).rejects.toThrow(
+      'Nothing is cached for this yet.',
+    );
+  });
+
+  it('does not ask the API while offline', async () => {
+    await prime('/agents', { name: 'cached' });
+    vi.stubEnv('TMATES_OFFLINE', 'true');
+
+    const data = await cachedRequest('/agents');
+
+    expect(getCacheInfo(data)).toMatchObject({ reason: 'offline' });
+    expect(apiRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { resolveAppConfig } from '../config/app-config';
+import { isOfflineMode } from '../config/environment';
+import { AuthUnreachableError } from '../auth/supabase-auth';
+import { readCacheEntry, writeCacheEntry } from '../storage/cache-store';
+import type { CacheEntry } from '../storage/cache-store';
+import { debugLog } from '../cli/debug';
+import { ApiError, OfflineError, apiRequest, isAbortError } from './http-client';
+import type { CallOptions, RequestOptions } from './http-client';
+
+/**
+ * Options of the cached endpoint wrappers. `onCached` receives the cached copy, when there is one,
+ * before the API is asked for a fresh one.
+ */
+export type CachedCallOptions<T> = CallOptions & {
+  onCached?: (cached: T, savedAt: Date) => void;
+};
+
+/** Why a response was served from the cache instead of the API. */
+export type CacheFallbackReason = 'offline' | 'unreachable' | 'cancelled';
+
+export type CacheInfo = {
+  savedAt: Date;
+  reason: CacheFallbackReason;
+};
+
+export type StaleDataNotifier = (info: CacheInfo) => void;
+
+/** Responses served from the cache, so callers can mark them as stale. */
+const servedFromCache = new WeakMap<object, CacheInfo>();
+
+let staleDataNotifier: StaleDataNotifier | null = null;
+
+/**
+ * GET `path` and keep the response in the profile's cache. When the API cannot be reached, or the
+ * caller cancels, the cached copy is returned instead; with `--offline` the API is not asked at
+ * all. Errors the API answered with (4xx) are never papered over.
+ */
+export async function cachedRequest<T extends object>(
+  path: string,
+  options: Pick<RequestOptions, 'query'> & CachedCallOptions<T> = {},
+): Promise<T> {
+  const key = buildCacheKey(path, options.query);
+  const { profile } = await resolveAppConfig();
+  const cached = await readCacheEntry<T>(profile, key).catch((error: unknown) => {
+    debugLog(`Ignoring unreadable cache entry for ${key}: ${String(error)}`);
+    return null;
+  });
+
+  if (isOfflineMode()) {
+    if (!cached) {
+      throw new OfflineError(
+        'Nothing is cached for this yet. Run it once without --offline to make it available offline.',
+      );
+    }
+    return serveFromCache(cached, 'offline');
+  }
+
+  if (cached) {
+    options.onCached?.(cached.data, new Date(cached.savedAt));
+  }
+  try {
+    const data = await apiRequest<T>(path, { query: options.query, signal: options.signal });
+    await writeCacheEntry(profile, key, data).catch((error: unknown) => {
+      debugLog(`Could not cache ${key}: ${String(error)}`);
+    });
+    return data;
+  } catch (error) {
+    if (!cached) {
+      throw error;
+    }
+    if (isAbortError(error)) {
+      return serveFromCache(cached, 'cancelled');
+    }
+    if (isUnreachable(error)) {
+      debugLog(`${key} failed (${String(error)}); serving the copy cached at ${cached.savedAt}.`);
+      return serveFromCache(cached, 'unreachable');
+    }
+    throw error;
+  }
+}
+
+/**
+ * How `data` came from the cache, or null when it is fresh from the API.
+ */
+export function getCacheInfo(data: unknown): CacheInfo | null {
+  return data && typeof data === 'object' ? (servedFromCache.get(data) ?? null) : null;
+}
+
+/**
+ * Register what to do when a command falls back to cached data, e.g. print a warning. Screens that
+ * mark stale data themselves pass null.
+ */
+export function setStaleDataNotifier(notifier: StaleDataNotifier | null): void {
+  staleDataNotifier = notifier;
+}
+
+function serveFromCache<T extends object>(entry: CacheEntry<T>, reason: CacheFallbackReason): T {
+  const info: CacheInfo = { savedAt: new Date(entry.savedAt), reason };
+  servedFromCache.set(entry.data, info);
+  if (reason !== 'cancelled') {
+    staleDataNotifier?.(info);
+  }
+  return entry.data;
+}
+
+/**
+ * Network failures, timeouts and server errors, also while refreshing the session; not the API
+ * rejecting the request.
+ */
+function isUnreachable(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return (
+    error instanceof TypeError ||
+    error instanceof AuthUnreachableError ||
+    (error instanceof Error && error.name === 'RequestTimeoutError')
+  );
+}
+
+function buildCacheKey(path: string, query: RequestOptions['query'] = {}): string {
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+  return params.length ? `${path}?${params.join('&')}` : path;
+}
@@ -1,4 +1,5 @@
 import { apiRequest } from './http-client';
+import type { CallOptions } from './http-client';
 
 export type MobileSettings = {
   allow_notifications: boolean;
@@ -12,13 +13,17 @@ export type MobileSettings = {
 
 export type UpdateMobileSettingsInput = Partial<MobileSettings>;
 
-export async function fetchMobileSettings(): Promise<MobileSettings> {
-  return apiRequest<MobileSettings>('/settings/mobile');
+export async function fetchMobileSettings(options: CallOptions = {}): Promise<MobileSettings> {
+  return apiRequest<MobileSettings>('/settings/mobile', { signal: options.signal });
 }
 
-export async function updateMobileSettings(payload: UpdateMobileSettingsInput): Promise<MobileSettings> {
+export async function updateMobileSettings(
+  payload: UpdateMobileSettingsInput,
+  options: CallOptions = {},
+): Promise<MobileSettings> {
   return apiRequest<MobileSettings>('/settings/mobile', {
     method: 'PATCH',
     body: payload,
+    signal: options.signal,
   });
 }
@@ -1,4 +1,7 @@
 import { apiRequest } from './http-client';
+import type { CallOptions } from './http-client';
+import { cachedRequest } from './response-cache';
+import type { CachedCallOptions } from './response-cache';
 
 export type AgentManifestBranding = {
   avatar_url?: string;
@@ -47,16 +50,17 @@ export type AgentsMetadataResponse = {
   };
 };
 
-export async function fetchAgentsMetadata(): Promise<AgentsMetadataResponse> {
-  return apiRequest<AgentsMetadataResponse>('/agents/metadata');
+export async function fetchAgentsMetadata(options: CachedCallOptions<AgentsMetadataResponse> = {}): Promise<AgentsMetadataResponse> {
+  return cachedRequest<AgentsMetadataResponse>('/agents/metadata', options);
 }
 
-export async function manageAgent(agentKey: string, action: 'add' | 'remove'): Promise<{ success: boolean; message: string }>{
+export async function manageAgent(agentKey: string, action: 'add' | 'remove', options: CallOptions = {}): Promise<{ success: boolean; message: string }>{
   return apiRequest<{ success: boolean; message: string }>('/agents/manage', {
     method: 'POST',
     body: {
       agent_key: agentKey,
       action,
     },
+    signal: options.signal,
   });
 }
@@ -0,0 +1,153 @@
+import { AuthApiError, AuthRetryableFetchError } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  SessionExpiredError,
+  getFreshAccessToken,
+  isSessionExpiring,
+  refreshAccessToken,
+  setReauthenticateHandler,
+} from './supabase-auth';
+import { getCurrentSession, getSupabaseClient, updateSession } from './supabase-client';
+
+vi.mock('./supabase-client', () => ({
+  getSupabaseClient: vi.fn(),
+  getCurrentSession: vi.fn(),
+  restoreStoredSession: vi.fn(),
+  updateSession: vi.fn(),
+}));
+
+const refresh = vi.fn();
+let current: Session | null = null;
+
+/** A session that expires `expiresIn` seconds from now. */
+function session(accessToken: string, expiresIn: number): Session {
+  return {
+    access_token: accessToken,
+    refresh_token: `refresh-${accessToken}`,
+    token_type: 'bearer',
+    expires_in: expiresIn,
+    expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+    user: {
+      id: 'user-1',
+      aud: 'authenticated',
+      app_metadata: {},
+      user_metadata: {},
+      created_at: '',
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv('TMATES_TOKEN', '');
+  vi.mocked(getSupabaseClient).mockResolvedValue({
+    auth: { refreshSession: refresh },
+  } as unknown as Awaited<ReturnType<typeof getSupabaseClient>>);
+  vi.mocked(getCurrentSession).mockImplementation(() => current);
+  vi.mocked(updateSession).mockImplementation(async (next) => {
+    current = next;
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetAllMocks();
+  setReauthenticateHandler(null);
+  current = null;
+});
+
+describe('isSessionExpiring', () => {
+  it('counts a session as expiring within the margin', () => {
+    expect(isSessionExpiring(session('a', 30))).toBe(true);
+    expect(isSessionExpiring(session('a', 300))).toBe(false);
+    expect(isSessionExpiring(session('a', 30), 0)).toBe(false);
+    expect(isSessionExpiring({ ...session('a', 30), expires_at: undefined })).toBe(false);
+  });
+});
+
+describe('getFreshAccessToken', () => {
+  it('prefers a static token', async () => {
+    vi.stubEnv('TMATES_TOKEN', ' static ');
+    current = session('stored', 30);
+
+    await expect(getFreshAccessToken()).resolves.toBe('static');
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('keeps a token that is not about to expire', async () => {
+    current = session('valid', 3600);
+
+    await expect(getFreshAccessToken()).resolves.toBe('valid');
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('refreshes a token that is about to expire and stores the new session', async () => {
+    current = session('old', 30);
+    const next = session('new', 3600);
+    refresh.mockResolvedValue({ data: { session: next }, error: null });
+
+    await expect(getFreshAccessToken()).resolves.toBe('new');
+    expect(refresh).toHaveBeenCalledWith({ refresh_token: 'refresh-old' });
+    expect(updateSession).toHaveBeenCalledWith(next);
+  });
+
+  it('keeps the old token while it is valid when the refresh fails', async () => {
+    current = session('old', 30);
+    refresh.mockResolvedValue({
+      data: { session: null },
+      error: new AuthRetryableFetchError('fetch failed', 0),
+    });
+
+    await expect(getFreshAccessToken()).resolves.toBe('old');
+  });
+
+  it('fails once the token has expired and cannot be refreshed', async () => {
+    current = session('old', -10);
+    refresh.mockResolvedValue({
+      data: { session: null },
+      error: new AuthRetryableFetchError('fetch failed', 0),
+    });
+
+    await expect(getFreshAccessToken()).rejects.toThrow('Failed to refresh session: fetch failed');
+  });
+});
+
+describe('refreshAccessToken', () => {
+  it('shares one refresh between concurrent callers', async () => {
+    current = session('old', 30);
+    refresh.mockResolvedValue({ data: { session: session('new', 3600) }, error: null });
+
+    const sessions = await Promise.all([refreshAccessToken(), refreshAccessToken()]);
+
+    expect(sessions[0]).toBe(sessions[1]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the reauthenticate handler when the refresh token is rejected', async () => {
+    current = session('old', -10);
+    refresh.mockResolvedValue({
+      data: { session: null },
+      error: new AuthApiError('Invalid Refresh Token', 400, 'refresh_token_not_found'),
+    });
+    const relogin = session('relogin', 3600);
+    const handler = vi.fn().mockResolvedValue(relogin);
+    setReauthenticateHandler(handler);
+
+    await expect(refreshAccessToken()).resolves.toBe(relogin);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an expired session when no handler signs in again', async () => {
+    current = session('old', -10);
+    refresh.mockResolvedValue({
+      data: { session: null },
+      error: new AuthApiError('Invalid Refresh Token', 400, 'refresh_token_not_found'),
+    });
+
+    const error = await refreshAccessToken().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.message).toContain('(Invalid Refresh Token)');
+  });
+});
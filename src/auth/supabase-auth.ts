@@ -1,5 +1,41 @@
-import { Session } from '@supabase/supabase-js';
-import { getSupabaseClient, getCurrentSession, updateSession } from './supabase-client';
+import { isAuthRetryableFetchError } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { isOfflineMode } from '../config/environment';
+import {
+  getSupabaseClient,
+  getCurrentSession,
+  restoreStoredSession,
+  updateSession,
+} from './supabase-client';
+
+/**
+ * Thrown when the session can no longer be refreshed and the user has to sign in again.
+ */
+export class SessionExpiredError extends Error {
+  constructor(reason?: string) {
+    super(
+      `Your session has expired${reason ? ` (${reason})` : ''}. Run \`tmates login\` to sign in again.`,
+    );
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Thrown when Supabase cannot be reached to refresh the session; the session itself may still be
+ * fine.
+ */
+export class AuthUnreachableError extends Error {
+  constructor(reason: string) {
+    super(`Failed to refresh session: ${reason}`);
+    this.name = 'AuthUnreachableError';
+  }
+}
+
+/** Refresh this long before `expires_at` so a token does not lapse while a request is in flight. */
+const EXPIRY_MARGIN_SECONDS = 60;
+
+let pendingRefresh: Promise<Session> | null = null;
+let reauthenticate: (() => Promise<Session | null>) | null = null;
 
 export async function sendOtp(email: string): Promise<void> {
   const client = await getSupabaseClient();
@@ -35,7 +71,30 @@ export async function verifyOtp(email: string, token: string): Promise<Session>
   return data.session;
 }
 
+/**
+ * Sign in with a refresh token from an earlier login, e.g. one kept in a CI secret. Supabase rotates
+ * refresh tokens, so the given one stops working and the new session is stored instead.
+ */
+export async function signInWithRefreshToken(refreshToken: string): Promise<Session> {
+  const client = await getSupabaseClient();
+  const { data, error } = await client.auth.refreshSession({ refresh_token: refreshToken.trim() });
+  if (error) {
+    throw new Error(`Sign-in with the refresh token failed: ${error.message}`);
+  }
+  if (!data.session) {
+    throw new Error('The refresh token was accepted but no session was returned.');
+  }
+  await updateSession(data.session);
+  return data.session;
+}
+
 export async function refreshSession(): Promise<Session | null> {
+  if (getStaticAccessToken()) {
+    return null;
+  }
+  if (isOfflineMode()) {
+    return restoreStoredSession();
+  }
   const client = await getSupabaseClient();
   const { data, error } = await client.auth.getSession();
   if (error) {
@@ -56,11 +115,124 @@ export async function signOut(): Promise<void> {
   await updateSession(null);
 }
 
+/**
+ * Access token given with `--token` or `TMATES_TOKEN`. While it is set the stored session is neither
+ * restored nor refreshed, so headless runs need no Supabase configuration or credential store.
+ */
+export function getStaticAccessToken(): string | null {
+  return process.env.TMATES_TOKEN?.trim() || null;
+}
+
+export type AccessTokenClaims = {
+  sub?: string;
+  email?: string;
+  exp?: number;
+};
+
+/**
+ * Decode the payload of a JWT access token without verifying it, for display only.
+ */
+export function readAccessTokenClaims(token: string): AccessTokenClaims | null {
+  try {
+    const payload = Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf-8');
+    const claims: unknown = JSON.parse(payload);
+    return claims && typeof claims === 'object' ? (claims as AccessTokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
 export function getActiveSession(): Session | null {
   return getCurrentSession();
 }
 
+/**
+ * Register how to sign in again when the session cannot be refreshed. The interactive CLI prompts
+ * for a new login; without a handler a `SessionExpiredError` is thrown.
+ */
+export function setReauthenticateHandler(handler: (() => Promise<Session | null>) | null): void {
+  reauthenticate = handler;
+}
+
+export function isSessionExpiring(
+  session: Session,
+  marginSeconds = EXPIRY_MARGIN_SECONDS,
+): boolean {
+  const expiresAt = session.expires_at;
+  return expiresAt !== undefined && expiresAt - marginSeconds <= Date.now() / 1000;
+}
+
+/**
+ * Exchange the refresh token for a new access token. When the refresh token is rejected, the
+ * reauthenticate handler gets a chance to sign in again. Concurrent callers share a single refresh.
+ */
+export function refreshAccessToken(): Promise<Session> {
+  pendingRefresh ??= (async () => {
+    try {
+      return await exchangeRefreshToken();
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) || !reauthenticate) {
+        throw error;
+      }
+      const session = await reauthenticate();
+      if (!session) {
+        throw error;
+      }
+      return session;
+    }
+  })().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+}
+
+async function exchangeRefreshToken(): Promise<Session> {
+  const current = getCurrentSession();
+  if (!current?.refresh_token) {
+    throw new SessionExpiredError();
+  }
+  const client = await getSupabaseClient();
+  const { data, error } = await client.auth.refreshSession({
+    refresh_token: current.refresh_token,
+  });
+  if (error && isAuthRetryableFetchError(error)) {
+    throw new AuthUnreachableError(error.message);
+  }
+  if (error || !data.session) {
+    throw new SessionExpiredError(error?.message);
+  }
+  await updateSession(data.session);
+  return data.session;
+}
+
+/**
+ * The access token to send with the next request, refreshed first when it is about to expire. A
+ * failed proactive refresh keeps the old token while it is still valid.
+ */
+export async function getFreshAccessToken(): Promise<string | null> {
+  const staticToken = getStaticAccessToken();
+  if (staticToken) {
+    return staticToken;
+  }
+  const session = getCurrentSession();
+  if (!session || !isSessionExpiring(session)) {
+    return session?.access_token ?? null;
+  }
+  try {
+    return (await refreshAccessToken()).access_token;
+  } catch (error) {
+    if (isSessionExpiring(session, 0)) {
+      throw error;
+    }
+    return session.access_token;
+  }
+}
+
 export function getAccessToken(): string | null {
+  const staticToken = getStaticAccessToken();
+  if (staticToken) {
+    return staticToken;
+  }
   const session = getCurrentSession();
   return session?.access_token ?? null;
 }
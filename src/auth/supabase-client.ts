@@ -1,10 +1,22 @@
-import { createClient, SupabaseClient, Session } from '@supabase/supabase-js';
+import {
+  createClient,
+  isAuthRetryableFetchError,
+  SupabaseClient,
+  Session,
+} from '@supabase/supabase-js';
 import { resolveAppConfig } from '../config/app-config';
-import { deleteSession, loadStoredSession, saveSession } from '../storage/session-store';
+import {
+  deleteSession,
+  loadStoredSession,
+  saveSession,
+  unlockSessionStore,
+} from '../storage/session-store';
 
 let supabaseClient: SupabaseClient | null = null;
 let currentSession: Session | null = null;
 let initialised = false;
+/** Access token of the session last written to (or read from) the credential store. */
+let persistedAccessToken: string | null = null;
 
 function shouldPersistSession(): boolean {
   return process.env.TMATES_CLI_DISABLE_SESSION_CACHE !== '1';
@@ -18,7 +30,7 @@ export async function getSupabaseClient(): Promise<SupabaseClient> {
   const config = await resolveAppConfig();
   if (!config.supabaseUrl || !config.supabaseAnonKey) {
     throw new Error(
-      'Supabase credentials are not configured. Set TMATES_SUPABASE_URL and TMATES_SUPABASE_ANON_KEY or use the CLI settings to configure them.',
+      'Supabase credentials are not configured. Set TMATES_SUPABASE_URL and TMATES_SUPABASE_ANON_KEY or configure them with `tmates config set`.',
     );
   }
 
@@ -27,6 +39,8 @@ export async function getSupabaseClient(): Promise<SupabaseClient> {
       persistSession: false,
       autoRefreshToken: true,
       detectSessionInUrl: false,
+      // Browser logins (`tmates login --web`) hand the session back as a PKCE code.
+      flowType: 'pkce',
     },
     global: {
       headers: {
@@ -36,17 +50,16 @@ export async function getSupabaseClient(): Promise<SupabaseClient> {
   });
 
   if (!initialised) {
-    await tryRestoreSession(supabaseClient);
-    supabaseClient.auth.onAuthStateChange(async (_event, session) => {
-      currentSession = session ?? null;
-      if (!shouldPersistSession()) {
+    await tryRestoreSession(supabaseClient, config.profile);
+    supabaseClient.auth.onAuthStateChange(async (event, session) => {
+      // A stored session kept while Supabase was unreachable only goes away with a sign-out.
+      currentSession = session ?? (event === 'SIGNED_OUT' ? null : currentSession);
+      // Without a session, only an explicit sign-out clears the store; a session that could not be
+      // restored (e.g. a wrong passphrase) must survive for the next attempt.
+      if (!shouldPersistSession() || (!session && event !== 'SIGNED_OUT')) {
         return;
       }
-      if (session) {
-        await saveSession(session);
-      } else {
-        await deleteSession();
-      }
+      await persistSession(session ?? null, config.profile);
     });
     initialised = true;
   }
@@ -54,13 +67,14 @@ export async function getSupabaseClient(): Promise<SupabaseClient> {
   return supabaseClient;
 }
 
-async function tryRestoreSession(client: SupabaseClient): Promise<void> {
+async function tryRestoreSession(client: SupabaseClient, profile: string): Promise<void> {
   if (!shouldPersistSession()) {
     return;
   }
 
   try {
-    const stored = await loadStoredSession();
+    await unlockSessionStore(profile);
+    const stored = await loadStoredSession(profile);
     if (!stored || !stored.refresh_token || !stored.access_token) {
       return;
     }
@@ -70,18 +84,41 @@ async function tryRestoreSession(client: SupabaseClient): Promise<void> {
       access_token: stored.access_token,
     });
 
+    if (error && isAuthRetryableFetchError(error)) {
+      // Supabase could not be reached to refresh the token; keep the session for the next attempt.
+      currentSession = stored;
+      return;
+    }
     if (error) {
-      await deleteSession();
+      await deleteSession(profile);
       console.warn('Stored session is invalid. Please sign in again.');
       return;
     }
 
     currentSession = data.session ?? null;
+    persistedAccessToken = stored.access_token;
   } catch (error) {
-    console.warn('Failed to restore stored session:', error);
+    console.warn(
+      'Failed to restore stored session:',
+      error instanceof Error ? error.message : String(error),
+    );
   }
 }
 
+/**
+ * The stored session as saved, for `--offline`. Restoring it through Supabase would try to refresh
+ * an expired access token.
+ */
+export async function restoreStoredSession(): Promise<Session | null> {
+  if (!shouldPersistSession()) {
+    return currentSession;
+  }
+  const { profile } = await resolveAppConfig();
+  await unlockSessionStore(profile);
+  currentSession = await loadStoredSession(profile);
+  return currentSession;
+}
+
 export function getCurrentSession(): Session | null {
   return currentSession;
 }
@@ -91,9 +128,23 @@ export async function updateSession(session: Session | null): Promise<void> {
   if (!shouldPersistSession()) {
     return;
   }
+  const { profile } = await resolveAppConfig();
+  await persistSession(session, profile);
+}
+
+/**
+ * Write the session unless the store already holds it, so that an encrypted store is only unlocked
+ * when tokens actually change.
+ */
+async function persistSession(session: Session | null, profile: string): Promise<void> {
   if (session) {
-    await saveSession(session);
+    if (session.access_token === persistedAccessToken) {
+      return;
+    }
+    await saveSession(session, profile);
+    persistedAccessToken = session.access_token;
   } else {
-    await deleteSession();
+    await deleteSession(profile);
+    persistedAccessToken = null;
   }
 }
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { startWebLogin } from './web-login';
+import type { WebLogin } from './web-login';
+
+/**
+ * Stand-in for the Supabase auth server: it issues authorization codes for the PKCE challenges it
+ * has seen and only exchanges a code together with the matching verifier.
+ */
+type StubAuth = {
+  server: Server;
+  url: string;
+  /** Code challenges by the email a magic link was sent to. */
+  magicLinks: Map<string, { challenge: string; redirectTo: string }>;
+  /** Code challenges by the authorization code the stub handed out. */
+  codes: Map<string, string>;
+  exchanges: number;
+};
+
+let auth: StubAuth;
+let home: string;
+let login: WebLogin | null = null;
+
+async function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = '';
+  for await (const chunk of request) {
+    raw += chunk;
+  }
+  return raw ? JSON.parse(raw) : {};
+}
+
+async function startStubAuth(): Promise<StubAuth> {
+  const stub = { magicLinks: new Map(), codes: new Map(), exchanges: 0 } as StubAuth;
+  stub.server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    const body = request.method === 'POST' ? await readJson(request) : {};
+    const send = (status: number, payload: unknown): void => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(payload));
+    };
+    if (url.pathname === '/auth/v1/otp') {
+      stub.magicLinks.set(String(body.email), {
+        challenge: String(body.code_challenge),
+        redirectTo: url.searchParams.get('redirect_to') ?? '',
+      });
+      send(200, {});
+      return;
+    }
+    if (url.pathname === '/auth/v1/token' && url.searchParams.get('grant_type') === 'pkce') {
+      stub.exchanges += 1;
+      const challenge = stub.codes.get(String(body.auth_code));
+      const expected = createHash('sha256').update(String(body.code_verifier)).digest('base64url');
+      if (!challenge || challenge !== expected) {
+        send(400, { error: 'invalid_grant', error_description: 'Code verifier does not match' });
+        return;
+      }
+      send(200, {
+        access_token: `access-${body.auth_code}`,
+        refresh_token: `refresh-${body.auth_code}`,
+        token_type: 'bearer',
+        expires_in: 3600,
+        user: {
+          id: 'user-1',
+          aud: 'authenticated',
+          email: 'dev@example.com',
+          app_metadata: {},
+          user_metadata: {},
+          created_at: '2026-01-01T00:00:00Z',
+        },
+      });
+      return;
+    }
+    send(404, { error: 'not_found' });
+  });
+  await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+  stub.url = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  return stub;
+}
+
+/** What the provider does after a successful sign-in: issue a code for the challenge. */
+function authorize(authorizeUrl: string, code: string): string {
+  const url = new URL(authorizeUrl);
+  auth.codes.set(code, url.searchParams.get('code_challenge') ?? '');
+  const redirect = new URL(url.searchParams.get('redirect_to') ?? '');
+  redirect.searchParams.set('code', code);
+  return redirect.href;
+}
+
+async function readStoredSession(): Promise<{ session: { access_token: string } }> {
+  return JSON.parse(await fs.readFile(join(home, 'sessions', 'default.json'), 'utf-8'));
+}
+
+beforeAll(async () => {
+  auth = await startStubAuth();
+  home = await fs.mkdtemp(join(tmpdir(), 'tmates-web-login-'));
+  vi.stubEnv('TMATES_CLI_HOME', home);
+  vi.stubEnv('TMATES_SUPABASE_URL', auth.url);
+  vi.stubEnv('TMATES_SUPABASE_ANON_KEY', 'anon-key');
+  vi.stubEnv('TMATES_API_BASE_URL', 'http://127.0.0.1:9');
+  vi.stubEnv('TMATES_CREDENTIAL_STORE', 'plaintext');
+  vi.stubEnv('TMATES_PROFILE', '');
+});
+
+afterEach(() => {
+  login?.close();
+  login = null;
+  vi.useRealTimers();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => auth.server.close(resolve));
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+describe('startWebLogin', () => {
+  it('exchanges the code the browser brings back to the loopback server and stores the session', async () => {
+    login = await startWebLogin({ type: 'oauth', provider: 'github' });
+
+    const authorizeUrl = new URL(login.url ?? '');
+    expect(authorizeUrl.origin + authorizeUrl.pathname).toBe(`${auth.url}/auth/v1/authorize`);
+    expect(authorizeUrl.searchParams.get('provider')).toBe('github');
+    expect(authorizeUrl.searchParams.get('redirect_to')).toBe(login.redirectUrl);
+    expect(authorizeUrl.searchParams.get('code_challenge_method')).toBe('s256');
+    expect(login.redirectUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/auth\/callback$/);
+
+    const page = await fetch(authorize(login.url ?? '', 'code-1'));
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain('Signed in to Tmates');
+
+    const session = await login.session;
+    expect(session.access_token).toBe('access-code-1');
+    expect(session.user.email).toBe('dev@example.com');
+    expect((await readStoredSession()).session.access_token).toBe('access-code-1');
+  });
+
+  it('completes a magic-link login from a pasted callback URL', async () => {
+    login = await startWebLogin({ type: 'magic-link', email: ' Dev@Example.com ' });
+    expect(login.url).toBeNull();
+    const link = auth.magicLinks.get('dev@example.com');
+    expect(link?.redirectTo).toBe(login.redirectUrl);
+    auth.codes.set('code-2', link?.challenge ?? '');
+
+    await expect(login.complete('not a url')).rejects.toThrow('That does not look like a URL.');
+    await expect(login.complete(login.redirectUrl)).rejects.toThrow(
+      'The URL does not contain an authorization code.',
+    );
+    const session = await login.complete(`${login.redirectUrl}?code=code-2`);
+
+    expect(session.access_token).toBe('access-code-2');
+    await expect(login.session).resolves.toBe(session);
+    expect((await readStoredSession()).session.access_token).toBe('access-code-2');
+  });
+
+  it('ends the login when the provider reports an error', async () => {
+    login = await startWebLogin({ type: 'oauth', provider: 'github' });
+    const exchanges = auth.exchanges;
+
+    const page = await fetch(
+      `${login.redirectUrl}?error=access_denied&error_description=The+user+cancelled`,
+    );
+
+    expect(page.status).toBe(400);
+    await expect(login.session).rejects.toThrow('Sign-in was not completed: The user cancelled');
+    expect(auth.exchanges).toBe(exchanges);
+  });
+
+  it('rejects a code that was issued for another challenge', async () => {
+    login = await startWebLogin({ type: 'oauth', provider: 'github' });
+    auth.codes.set('stolen', 'someone-elses-challenge');
+
+    const page = await fetch(`${login.redirectUrl}?code=stolen`);
+
+    expect(page.status).toBe(400);
+    await expect(login.session).rejects.toThrow('Sign-in failed: Code verifier does not match');
+  });
+
+  it('only answers on the callback path', async () => {
+    login = await startWebLogin({ type: 'oauth', provider: 'github' });
+
+    const response = await fetch(new URL('/favicon.ico', login.redirectUrl));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('gives up after five minutes without a callback', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    login = await startWebLogin({ type: 'oauth', provider: 'github' });
+    const outcome = login.session.catch((error: Error) => error);
+
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(await outcome).toEqual(new Error('Timed out waiting for the browser sign-in.'));
+  });
+});
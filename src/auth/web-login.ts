@@ -0,0 +1,207 @@
+import { createServer } from 'http';
+import type { ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Provider, Session } from '@supabase/supabase-js';
+import { getSupabaseClient, updateSession } from './supabase-client';
+
+export type WebLoginMethod =
+  | { type: 'oauth'; provider: Provider }
+  | { type: 'sso'; domain: string }
+  | { type: 'magic-link'; email: string };
+
+export type WebLogin = {
+  /** Page to open in the browser, or null for a magic link, which arrives by email. */
+  url: string | null;
+  redirectUrl: string;
+  /** Resolves once the browser hits the callback (or a pasted callback URL) and the code is exchanged. */
+  session: Promise<Session>;
+  /**
+   * Finish the login with the URL the browser was redirected to, for when the browser runs on another
+   * machine and cannot reach the loopback server.
+   */
+  complete(callbackUrl: string): Promise<Session>;
+  close(): void;
+};
+
+const CALLBACK_PATH = '/auth/callback';
+const LOGIN_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Start a browser login: a loopback HTTP server receives the PKCE authorization code that Supabase
+ * redirects to after an OAuth, SSO or magic-link sign-in, and exchanges it for a session.
+ */
+export async function startWebLogin(method: WebLoginMethod, port = 0): Promise<WebLogin> {
+  let resolveSession!: (session: Session) => void;
+  let rejectSession!: (error: Error) => void;
+  const session = new Promise<Session>((resolve, reject) => {
+    resolveSession = resolve;
+    rejectSession = reject;
+  });
+  let exchange: Promise<Session> | null = null;
+
+  const complete = (callbackUrl: string): Promise<Session> => {
+    let code: string;
+    try {
+      code = readAuthorizationCode(callbackUrl);
+    } catch (error) {
+      if (error instanceof CallbackError) {
+        return Promise.reject(error);
+      }
+      rejectSession(error as Error);
+      return session;
+    }
+    exchange ??= exchangeCode(code).then(
+      (result) => {
+        resolveSession(result);
+        return result;
+      },
+      (error: Error) => {
+        rejectSession(error);
+        throw error;
+      },
+    );
+    return exchange;
+  };
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== CALLBACK_PATH) {
+      response.writeHead(404).end();
+      return;
+    }
+    complete(url.href).then(
+      () =>
+        respond(
+          response,
+          200,
+          'Signed in to Tmates',
+          'You can close this tab and return to the terminal.',
+        ),
+      (error: Error) => respond(response, 400, 'Sign-in failed', error.message),
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === 'EADDRINUSE'
+          ? new Error(`Port ${port} is already in use. Pick another one with --port.`)
+          : error,
+      );
+    });
+    server.listen(port, '127.0.0.1', resolve);
+  });
+
+  const redirectUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${CALLBACK_PATH}`;
+  const timeout = setTimeout(() => {
+    rejectSession(new Error('Timed out waiting for the browser sign-in.'));
+  }, LOGIN_TIMEOUT_MS);
+  const close = (): void => {
+    clearTimeout(timeout);
+    server.close();
+    server.closeIdleConnections();
+  };
+  session.then(close, close);
+
+  try {
+    return {
+      url: await requestAuthorizationUrl(method, redirectUrl),
+      redirectUrl,
+      session,
+      complete,
+      close,
+    };
+  } catch (error) {
+    session.catch(() => undefined);
+    rejectSession(error as Error);
+    throw error;
+  }
+}
+
+/** A pasted URL that is not a callback; the login keeps waiting. */
+class CallbackError extends Error {}
+
+/**
+ * Pull the authorization code out of a callback URL. An `error` parameter means the provider or the
+ * user turned the sign-in down, which ends the login.
+ */
+function readAuthorizationCode(callbackUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl.trim());
+  } catch {
+    throw new CallbackError('That does not look like a URL.');
+  }
+  const failure = url.searchParams.get('error_description') ?? url.searchParams.get('error');
+  if (failure) {
+    throw new Error(`Sign-in was not completed: ${failure}`);
+  }
+  const code = url.searchParams.get('code');
+  if (!code) {
+    throw new CallbackError('The URL does not contain an authorization code.');
+  }
+  return code;
+}
+
+async function requestAuthorizationUrl(
+  method: WebLoginMethod,
+  redirectTo: string,
+): Promise<string | null> {
+  const client = await getSupabaseClient();
+  switch (method.type) {
+    case 'oauth': {
+      const { data, error } = await client.auth.signInWithOAuth({
+        provider: method.provider,
+        options: { redirectTo, skipBrowserRedirect: true },
+      });
+      if (error) {
+        throw new Error(`Failed to start ${method.provider} sign-in: ${error.message}`);
+      }
+      return data.url;
+    }
+    case 'sso': {
+      const { data, error } = await client.auth.signInWithSSO({
+        domain: method.domain,
+        options: { redirectTo },
+      });
+      if (error) {
+        throw new Error(`Failed to start SSO sign-in: ${error.message}`);
+      }
+      return data.url;
+    }
+    case 'magic-link': {
+      const { error } = await client.auth.signInWithOtp({
+        email: method.email.trim().toLowerCase(),
+        options: { emailRedirectTo: redirectTo, shouldCreateUser: false },
+      });
+      if (error) {
+        throw new Error(`Failed to send sign-in link: ${error.message}`);
+      }
+      return null;
+    }
+  }
+}
+
+async function exchangeCode(code: string): Promise<Session> {
+  const client = await getSupabaseClient();
+  const { data, error } = await client.auth.exchangeCodeForSession(code);
+  if (error) {
+    throw new Error(`Sign-in failed: ${error.message}`);
+  }
+  if (!data.session) {
+    throw new Error('Sign-in succeeded but no session was returned.');
+  }
+  await updateSession(data.session);
+  return data.session;
+}
+
+function respond(response: ServerResponse, status: number, title: string, message: string): void {
+  const escape = (value: string): string =>
+    value.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+  response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+  response.end(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head>` +
+      `<body style="font-family: sans-serif; margin: 4rem auto; max-width: 32rem; text-align: center">` +
+      `<h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`,
+  );
+}
@@ -0,0 +1,130 @@
+import { InvalidArgumentError } from 'commander';
+
+import type { AgentMetadata, AgentsMetadataResponse } from '../api/teammates';
+
+export type AgentAccessState = 'can_use' | 'not_enabled' | 'not_installed';
+
+export const AGENT_ACCESS_STATES: AgentAccessState[] = ['can_use', 'not_enabled', 'not_installed'];
+
+export type AgentFilter = {
+  category?: string;
+  role?: string;
+  access?: AgentAccessState;
+};
+
+export type AgentAccessGroup = {
+  state: AgentAccessState;
+  label: string;
+  agents: AgentMetadata[];
+};
+
+const ACCESS_LABELS: Record<AgentAccessState, string> = {
+  can_use: 'Available',
+  not_enabled: 'Not enabled',
+  not_installed: 'Not installed',
+};
+
+export function parseAgentAccessState(value: string): AgentAccessState {
+  const normalized = value.trim().toLowerCase().replace(/-/g, '_');
+  if (!AGENT_ACCESS_STATES.includes(normalized as AgentAccessState)) {
+    throw new InvalidArgumentError(`Expected one of ${AGENT_ACCESS_STATES.join(', ')}.`);
+  }
+  return normalized as AgentAccessState;
+}
+
+/**
+ * Where an agent stands for the current user. `access_summary` is authoritative; the per-agent flags
+ * are used for agents the summary does not mention.
+ */
+export function getAgentAccess(
+  agent: AgentMetadata,
+  response: Pick<AgentsMetadataResponse, 'access_summary'>,
+): AgentAccessState {
+  const summary = response.access_summary;
+  const state = AGENT_ACCESS_STATES.find((candidate) => summary?.[candidate]?.includes(agent.key));
+  if (state) {
+    return state;
+  }
+  if (agent.can_use) {
+    return 'can_use';
+  }
+  return agent.platform_available ? 'not_enabled' : 'not_installed';
+}
+
+/**
+ * Why an agent cannot be used, or null when it can.
+ */
+export function describeAgentAccess(agent: AgentMetadata, state: AgentAccessState): string | null {
+  switch (state) {
+    case 'can_use':
+      return null;
+    case 'not_installed':
+      return 'Not installed on the Tmates platform for your organization; ask an admin to install it.';
+    case 'not_enabled':
+      return agent.user_enabled
+        ? 'Enabled for you but not usable yet; your organization may have restricted it.'
+        : 'Not enabled for your account; hire it from the Teammates screen first.';
+  }
+}
+
+export function getAccessLabel(state: AgentAccessState): string {
+  return ACCESS_LABELS[state];
+}
+
+export function filterAgents(agents: AgentMetadata[], filter: AgentFilter): AgentMetadata[] {
+  const matches = (value: string | null | undefined, expected: string | undefined): boolean =>
+    !expected || (value ?? '').toLowerCase() === expected.trim().toLowerCase();
+  return agents.filter(
+    (agent) => matches(agent.category, filter.category) && matches(agent.role, filter.role),
+  );
+}
+
+/**
+ * Sort the response's agents by name, apply `filter` and group them by access state. Empty groups
+ * are dropped.
+ */
+export function groupAgentsByAccess(
+  response: AgentsMetadataResponse,
+  filter: AgentFilter = {},
+): AgentAccessGroup[] {
+  const agents = filterAgents(
+    sortAgentsByName(Object.values(response.agents_metadata ?? {})),
+    filter,
+  );
+  return AGENT_ACCESS_STATES.filter((state) => !filter.access || filter.access === state)
+    .map((state) => ({
+      state,
+      label: ACCESS_LABELS[state],
+      agents: agents.filter((agent) => getAgentAccess(agent, response) === state),
+    }))
+    .filter((group) => group.agents.length);
+}
+
+export function sortAgentsByName(agents: AgentMetadata[]): AgentMetadata[] {
+  return [...agents].sort((a, b) => {
+    const nameA = (a.name || a.key || '').toLowerCase();
+    const nameB = (b.name || b.key || '').toLowerCase();
+    return nameA.localeCompare(nameB);
+  });
+}
+
+/**
+ * Throw an explanatory error unless `agentKey` names an agent the user can chat with.
+ */
+export function assertAgentUsable(
+  response: AgentsMetadataResponse,
+  agentKey: string,
+): AgentMetadata {
+  const normalized = agentKey.trim().toLowerCase();
+  const agent = Object.values(response.agents_metadata ?? {}).find(
+    (entry) => entry.key.toLowerCase() === normalized,
+  );
+  if (!agent) {
+    throw new Error(`Unknown agent "${agentKey}".`);
+  }
+  const reason = describeAgentAccess(agent, getAgentAccess(agent, response));
+  if (reason) {
+    throw new Error(`Cannot chat with ${agent.name || agent.key}: ${reason}`);
+  }
+  return agent;
+}
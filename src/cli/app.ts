@@ -1,37 +1,157 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
+import type { Provider, Session } from '@supabase/supabase-js';
 
 import pkg from '../../package.json';
 import { resolveAppConfig } from '../config/app-config';
-import { promptForEmail, promptForOtp } from './prompts';
+import { promptForCallbackUrl, promptForEmail, promptForOtp, promptForPassphrase } from './prompts';
 import { launchInteractiveCli } from './interactive';
-import { getAccessToken, refreshSession, sendOtp, signOut, verifyOtp } from '../auth/supabase-auth';
+import {
+  getAccessToken,
+  getStaticAccessToken,
+  readAccessTokenClaims,
+  refreshSession,
+  sendOtp,
+  signInWithRefreshToken,
+  signOut,
+  verifyOtp,
+} from '../auth/supabase-auth';
+import { startWebLogin } from '../auth/web-login';
+import type { WebLogin, WebLoginMethod } from '../auth/web-login';
+import { canOpenExternal, openExternal } from './file-transfer';
 import { brandPrimary, brandSecondaryBold } from './theme';
+import { registerChatCommands } from './commands/chat';
+import { registerAgentCommands } from './commands/agents';
+import { registerPinboardCommands } from './commands/pinboard';
+import { registerFileCommands } from './commands/files';
+import { registerProfileCommands } from './commands/profile';
+import { registerConfigCommands } from './commands/config';
+import { registerSettingsCommands } from './commands/settings';
+import { registerAuthCommands } from './commands/auth';
+import { registerDoctorCommand } from './commands/doctor';
+import { registerCacheCommands } from './commands/cache';
+import { registerSearchCommand } from './commands/search';
+import { readStdin, requireSession } from './commands/shared';
+import { fetchUserProfile } from '../api/profile';
+import type { UserProfile } from '../api/profile';
+import { resolveCredentialStore } from '../storage/credential-store';
+import { setPassphraseProvider } from '../storage/encrypted-store';
+import { unlockSessionStore } from '../storage/session-store';
+import { clearCache } from '../storage/cache-store';
+import { deleteSearchIndex } from '../storage/search-index-store';
+import { setStaleDataNotifier } from '../api/response-cache';
+import { describeCacheInfo } from './format';
+import { parseOutputFormat, setOutputFormat, startSpinner, writeRecord } from './output';
+import type { OutputFormat } from './output';
 
 export async function runCli(argv: string[]): Promise<void> {
+  // https://no-color.org: chalk only honours FORCE_COLOR, so apply NO_COLOR ourselves.
+  if (process.env.NO_COLOR && !process.env.FORCE_COLOR) {
+    chalk.level = 0;
+  }
+
+  setPassphraseProvider(async ({ profile, confirm }) => {
+    const passphrase = await promptForPassphrase(
+      confirm
+        ? `New passphrase to encrypt the session of profile "${profile}": `
+        : `Passphrase for the session of profile "${profile}": `,
+    );
+    if (
+      confirm &&
+      passphrase &&
+      (await promptForPassphrase('Repeat passphrase: ')) !== passphrase
+    ) {
+      throw new Error('The passphrases do not match.');
+    }
+    return passphrase;
+  });
+
+  // Commands warn once on stderr when they fall back to cached data; screens mark it themselves.
+  let warnedAboutStaleData = false;
+  setStaleDataNotifier((info) => {
+    if (!warnedAboutStaleData) {
+      warnedAboutStaleData = true;
+      process.stderr.write(`${chalk.yellow(describeCacheInfo(info))}\n`);
+    }
+  });
+
   const program = new Command();
 
   program
     .name('tmates')
     .description('Tmates command line interface')
-    .version(pkg.version, '-v, --version', 'Display version number');
+    .version(pkg.version, '-v, --version', 'Display version number')
+    // Global options go before the subcommand, so subcommands may reuse their flags.
+    .enablePositionalOptions();
+  createGlobalOptions().forEach((option) => program.addOption(option));
+  program.hook('preAction', (thisCommand, actionCommand) => {
+    const options = readGlobalOptions(thisCommand, actionCommand);
+    setOutputFormat(options.output ?? 'text');
+    if (options.profile) {
+      process.env.TMATES_PROFILE = options.profile;
+    }
+    if (options.token) {
+      process.env.TMATES_TOKEN = options.token;
+    }
+    if (options.offline) {
+      process.env.TMATES_OFFLINE = '1';
+    }
+  });
 
   program
     .command('login')
-    .description('Authenticate with Supabase OTP')
+    .description('Authenticate with Supabase OTP, or in the browser with --web')
     .option('-e, --email <email>', 'Email address used for Tmates login')
     .option('--otp <code>', 'One-time passcode received via email')
+    .option(
+      '--refresh-token <token>',
+      'Sign in with a refresh token from an earlier login ("-" reads stdin)',
+    )
+    .option('--web', 'Sign in through the browser: a magic link, or --provider / --sso')
+    .option('--provider <provider>', 'OAuth provider for --web, e.g. google, github or azure')
+    .option('--sso <domain>', 'Company domain for single sign-on with --web')
+    .option(
+      '--port <port>',
+      'Port of the local callback server for --web (default: random)',
+      parsePort,
+    )
+    .option('--no-browser', 'Print the sign-in URL for --web instead of opening a browser')
     .option('--no-cache', 'Do not persist the Supabase session on disk for this login')
-    .action(async (options: { email?: string; otp?: string; cache?: boolean }) => {
+    .action(async (options: LoginOptions) => {
       if (options.cache === false) {
         process.env.TMATES_CLI_DISABLE_SESSION_CACHE = '1';
       }
 
-      await resolveAppConfig();
+      const config = await resolveAppConfig();
+      if (options.cache !== false && process.env.TMATES_CLI_DISABLE_SESSION_CACHE !== '1') {
+        // Ask for the encrypted store's passphrase before the spinners start.
+        await unlockSessionStore(config.profile, true);
+      }
+      if (options.refreshToken) {
+        const refreshToken =
+          options.refreshToken === '-' ? (await readStdin()).trim() : options.refreshToken;
+        if (!refreshToken) {
+          throw new Error('No refresh token was given on stdin.');
+        }
+        const spinner = startSpinner('Signing in with the refresh token...');
+        try {
+          const session = await signInWithRefreshToken(refreshToken);
+          spinner.succeed('Login successful.');
+          writeLoginResult(session, session.user?.email ?? '');
+        } catch (error) {
+          spinner.fail('Login failed.');
+          throw error;
+        }
+        return;
+      }
+      if (options.web || options.provider || options.sso) {
+        const session = await loginInBrowser(options);
+        writeLoginResult(session, session.user?.email ?? '');
+        return;
+      }
       const email = await promptForEmail(options.email);
 
-      const sendingSpinner = ora('Sending one-time passcode...').start();
+      const sendingSpinner = startSpinner('Sending one-time passcode...');
       try {
         await sendOtp(email);
         sendingSpinner.succeed('Passcode sent. Check your email.');
@@ -41,11 +161,11 @@ export async function runCli(argv: string[]): Promise<void> {
       }
 
       const otp = await promptForOtp(options.otp);
-      const verifyingSpinner = ora('Verifying passcode...').start();
+      const verifyingSpinner = startSpinner('Verifying passcode...');
       try {
         const session = await verifyOtp(email, otp);
         verifyingSpinner.succeed('Login successful.');
-        process.stdout.write(`Authenticated as ${brandSecondaryBold(session.user?.email ?? email)}\n`);
+        writeLoginResult(session, email);
       } catch (error) {
         verifyingSpinner.fail('Verification failed.');
         throw error;
@@ -54,12 +174,16 @@ export async function runCli(argv: string[]): Promise<void> {
 
   program
     .command('logout')
-    .description('Clear the stored session and sign out of Supabase')
+    .description('Clear the stored session and cached data and sign out of Supabase')
     .action(async () => {
-      const spinner = ora('Signing out...').start();
+      const spinner = startSpinner('Signing out...');
       try {
         await signOut();
+        const { profile } = await resolveAppConfig();
+        await clearCache(profile);
+        await deleteSearchIndex(profile);
         spinner.succeed('Signed out successfully.');
+        writeRecord({ signedOut: true }, { text: () => '' });
       } catch (error) {
         spinner.fail('Failed to sign out.');
         throw error;
@@ -73,24 +197,83 @@ export async function runCli(argv: string[]): Promise<void> {
       const config = await resolveAppConfig();
       const session = await refreshSession();
       const token = getAccessToken();
-      const userEmail = session?.user?.email ?? 'Not authenticated';
-
-      const rows: [string, string][] = [
-        ['Supabase URL', config.supabaseUrl || chalk.red('Not set')],
-        ['API Base URL', config.apiBaseUrl || chalk.red('Not set')],
-        ['Session', session ? brandPrimary('Active') : chalk.yellow('Missing')],
-        ['User', session ? brandSecondaryBold(userEmail) : chalk.gray('—')],
-        ['Token cached', process.env.TMATES_CLI_DISABLE_SESSION_CACHE === '1' ? 'No' : token ? 'Yes' : 'No'],
-      ];
-
-      const labelWidth = Math.max(...rows.map(([label]) => label.length));
-      process.stdout.write('\n');
-      for (const [label, value] of rows) {
-        process.stdout.write(`${label.padEnd(labelWidth)}  ${value}\n`);
-      }
-      process.stdout.write('\n');
+      const staticToken = getStaticAccessToken();
+      const cacheDisabled = process.env.TMATES_CLI_DISABLE_SESSION_CACHE === '1';
+      const tokenCached = cacheDisabled || staticToken ? false : Boolean(token);
+      const credentialStore = await describeCredentialStore(config.profile);
+
+      writeRecord(
+        {
+          profile: config.profile,
+          supabaseUrl: config.supabaseUrl || null,
+          apiBaseUrl: config.apiBaseUrl || null,
+          session: staticToken ? 'token' : session ? 'active' : 'missing',
+          user:
+            session?.user?.email ??
+            (staticToken ? (readAccessTokenClaims(staticToken)?.email ?? null) : null),
+          tokenCached,
+          credentialStore: credentialStore.name,
+          credentialStoreSource: credentialStore.source,
+          credentialStoreLocation: credentialStore.location,
+        },
+        {
+          text: (record) => {
+            const rows: [string, string][] = [
+              ['Profile', record.profile],
+              ['Supabase URL', record.supabaseUrl || chalk.red('Not set')],
+              ['API Base URL', record.apiBaseUrl || chalk.red('Not set')],
+              [
+                'Session',
+                staticToken
+                  ? `${brandPrimary('Access token')} ${chalk.gray('(--token / TMATES_TOKEN)')}`
+                  : session
+                    ? brandPrimary('Active')
+                    : chalk.yellow('Missing'),
+              ],
+              ['User', record.user ? brandSecondaryBold(record.user) : chalk.gray('—')],
+              ['Token cached', record.tokenCached ? 'Yes' : 'No'],
+              ['Credential store', formatCredentialStore(credentialStore, cacheDisabled)],
+              ['Stored at', chalk.gray(credentialStore.location ?? '—')],
+            ];
+
+            const labelWidth = Math.max(...rows.map(([label]) => label.length));
+            let content = '\n';
+            for (const [label, value] of rows) {
+              content += `${label.padEnd(labelWidth)}  ${value}\n`;
+            }
+            return `${content}\n`;
+          },
+        },
+      );
     });
 
+  requireSession(
+    program.command('whoami').description('Show the Tmates user profile of the signed-in account'),
+  ).action(async () => {
+    const spinner = startSpinner('Loading profile...');
+    let profile: UserProfile;
+    try {
+      profile = await fetchUserProfile();
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Failed to load profile.');
+      throw error;
+    }
+    writeRecord(profile, { text: renderUserProfile });
+  });
+
+  registerDoctorCommand(program);
+  registerChatCommands(program);
+  registerAgentCommands(program);
+  registerPinboardCommands(program);
+  registerSearchCommand(program);
+  registerFileCommands(program);
+  registerProfileCommands(program);
+  registerConfigCommands(program);
+  registerSettingsCommands(program);
+  registerAuthCommands(program);
+  registerCacheCommands(program);
+
   program
     .command('start')
     .description('Launch the interactive Tmates CLI experience')
@@ -102,5 +285,249 @@ export async function runCli(argv: string[]): Promise<void> {
     await launchInteractiveCli();
   });
 
-  program.parse(argv, { from: 'user' });
+  inheritGlobalOptions(program);
+  await program.parseAsync(argv, { from: 'user' });
+}
+
+type GlobalOptions = {
+  output?: OutputFormat;
+  profile?: string;
+  token?: string;
+  offline?: boolean;
+};
+
+/** Global options each leaf command repeats, by attribute name. */
+const inheritedOptions = new WeakMap<Command, string[]>();
+
+function createGlobalOptions(): Option[] {
+  return [
+    new Option(
+      '-o, --output <format>',
+      'Output format for command results: text, json, yaml, ndjson or table (default: text)',
+    ).argParser(parseOutputFormat),
+    new Option(
+      '-p, --profile <name>',
+      'Profile to use for this command (overrides TMATES_PROFILE)',
+    ),
+    new Option(
+      '--token <token>',
+      'Access token to use instead of the stored session (overrides TMATES_TOKEN)',
+    ),
+    new Option('--offline', 'Browse cached data only, without contacting the API (read-only)'),
+  ];
+}
+
+/**
+ * Let leaf commands take the global options after their own name too (`tmates agents list -o json`),
+ * except where they define the same flag themselves (`files download -o <dest>`).
+ */
+function inheritGlobalOptions(command: Command): void {
+  for (const subcommand of command.commands) {
+    if (subcommand.commands.length) {
+      inheritGlobalOptions(subcommand);
+      continue;
+    }
+    const added = createGlobalOptions().filter(
+      (option) =>
+        !subcommand.options.some(
+          (own) => own.long === option.long || (option.short && own.short === option.short),
+        ),
+    );
+    added.forEach((option) => subcommand.addOption(option));
+    inheritedOptions.set(
+      subcommand,
+      added.map((option) => option.attributeName()),
+    );
+  }
+}
+
+function readGlobalOptions(program: Command, actionCommand: Command): GlobalOptions {
+  const options: Record<string, unknown> = { ...program.opts() };
+  for (const name of inheritedOptions.get(actionCommand) ?? []) {
+    const value: unknown = actionCommand.getOptionValue(name);
+    if (value !== undefined) {
+      options[name] = value;
+    }
+  }
+  return options as GlobalOptions;
+}
+
+function renderUserProfile(profile: UserProfile): string {
+  const rows: [string, string][] = [
+    ['Name', profile.display_name ? brandSecondaryBold(profile.display_name) : chalk.gray('—')],
+    ['Email', profile.email ?? chalk.gray('—')],
+    ['Role', profile.role ?? chalk.gray('—')],
+    ['User ID', profile.id],
+    ['Avatar', profile.avatar_url ?? chalk.gray('—')],
+  ];
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value}\n`).join('');
+}
+
+type LoginOptions = {
+  email?: string;
+  otp?: string;
+  refreshToken?: string;
+  web?: boolean;
+  provider?: string;
+  sso?: string;
+  port?: number;
+  browser?: boolean;
+  cache?: boolean;
+};
+
+function parsePort(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+    throw new InvalidArgumentError(`Expected a port between 1 and 65535, received "${value}".`);
+  }
+  return parsed;
+}
+
+function writeLoginResult(session: Session, email: string): void {
+  writeRecord(
+    { email: session.user?.email ?? email, userId: session.user?.id ?? null },
+    { text: (record) => `Authenticated as ${brandSecondaryBold(record.email)}\n` },
+  );
+}
+
+/**
+ * Browser login through a loopback callback. Without a usable browser the URL is printed instead,
+ * and the address the remote browser lands on can be pasted back.
+ */
+async function loginInBrowser(options: LoginOptions): Promise<Session> {
+  const method: WebLoginMethod = options.provider
+    ? { type: 'oauth', provider: options.provider.trim().toLowerCase() as Provider }
+    : options.sso
+      ? { type: 'sso', domain: options.sso.trim() }
+      : { type: 'magic-link', email: await promptForEmail(options.email) };
+
+  const startingSpinner = startSpinner(
+    method.type === 'magic-link' ? 'Sending sign-in link...' : 'Preparing browser sign-in...',
+  );
+  let login: WebLogin;
+  try {
+    login = await startWebLogin(method, options.port);
+  } catch (error) {
+    startingSpinner.fail('Failed to start browser sign-in.');
+    throw error;
+  }
+
+  const openBrowser = Boolean(login.url) && options.browser !== false && canOpenExternal();
+  if (method.type === 'magic-link') {
+    startingSpinner.succeed(`Sign-in link sent to ${method.email}. Check your email.`);
+  } else {
+    startingSpinner.stop();
+  }
+  if (login.url && openBrowser) {
+    openExternal(login.url);
+    process.stderr.write(
+      `Opened your browser to sign in. If nothing happened, visit:\n${login.url}\n`,
+    );
+  } else if (login.url) {
+    process.stderr.write(`Open this URL in a browser to sign in:\n\n  ${login.url}\n\n`);
+  }
+
+  try {
+    if (openBrowser || !process.stdin.isTTY) {
+      const waitingSpinner = startSpinner('Waiting for the browser sign-in...');
+      try {
+        const session = await login.session;
+        waitingSpinner.succeed('Login successful.');
+        return session;
+      } catch (error) {
+        waitingSpinner.fail('Browser sign-in failed.');
+        throw error;
+      }
+    }
+    process.stderr.write(
+      `Waiting for the sign-in. If the browser runs on another machine, paste the address it ends up on.\n`,
+    );
+    return await waitForPastedCallback(login);
+  } finally {
+    login.close();
+  }
+}
+
+async function waitForPastedCallback(login: WebLogin): Promise<Session> {
+  const controller = new AbortController();
+  const settled = login.session.finally(() => controller.abort());
+  settled.catch(() => undefined);
+  const pasting = (async () => {
+    for (;;) {
+      const pasted = await promptForCallbackUrl(controller.signal);
+      if (pasted === null) {
+        return;
+      }
+      if (!pasted) {
+        continue;
+      }
+      try {
+        await login.complete(pasted);
+        return;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        process.stderr.write(
+          `${chalk.red(error instanceof Error ? error.message : String(error))}\n`,
+        );
+      }
+    }
+  })();
+
+  try {
+    const session = await login.session;
+    process.stderr.write(`${chalk.green('✔')} Login successful.\n`);
+    return session;
+  } finally {
+    controller.abort();
+    await pasting;
+  }
+}
+
+type CredentialStoreSummary = {
+  name: string | null;
+  label: string | null;
+  source: string | null;
+  location: string | null;
+  error?: string;
+};
+
+async function describeCredentialStore(profile: string): Promise<CredentialStoreSummary> {
+  try {
+    const { store, source } = await resolveCredentialStore();
+    return {
+      name: store.name,
+      label: store.label,
+      source,
+      location: store.describeLocation(profile),
+    };
+  } catch (error) {
+    return {
+      name: null,
+      label: null,
+      source: null,
+      location: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function formatCredentialStore(summary: CredentialStoreSummary, cacheDisabled: boolean): string {
+  if (summary.error) {
+    return chalk.red(summary.error);
+  }
+  const source =
+    summary.source === 'env'
+      ? 'TMATES_CREDENTIAL_STORE'
+      : summary.source === 'settings'
+        ? 'auth migrate-storage'
+        : summary.source === 'fallback'
+          ? 'no keyring, terminal or TMATES_CLI_KEY'
+          : 'detected';
+  const name = summary.label ? summary.label.charAt(0).toUpperCase() + summary.label.slice(1) : '';
+  const label = summary.name === 'plaintext' ? chalk.yellow(name) : name;
+  const note = cacheDisabled ? ', unused: TMATES_CLI_DISABLE_SESSION_CACHE=1' : '';
+  return `${label} ${chalk.gray(`(${source}${note})`)}`;
 }
@@ -0,0 +1,164 @@
+import chalk from 'chalk';
+
+import { downloadFromUrl, uploadFiles } from '../api/files';
+import type { ChatMessage, ChatMessageAttachment } from '../api/messages';
+import { prepareUploads } from './file-transfer';
+import { describeAttachment } from './format';
+import { renderMarkdown } from './markdown';
+import { detectMimeType } from './media';
+import { highlightCode } from './syntax-highlight';
+import { detectGraphicsProtocol, encodeInlineImage } from './terminal-graphics';
+
+export type ThreadAttachment = {
+  message: ChatMessage;
+  attachment: ChatMessageAttachment;
+};
+
+const PREVIEW_MAX_BYTES = 256 * 1024;
+const PREVIEW_MAX_LINES = 40;
+const IMAGE_MAX_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Upload local files to the user's file space and describe them as chat message attachments,
+ * including MIME type, size and (for images) pixel dimensions.
+ */
+export async function uploadAttachments(paths: string[]): Promise<ChatMessageAttachment[]> {
+  const uploads = await prepareUploads(paths);
+  const result = await uploadFiles(uploads);
+  return uploads.map((upload, index) => {
+    const entry =
+      result.files?.find((file) => file.name === upload.name) ?? result.files?.[index] ?? null;
+    if (!entry) {
+      throw new Error(`The server did not return an upload for ${upload.name}.`);
+    }
+    return {
+      uri: entry.download_url || entry.relative_path,
+      type: upload.mimeType,
+      name: upload.name,
+      relative_path: entry.relative_path,
+      download_url: entry.download_url,
+      size_bytes: upload.size,
+      width: upload.dimensions?.width ?? null,
+      height: upload.dimensions?.height ?? null,
+    };
+  });
+}
+
+export function collectThreadAttachments(messages: ChatMessage[]): ThreadAttachment[] {
+  return messages.flatMap((message) =>
+    (message.attachments ?? []).map((attachment) => ({ message, attachment })),
+  );
+}
+
+export function getAttachmentName(attachment: ChatMessageAttachment): string {
+  const source = attachment.name || attachment.relative_path || attachment.uri;
+  return source.split(/[\\/]/).pop()?.split('?')[0] || 'attachment';
+}
+
+/**
+ * MIME type of an attachment. Older messages store a kind such as `image` instead, so fall back to
+ * the file extension when `type` is not a full MIME type.
+ */
+export function getAttachmentMimeType(attachment: ChatMessageAttachment): string {
+  if (attachment.type?.includes('/')) {
+    return attachment.type.toLowerCase();
+  }
+  const detected = detectMimeType(getAttachmentName(attachment));
+  if (detected === 'application/octet-stream' && attachment.type === 'image') {
+    return 'image/*';
+  }
+  return detected;
+}
+
+export async function downloadAttachment(
+  attachment: ChatMessageAttachment,
+  options: { signal?: AbortSignal } = {},
+): Promise<Response> {
+  const url = attachment.download_url || attachment.uri;
+  if (!url || !/^(https?:\/\/|\/)/i.test(url)) {
+    throw new Error(`${getAttachmentName(attachment)} has no download link.`);
+  }
+  return downloadFromUrl(url, options);
+}
+
+export function isPreviewableText(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    ['application/json', 'application/yaml', 'application/xml'].includes(mimeType)
+  );
+}
+
+/**
+ * Render an attachment for the terminal: text, Markdown and JSON inline (pretty-printed and capped
+ * at {@link PREVIEW_MAX_LINES}), images through kitty/iTerm2 graphics, and a summary otherwise.
+ */
+export async function renderAttachmentPreview(
+  attachment: ChatMessageAttachment,
+  columns = process.stdout.columns || 80,
+): Promise<string> {
+  const mimeType = getAttachmentMimeType(attachment);
+  const heading = `${chalk.bold(describeAttachment(attachment))}\n`;
+
+  if (isPreviewableText(mimeType)) {
+    const { data, truncated } = await readAttachment(attachment, PREVIEW_MAX_BYTES);
+    let text = data.toString('utf-8');
+    if (mimeType === 'application/json' && !truncated) {
+      try {
+        text = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Show malformed JSON as-is.
+      }
+    }
+    if (mimeType === 'text/markdown') {
+      text = renderMarkdown(text, { width: Math.min(columns, 100) });
+    } else if (mimeType === 'application/json' || mimeType === 'application/yaml') {
+      text = highlightCode(text, mimeType.slice('application/'.length));
+    }
+    const lines = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+    let content = heading + lines.slice(0, PREVIEW_MAX_LINES).join('\n') + '\n';
+    if (lines.length > PREVIEW_MAX_LINES || truncated) {
+      content += chalk.gray('… preview truncated. Use /save to download the whole file.\n');
+    }
+    return content;
+  }
+
+  if (mimeType.startsWith('image/')) {
+    const protocol = detectGraphicsProtocol();
+    if (protocol) {
+      const { data, truncated } = await readAttachment(attachment, IMAGE_MAX_BYTES);
+      const width = Math.max(10, Math.min(columns - 4, 80));
+      const image = truncated ? null : encodeInlineImage(data, mimeType, protocol, width);
+      if (image) {
+        return `${heading}${image}\n`;
+      }
+    }
+    return `${heading}${chalk.gray('This terminal cannot display images inline. Use /save to download it.')}\n`;
+  }
+
+  return `${heading}${chalk.gray('No preview available. Use /save to download it.')}\n`;
+}
+
+async function readAttachment(
+  attachment: ChatMessageAttachment,
+  maxBytes: number,
+): Promise<{ data: Buffer; truncated: boolean }> {
+  const response = await downloadAttachment(attachment);
+  if (!response.body) {
+    return { data: Buffer.alloc(0), truncated: false };
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return { data: Buffer.concat(chunks), truncated: false };
+    }
+    chunks.push(Buffer.from(value));
+    size += value.length;
+    if (size >= maxBytes) {
+      await reader.cancel();
+      return { data: Buffer.concat(chunks).subarray(0, maxBytes), truncated: true };
+    }
+  }
+}
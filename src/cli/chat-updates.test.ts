@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { fetchChatThread } from '../api/messages';
+import type { ChatMessage, ChatThread } from '../api/messages';
+import { createFallbackTransport, createPollingTransport, getMessageKey } from './chat-updates';
+import type { ChatUpdateTransport } from './chat-updates';
+
+vi.mock('../api/messages', () => ({ fetchChatThread: vi.fn() }));
+
+function message(overrides: Partial<ChatMessage>): ChatMessage {
+  return {
+    id: '',
+    role: 'assistant',
+    content: 'Hello',
+    created_at: '2026-10-01T10:00:00Z',
+    payload: {},
+    attachments: [],
+    ...overrides,
+  };
+}
+
+function thread(messages: ChatMessage[]): ChatThread {
+  return { id: 't1', title: 'Thread', kind: 'direct', agent_keys: [], unread_count: 0, messages };
+}
+
+describe('getMessageKey', () => {
+  it('uses the id when there is one', () => {
+    expect(getMessageKey(message({ id: 'm1' }))).toBe('m1');
+  });
+
+  it('does not depend on where a message without an id appears', () => {
+    const first = message({ content: 'Done' });
+    expect(getMessageKey(first)).toBe(getMessageKey({ ...first }));
+    expect(getMessageKey(first)).not.toBe(getMessageKey(message({ content: 'Done!' })));
+  });
+});
+
+describe('createFallbackTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(fetchChatThread).mockReset();
+  });
+
+  it('does not report messages again after falling back to polling', async () => {
+    const streamed = message({ content: 'From the stream' });
+    const later = message({ id: 'm3', content: 'Later' });
+    const failing: ChatUpdateTransport = {
+      name: 'sse',
+      subscribe(_threadId, _known, handlers) {
+        const timer = setTimeout(() => {
+          handlers.onMessages([streamed]);
+          handlers.onError?.(new Error('stream closed'));
+        }, 0);
+        return { close: () => clearTimeout(timer) };
+      },
+    };
+    // A message the stream did not carry comes first, so positions differ from the stream's.
+    const sent = message({ id: 'm1', role: 'user', content: 'Sent elsewhere' });
+    vi.mocked(fetchChatThread).mockResolvedValue(
+      thread([message({ id: 'm0', content: 'Earlier' }), sent, streamed, later]),
+    );
+    const onMessages = vi.fn();
+
+    const subscription = createFallbackTransport(
+      failing,
+      createPollingTransport({ minDelayMs: 10, maxDelayMs: 10 }),
+    ).subscribe('t1', [message({ id: 'm0', content: 'Earlier' })], { onMessages });
+    await vi.advanceTimersByTimeAsync(50);
+    subscription.close();
+
+    expect(onMessages.mock.calls).toEqual([[[streamed]], [[sent, later]]]);
+  });
+});
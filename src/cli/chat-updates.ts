@@ -0,0 +1,337 @@
+import { apiStream } from '../api/http-client';
+import { fetchChatThread } from '../api/messages';
+import type { ChatMessage } from '../api/messages';
+import { debugLog } from './debug';
+import { describeError } from './format';
+
+export type ChatTransportKind = 'auto' | 'sse' | 'poll';
+
+export type ChatUpdateHandlers = {
+  /** Called with messages the subscription has not reported (or been seeded with) before. */
+  onMessages: (messages: ChatMessage[]) => void;
+  onError?: (error: unknown) => void;
+};
+
+export type ChatUpdateSubscription = {
+  close: () => void;
+};
+
+/**
+ * A source of new messages for a single thread. Implementations deliver each message at most once
+ * and never report messages that were already present when the subscription started.
+ */
+export type ChatUpdateTransport = {
+  name: string;
+  subscribe: (
+    threadId: string,
+    knownMessages: ChatMessage[],
+    handlers: ChatUpdateHandlers,
+  ) => ChatUpdateSubscription;
+};
+
+export type PollingOptions = {
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+};
+
+const DEFAULT_POLLING: Required<PollingOptions> = {
+  minDelayMs: 1000,
+  maxDelayMs: 15000,
+  backoffFactor: 1.6,
+};
+
+export function resolveChatTransportKind(): ChatTransportKind {
+  const raw = process.env.TMATES_CHAT_TRANSPORT?.trim().toLowerCase();
+  if (raw === 'sse' || raw === 'poll') {
+    return raw;
+  }
+  return 'auto';
+}
+
+export function createChatUpdateTransport(
+  kind: ChatTransportKind = resolveChatTransportKind(),
+): ChatUpdateTransport {
+  switch (kind) {
+    case 'sse':
+      return createSseTransport();
+    case 'poll':
+      return createPollingTransport();
+    case 'auto':
+      return createFallbackTransport(createSseTransport(), createPollingTransport());
+  }
+}
+
+/**
+ * Refetch the thread on an adaptive schedule: the delay resets to `minDelayMs` whenever something
+ * new shows up and grows by `backoffFactor` (up to `maxDelayMs`) while the thread is quiet.
+ */
+export function createPollingTransport(options: PollingOptions = {}): ChatUpdateTransport {
+  const { minDelayMs, maxDelayMs, backoffFactor } = { ...DEFAULT_POLLING, ...options };
+
+  return {
+    name: 'poll',
+    subscribe(threadId, knownMessages, handlers) {
+      const seen = new Set(knownMessages.map(getMessageKey));
+      let closed = false;
+      let timer: NodeJS.Timeout | null = null;
+      let delay = minDelayMs;
+
+      const tick = async (): Promise<void> => {
+        timer = null;
+        try {
+          const thread = await fetchChatThread(threadId);
+          if (closed) {
+            return;
+          }
+          const fresh = thread.messages.filter((message) => {
+            const key = getMessageKey(message);
+            if (seen.has(key)) {
+              return false;
+            }
+            seen.add(key);
+            return true;
+          });
+          if (fresh.length) {
+            delay = minDelayMs;
+            handlers.onMessages(fresh);
+          } else {
+            delay = Math.min(delay * backoffFactor, maxDelayMs);
+          }
+        } catch (error) {
+          debugLog(`Polling ${threadId} failed: ${describeError(error)}`);
+          handlers.onError?.(error);
+          delay = Math.min(delay * backoffFactor, maxDelayMs);
+        }
+        schedule();
+      };
+
+      const schedule = (): void => {
+        if (closed) {
+          return;
+        }
+        timer = setTimeout(() => void tick(), withJitter(delay));
+      };
+
+      schedule();
+
+      return {
+        close() {
+          closed = true;
+          if (timer) {
+            clearTimeout(timer);
+            timer = null;
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Subscribe to `GET /chats/{id}/events`, a server-sent event stream whose `data` lines carry either
+ * a single chat message or `{ "messages": [...] }`.
+ */
+export function createSseTransport(): ChatUpdateTransport {
+  return {
+    name: 'sse',
+    subscribe(threadId, knownMessages, handlers) {
+      const seen = new Set(knownMessages.map(getMessageKey));
+      const controller = new AbortController();
+
+      const run = async (): Promise<void> => {
+        const response = await apiStream(`/chats/${encodeURIComponent(threadId)}/events`, {
+          headers: { Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        const contentType = response.headers.get('content-type') ?? '';
+        if (!contentType.includes('text/event-stream') || !response.body) {
+          throw new Error(`Expected an event stream but received "${contentType || 'no body'}".`);
+        }
+
+        await readEventStream(response.body, (data) => {
+          const fresh = parseStreamedMessages(data).filter((message) => {
+            const key = getMessageKey(message);
+            if (seen.has(key)) {
+              return false;
+            }
+            seen.add(key);
+            return true;
+          });
+          if (fresh.length) {
+            handlers.onMessages(fresh);
+          }
+        });
+
+        if (!controller.signal.aborted) {
+          throw new Error('The event stream closed unexpectedly.');
+        }
+      };
+
+      run().catch((error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        debugLog(`Event stream for ${threadId} failed: ${describeError(error)}`);
+        handlers.onError?.(error);
+      });
+
+      return {
+        close() {
+          controller.abort();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Use `primary` until it reports an error, then switch to `fallback` for the rest of the
+ * subscription. Messages already delivered by the primary are not reported again.
+ */
+export function createFallbackTransport(
+  primary: ChatUpdateTransport,
+  fallback: ChatUpdateTransport,
+): ChatUpdateTransport {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    subscribe(threadId, knownMessages, handlers) {
+      const delivered = [...knownMessages];
+      let closed = false;
+      let active: ChatUpdateSubscription;
+
+      const onMessages = (messages: ChatMessage[]): void => {
+        delivered.push(...messages);
+        handlers.onMessages(messages);
+      };
+
+      active = primary.subscribe(threadId, knownMessages, {
+        onMessages,
+        onError: (error) => {
+          if (closed) {
+            return;
+          }
+          debugLog(`Falling back to ${fallback.name} updates: ${describeError(error)}`);
+          active.close();
+          active = fallback.subscribe(threadId, delivered, {
+            onMessages,
+            onError: handlers.onError,
+          });
+        },
+      });
+
+      return {
+        close() {
+          closed = true;
+          active.close();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Wait until a message from someone other than the user arrives after `knownMessages`, or until the
+ * timeout elapses. Resolves with every new message seen in the meantime (possibly none).
+ */
+export async function waitForAgentReplies(
+  threadId: string,
+  knownMessages: ChatMessage[],
+  timeoutMs: number,
+  transport: ChatUpdateTransport = createChatUpdateTransport(),
+): Promise<ChatMessage[]> {
+  const received: ChatMessage[] = [];
+  return new Promise<ChatMessage[]>((resolve) => {
+    let subscription: ChatUpdateSubscription | null = null;
+    const finish = (): void => {
+      clearTimeout(timer);
+      subscription?.close();
+      resolve(received);
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    subscription = transport.subscribe(threadId, knownMessages, {
+      onMessages: (messages) => {
+        received.push(...messages);
+        if (messages.some((message) => message.role !== 'user')) {
+          finish();
+        }
+      },
+    });
+  });
+}
+
+/**
+ * Identifies a message across transports. Messages without an id fall back to what they carry, not
+ * to their position, which differs between a refetched thread and a stream.
+ */
+export function getMessageKey(message: ChatMessage): string {
+  if (message.id) {
+    return message.id;
+  }
+  return `${message.created_at ?? 'unknown'}:${message.role}:${message.content}`;
+}
+
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = (): void => {
+    if (dataLines.length) {
+      onData(dataLines.join('\n'));
+      dataLines = [];
+    }
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      dispatch();
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.search(/\r?\n/);
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+      if (!line) {
+        dispatch();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      newline = buffer.search(/\r?\n/);
+    }
+  }
+}
+
+function parseStreamedMessages(data: string): ChatMessage[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    debugLog(`Ignoring non-JSON event payload: ${data.slice(0, 80)}`);
+    return [];
+  }
+  if (parsed && typeof parsed === 'object' && 'messages' in parsed) {
+    const { messages } = parsed as { messages: unknown };
+    return Array.isArray(messages) ? (messages as ChatMessage[]).filter(isChatMessage) : [];
+  }
+  return isChatMessage(parsed) ? [parsed] : [];
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+  return Boolean(
+    value &&
+      typeof value === 'object' &&
+      typeof (value as ChatMessage).content === 'string' &&
+      typeof (value as ChatMessage).role === 'string',
+  );
+}
+
+function withJitter(delayMs: number): number {
+  return Math.round(delayMs * (0.85 + Math.random() * 0.3));
+}
@@ -0,0 +1,252 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import { readFile, writeFile } from 'fs/promises';
+
+import { fetchAgentsMetadata, manageAgent } from '../../api/teammates';
+import type { AgentMetadata, AgentsMetadataResponse } from '../../api/teammates';
+import {
+  AGENT_ACCESS_STATES,
+  describeAgentAccess,
+  getAccessLabel,
+  getAgentAccess,
+  groupAgentsByAccess,
+  parseAgentAccessState,
+} from '../agent-access';
+import type { AgentAccessState, AgentFilter } from '../agent-access';
+import { pathExists, resolveLocalPath } from '../file-transfer';
+import { describeError, formatAgentDetail } from '../format';
+import { startSpinner, writeList, writeRecord, writeText } from '../output';
+import type { OutputColumn } from '../output';
+import {
+  buildTeamManifest,
+  detectManifestFormat,
+  parseManifestFormat,
+  parseTeamManifest,
+  planTeamChanges,
+  serializeTeamManifest,
+} from '../team-manifest';
+import type { ManifestFormat, TeamPlan } from '../team-manifest';
+import { brandPrimary, brandPrimaryBold } from '../theme';
+import { readStdin, requireSession } from './shared';
+
+type AgentRow = AgentMetadata & {
+  access: AgentAccessState;
+  access_reason: string | null;
+};
+
+const agentColumns: OutputColumn<AgentRow>[] = [
+  { header: 'Key', value: (agent) => agent.key },
+  { header: 'Name', value: (agent) => agent.name },
+  { header: 'Access', value: (agent) => agent.access },
+  { header: 'Enabled', value: (agent) => Boolean(agent.hired) },
+  { header: 'Category', value: (agent) => agent.category },
+  { header: 'Role', value: (agent) => agent.role },
+  { header: 'Reason', value: (agent) => agent.access_reason },
+];
+
+export function registerAgentCommands(program: Command): void {
+  const agents = requireSession(
+    program.command('agents').description('Browse and manage your AI teammates'),
+  );
+
+  agents
+    .command('list')
+    .alias('ls')
+    .description('List agents grouped by access: available, not enabled, not installed')
+    .option('-c, --category <category>', 'Only agents in this category')
+    .option('-r, --role <role>', 'Only agents with this role')
+    .option(
+      '-a, --access <state>',
+      `Only agents in this access state (${AGENT_ACCESS_STATES.join(', ')})`,
+      parseAgentAccessState,
+    )
+    .action(async (options: AgentFilter) => {
+      const response = await fetchAgentsMetadata();
+      const rows = groupAgentsByAccess(response, options).flatMap((group) =>
+        group.agents.map(
+          (agent): AgentRow => ({
+            ...agent,
+            access: group.state,
+            access_reason: describeAgentAccess(agent, group.state),
+          }),
+        ),
+      );
+      writeList(rows, { columns: agentColumns, text: renderAgentList });
+    });
+
+  agents
+    .command('show')
+    .description('Show an agent with its capabilities, tools, docs and links')
+    .argument('<key>', 'Agent key, e.g. adam')
+    .action(async (key: string) => {
+      const response = await fetchAgentsMetadata();
+      const agent = findAgent(Object.values(response.agents_metadata ?? {}), key);
+      const access = getAgentAccess(agent, response);
+      writeRecord(
+        { ...agent, access, access_reason: describeAgentAccess(agent, access) },
+        { text: (record) => formatAgentDetail(record, access) },
+      );
+    });
+
+  agents
+    .command('apply')
+    .description('Hire and dismiss agents so the hired set matches a team manifest')
+    .requiredOption('-f, --file <path>', 'Team manifest (JSON or YAML), or "-" to read stdin')
+    .option('--dry-run', 'Print the plan without changing anything')
+    .action(async (options: { file: string; dryRun?: boolean }) => {
+      const fromStdin = options.file === '-';
+      const source = fromStdin
+        ? await readStdin()
+        : await readFile(resolveLocalPath(options.file), 'utf-8');
+      const manifest = parseTeamManifest(source, fromStdin ? 'stdin' : options.file);
+      const response = await fetchAgentsMetadata();
+      const plan = planTeamChanges(manifest, response);
+      const changes = [
+        ...plan.add.map((key) => ({ key, action: 'add' as const })),
+        ...plan.remove.map((key) => ({ key, action: 'remove' as const })),
+      ];
+
+      if (options.dryRun || !changes.length) {
+        writeRecord(
+          { dry_run: Boolean(options.dryRun), ...plan, results: [] as ApplyResult[] },
+          {
+            text: () =>
+              `${renderPlan(plan, response)}${
+                changes.length ? chalk.gray('Dry run: no changes made.\n') : 'Nothing to do.\n'
+              }`,
+          },
+        );
+        return;
+      }
+
+      writeText(`${renderPlan(plan, response)}\n`);
+      const results: ApplyResult[] = [];
+      for (const change of changes) {
+        const verb = change.action === 'add' ? 'Hiring' : 'Dismissing';
+        const spinner = startSpinner(`${verb} ${change.key}...`);
+        try {
+          const result = await manageAgent(change.key, change.action);
+          if (!result.success) {
+            throw new Error(result.message || 'Request failed');
+          }
+          spinner.succeed(`${change.action === 'add' ? 'Hired' : 'Dismissed'} ${change.key}`);
+          results.push({ ...change, success: true, message: result.message || null });
+        } catch (error) {
+          const message = describeError(error);
+          spinner.fail(
+            `Could not ${change.action === 'add' ? 'hire' : 'dismiss'} ${change.key}: ${message}`,
+          );
+          results.push({ ...change, success: false, message });
+        }
+      }
+
+      const failed = results.filter((result) => !result.success).length;
+      if (failed) {
+        process.exitCode = 1;
+      }
+      writeRecord(
+        { dry_run: false, ...plan, results },
+        {
+          text: () =>
+            failed
+              ? chalk.red(`\n${failed} of ${results.length} changes failed.\n`)
+              : `\n${brandPrimary('✓')} Applied ${results.length} ${results.length === 1 ? 'change' : 'changes'}.\n`,
+        },
+      );
+    });
+
+  agents
+    .command('export')
+    .description('Write the hired agents as a team manifest for `agents apply`')
+    .option('-f, --file <path>', 'Write to this file instead of stdout')
+    .option(
+      '--format <format>',
+      'json or yaml (default: from the file extension, else yaml)',
+      parseManifestFormat,
+    )
+    .option('--force', 'Overwrite an existing file')
+    .action(async (options: { file?: string; format?: ManifestFormat; force?: boolean }) => {
+      const response = await fetchAgentsMetadata();
+      const manifest = buildTeamManifest(response);
+      const format = options.format ?? detectManifestFormat(options.file);
+      const content = serializeTeamManifest(manifest, format);
+      if (!options.file) {
+        process.stdout.write(content);
+        return;
+      }
+      const destination = resolveLocalPath(options.file);
+      if (!options.force && (await pathExists(destination))) {
+        throw new Error(`${destination} already exists. Use --force to overwrite it.`);
+      }
+      await writeFile(destination, content, 'utf-8');
+      writeRecord(
+        { file: destination, format, agents: manifest.agents },
+        {
+          text: (record) =>
+            `Wrote ${record.agents.length} ${record.agents.length === 1 ? 'agent' : 'agents'} to ${record.file}.\n`,
+        },
+      );
+    });
+}
+
+function renderPlan(plan: TeamPlan, response: AgentsMetadataResponse): string {
+  const label = (key: string): string => {
+    const name = response.agents_metadata?.[key]?.name;
+    return name && name !== key ? `${key} ${chalk.gray(`(${name})`)}` : key;
+  };
+  let content = `Plan: ${plan.add.length} to hire, ${plan.remove.length} to dismiss, ${plan.unchanged.length} unchanged.\n`;
+  plan.add.forEach((key) => {
+    content += `  ${chalk.green('+')} ${label(key)}\n`;
+  });
+  plan.remove.forEach((key) => {
+    content += `  ${chalk.red('-')} ${label(key)}\n`;
+  });
+  plan.unchanged.forEach((key) => {
+    content += `  ${chalk.gray(`= ${key}`)}\n`;
+  });
+  return content;
+}
+
+type ApplyResult = {
+  key: string;
+  action: 'add' | 'remove';
+  success: boolean;
+  message: string | null;
+};
+
+function findAgent(agents: AgentMetadata[], key: string): AgentMetadata {
+  const normalized = key.trim().toLowerCase();
+  const agent = agents.find((entry) => entry.key.toLowerCase() === normalized);
+  if (!agent) {
+    throw new Error(`Unknown agent "${key}". Run \`tmates agents list\` to see available agents.`);
+  }
+  return agent;
+}
+
+function renderAgentList(rows: AgentRow[]): string {
+  if (!rows.length) {
+    return `${chalk.gray('No teammates match.')}\n`;
+  }
+  let content = '';
+  AGENT_ACCESS_STATES.forEach((state) => {
+    const group = rows.filter((row) => row.access === state);
+    if (!group.length) {
+      return;
+    }
+    content += `${content ? '\n' : ''}${brandPrimaryBold(`${getAccessLabel(state)} (${group.length})`)}\n`;
+    group.forEach((agent) => {
+      const status = agent.hired ? brandPrimary('Enabled') : chalk.gray('Disabled');
+      const tags = [agent.category, agent.role].filter(Boolean).join(', ');
+      content += `${chalk.bold(agent.name || agent.key)} ${chalk.gray(`(${agent.key})`)} ${status}${
+        tags ? chalk.gray(` [${tags}]`) : ''
+      }\n`;
+      if (agent.description) {
+        content += `   ${chalk.gray(agent.description)}\n`;
+      }
+      if (agent.access_reason) {
+        content += `   ${chalk.yellow(agent.access_reason)}\n`;
+      }
+    });
+  });
+  return content;
+}
@@ -0,0 +1,168 @@
+import { InvalidArgumentError } from 'commander';
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { getFreshAccessToken, readAccessTokenClaims } from '../../auth/supabase-auth';
+import {
+  CREDENTIAL_STORE_NAMES,
+  detectCredentialStore,
+  getCredentialStore,
+  isCredentialStoreName,
+  resetCredentialStore,
+} from '../../storage/credential-store';
+import type { CredentialStore, CredentialStoreName } from '../../storage/credential-store';
+import { readStoredSession, writeStoredSession } from '../../storage/session-store';
+import type { StoredSession } from '../../storage/session-store';
+import { listProfileNames, loadSettings, saveSettings } from '../../storage/settings-store';
+import { writeList, writeRecord, writeText } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimary } from '../theme';
+import { requireSession } from './shared';
+
+type MigrationRow = {
+  profile: string;
+  from: CredentialStoreName[];
+  to: CredentialStoreName;
+  status: 'moved' | 'unchanged' | 'none';
+};
+
+const migrationColumns: OutputColumn<MigrationRow>[] = [
+  { header: 'Profile', value: (row) => row.profile },
+  { header: 'From', value: (row) => row.from.join(', ') },
+  { header: 'To', value: (row) => row.to },
+  { header: 'Status', value: (row) => row.status },
+];
+
+export function registerAuthCommands(program: Command): void {
+  const auth = program
+    .command('auth')
+    .description('Print the access token and manage how session tokens are stored');
+
+  requireSession(
+    auth
+      .command('token')
+      .description('Print the current access token, refreshed first when it is about to expire'),
+  ).action(async () => {
+    const token = await getFreshAccessToken();
+    if (!token) {
+      throw new Error('You are not signed in. Run `tmates login` or pass --token.');
+    }
+    const expiresAt = readAccessTokenClaims(token)?.exp;
+    writeRecord(
+      {
+        accessToken: token,
+        expiresAt: expiresAt ? new Date(expiresAt * 1000).toISOString() : null,
+      },
+      { text: (record) => `${record.accessToken}\n` },
+    );
+  });
+
+  auth
+    .command('migrate-storage')
+    .description(
+      'Move the stored sessions of every profile to a credential store and use it from now on',
+    )
+    .option(
+      '--to <store>',
+      `${CREDENTIAL_STORE_NAMES.join(', ')} (default: the keyring when available, else an encrypted file)`,
+      parseCredentialStoreName,
+    )
+    .action(async (options: { to?: CredentialStoreName }) => {
+      const target = options.to ? getCredentialStore(options.to) : await detectCredentialStore();
+      if (!(await target.isAvailable())) {
+        throw new Error(
+          `The ${target.label} is not available on this system. Install libsecret's \`secret-tool\` or pick another store.`,
+        );
+      }
+      if (target.name === 'plaintext') {
+        writeText(
+          `${chalk.yellow('Warning:')} session tokens will be stored unencrypted on disk.\n`,
+        );
+      }
+
+      const settings = await loadSettings();
+      const rows: MigrationRow[] = [];
+      for (const profile of listProfileNames(settings)) {
+        rows.push(await migrateProfile(profile, target));
+      }
+      await saveSettings({ ...settings, credentialStore: target.name });
+      resetCredentialStore();
+
+      const override = process.env.TMATES_CREDENTIAL_STORE?.trim();
+      if (override && override !== target.name) {
+        writeText(
+          `${chalk.yellow('Note:')} TMATES_CREDENTIAL_STORE=${override} still overrides this choice.\n`,
+        );
+      }
+      writeList(rows, {
+        columns: migrationColumns,
+        text: (items) => renderMigration(items, target),
+      });
+    });
+}
+
+export function parseCredentialStoreName(value: string): CredentialStoreName {
+  const normalized = value.trim().toLowerCase();
+  if (!isCredentialStoreName(normalized)) {
+    throw new InvalidArgumentError(`Expected one of ${CREDENTIAL_STORE_NAMES.join(', ')}.`);
+  }
+  return normalized;
+}
+
+/**
+ * Copy the newest session found in any store into `target`, then remove the other copies.
+ */
+async function migrateProfile(profile: string, target: CredentialStore): Promise<MigrationRow> {
+  const found: Array<{ store: CredentialStore; stored: StoredSession }> = [];
+  for (const name of CREDENTIAL_STORE_NAMES) {
+    const store = getCredentialStore(name);
+    if (!(await store.isAvailable()) || !(await store.has(profile))) {
+      continue;
+    }
+    const stored = await readStoredSession(store, profile);
+    if (stored) {
+      found.push({ store, stored });
+    }
+  }
+
+  const sources = found.filter((entry) => entry.store !== target);
+  const row: MigrationRow = {
+    profile,
+    from: sources.map((entry) => entry.store.name),
+    to: target.name,
+    status: 'none',
+  };
+  if (!found.length) {
+    return row;
+  }
+  if (!sources.length) {
+    return { ...row, status: 'unchanged' };
+  }
+
+  const newest = found.reduce((latest, entry) =>
+    Date.parse(entry.stored.savedAt) > Date.parse(latest.stored.savedAt) ? entry : latest,
+  );
+  if (newest.store !== target) {
+    await writeStoredSession(target, profile, newest.stored);
+  }
+  for (const entry of sources) {
+    await entry.store.remove(profile);
+  }
+  return { ...row, status: 'moved' };
+}
+
+function renderMigration(rows: MigrationRow[], target: CredentialStore): string {
+  const width = Math.max(...rows.map((row) => row.profile.length));
+  let content = '';
+  rows.forEach((row) => {
+    const detail =
+      row.status === 'moved'
+        ? `moved from ${row.from.join(', ')}`
+        : row.status === 'unchanged'
+          ? 'already stored there'
+          : chalk.gray('no stored session');
+    content += `${row.profile.padEnd(width)}  ${detail}\n`;
+  });
+  content += `\nSessions are now kept in the ${brandPrimary(target.label)}.\n`;
+  return content;
+}
@@ -0,0 +1,97 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { resolveAppConfig } from '../../config/app-config';
+import { clearCache, getCacheStats, listCachedProfiles } from '../../storage/cache-store';
+import type { CacheStats } from '../../storage/cache-store';
+import { formatAge, formatBytes } from '../format';
+import { writeList } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimary } from '../theme';
+
+type ClearedCache = {
+  profile: string;
+  entries: number;
+};
+
+const statsColumns: OutputColumn<CacheStats>[] = [
+  { header: 'Profile', value: (row) => row.profile },
+  { header: 'Entries', value: (row) => row.entries },
+  { header: 'Size', value: (row) => formatBytes(row.bytes) },
+  { header: 'Oldest', value: (row) => row.oldest },
+  { header: 'Newest', value: (row) => row.newest },
+];
+
+const clearedColumns: OutputColumn<ClearedCache>[] = [
+  { header: 'Profile', value: (row) => row.profile },
+  { header: 'Entries', value: (row) => row.entries },
+];
+
+export function registerCacheCommands(program: Command): void {
+  const cache = program
+    .command('cache')
+    .description('Inspect or clear the offline cache of threads, pinboard, agents and files');
+
+  cache
+    .command('stats')
+    .description('Show how much is cached, per profile')
+    .option('-a, --all', 'Include every profile, not only the active one')
+    .action(async (options: { all?: boolean }) => {
+      const profiles = await selectProfiles(options.all);
+      const stats = await Promise.all(profiles.map((profile) => getCacheStats(profile)));
+      writeList(stats, { columns: statsColumns, text: renderStats });
+    });
+
+  cache
+    .command('clear')
+    .description('Delete cached data; --offline has nothing to show until it is fetched again')
+    .option('-a, --all', 'Clear every profile, not only the active one')
+    .action(async (options: { all?: boolean }) => {
+      const profiles = await selectProfiles(options.all);
+      const cleared: ClearedCache[] = [];
+      for (const profile of profiles) {
+        cleared.push({ profile, entries: await clearCache(profile) });
+      }
+      writeList(cleared, {
+        columns: clearedColumns,
+        text: (rows) =>
+          rows
+            .map(
+              (row) =>
+                `${brandPrimary('✓')} Cleared ${row.entries} cached ${
+                  row.entries === 1 ? 'entry' : 'entries'
+                } of profile ${row.profile}.\n`,
+            )
+            .join('') || `${chalk.gray('Nothing is cached.')}\n`,
+      });
+    });
+}
+
+async function selectProfiles(all?: boolean): Promise<string[]> {
+  return all ? listCachedProfiles() : [(await resolveAppConfig()).profile];
+}
+
+function renderStats(rows: CacheStats[]): string {
+  if (!rows.length) {
+    return `${chalk.gray('Nothing is cached.')}\n`;
+  }
+  return rows
+    .map((row) => {
+      let content = `${chalk.bold(row.profile)}\n`;
+      if (!row.entries) {
+        return `${content}  ${chalk.gray('Nothing cached.')}\n`;
+      }
+      const resources = Object.entries(row.resources)
+        .map(([resource, count]) => `${resource} ${count}`)
+        .join(', ');
+      content += `  Entries:  ${row.entries} (${resources})\n`;
+      content += `  Size:     ${formatBytes(row.bytes)}\n`;
+      if (row.oldest && row.newest) {
+        content += `  Updated:  ${formatAge(new Date(row.newest))}, oldest ${formatAge(
+          new Date(row.oldest),
+        )}\n`;
+      }
+      return content;
+    })
+    .join('\n');
+}
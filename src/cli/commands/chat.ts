@@ -0,0 +1,177 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import {
+  createChatThread,
+  fetchChatThread,
+  fetchChatThreads,
+  sendChatMessage,
+} from '../../api/messages';
+import type { ChatMessage, ChatMessageAttachment, ChatThreadSummary } from '../../api/messages';
+import { fetchAgentsMetadata } from '../../api/teammates';
+import { assertAgentUsable } from '../agent-access';
+import { uploadAttachments } from '../attachments';
+import { waitForAgentReplies } from '../chat-updates';
+import { formatChatMessage, formatDateTime, truncate } from '../format';
+import { startSpinner, writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimaryBold } from '../theme';
+import { collect, parsePositiveInteger, readStdin, requireSession } from './shared';
+
+const threadColumns: OutputColumn<ChatThreadSummary>[] = [
+  { header: 'ID', value: (thread) => thread.id },
+  { header: 'Title', value: (thread) => thread.title || thread.agent_keys.join(', ') },
+  { header: 'Agents', value: (thread) => thread.agent_keys.join(', ') },
+  { header: 'Last activity', value: (thread) => thread.last_activity },
+  { header: 'Unread', value: (thread) => thread.unread_count },
+];
+
+const messageColumns: OutputColumn<ChatMessage>[] = [
+  { header: 'ID', value: (message) => message.id },
+  { header: 'Author', value: (message) => message.author || message.role },
+  { header: 'Created', value: (message) => message.created_at },
+  { header: 'Content', value: (message) => truncate(message.content.trim(), 120) },
+];
+
+export function registerChatCommands(program: Command): void {
+  const chat = requireSession(
+    program.command('chat').description('Work with conversations without the interactive UI'),
+  );
+
+  chat
+    .command('list')
+    .alias('ls')
+    .description('List your conversations')
+    .action(async () => {
+      const threads = await fetchChatThreads();
+      writeList(threads, { columns: threadColumns, text: renderThreadList });
+    });
+
+  chat
+    .command('show')
+    .description('Print the messages of a conversation')
+    .argument('<threadId>', 'Conversation identifier')
+    .option('-n, --last <count>', 'Only show the most recent messages', parsePositiveInteger)
+    .action(async (threadId: string, options: { last?: number }) => {
+      const thread = await fetchChatThread(threadId);
+      const messages = options.last ? thread.messages.slice(-options.last) : thread.messages;
+      writeRecord(
+        { ...thread, messages },
+        {
+          fields: [
+            { header: 'ID', value: (record) => record.id },
+            { header: 'Title', value: (record) => record.title },
+            { header: 'Agents', value: (record) => record.agent_keys.join(', ') },
+            { header: 'Messages', value: (record) => record.messages.length },
+          ],
+          text: (record) => {
+            let content = `${brandPrimaryBold(record.title || record.agent_keys.join(', '))}\n\n`;
+            if (!record.messages.length) {
+              return `${content}${chalk.gray('No messages yet.')}\n`;
+            }
+            record.messages.forEach((message) => {
+              content += formatChatMessage(message);
+            });
+            return content;
+          },
+        },
+      );
+    });
+
+  chat
+    .command('new')
+    .description('Start a conversation with an agent and print its thread id')
+    .argument('<agentKey>', 'Key of the agent to talk to')
+    .action(async (agentKey: string) => {
+      assertAgentUsable(await fetchAgentsMetadata(), agentKey);
+      const thread = await createChatThread(agentKey);
+      writeRecord(thread, { text: (record) => `${record.id}\n` });
+    });
+
+  chat
+    .command('send')
+    .description(
+      'Send a message to a conversation (reads stdin when the message is omitted or "-")',
+    )
+    .argument('<threadId>', 'Conversation identifier')
+    .argument('[message]', 'Message content')
+    .option('-a, --attach <file>', 'Upload a file and attach it (repeatable)', collect, [])
+    .option('-w, --wait', 'Wait for agent replies and print them')
+    .option('--timeout <seconds>', 'How long to wait for replies', parsePositiveInteger, 60)
+    .action(
+      async (
+        threadId: string,
+        message: string | undefined,
+        options: { attach: string[]; wait?: boolean; timeout: number },
+      ) => {
+        const content = (!message || message === '-' ? await readStdin() : message).trim();
+        if (!content && !options.attach.length) {
+          throw new Error('Message content is required.');
+        }
+
+        const known = options.wait ? (await fetchChatThread(threadId)).messages : [];
+
+        let attachments: ChatMessageAttachment[] | undefined;
+        if (options.attach.length) {
+          const uploadSpinner = startSpinner(
+            `Uploading ${options.attach.length === 1 ? 'attachment' : `${options.attach.length} attachments`}...`,
+          );
+          try {
+            attachments = await uploadAttachments(options.attach);
+            uploadSpinner.stop();
+          } catch (error) {
+            uploadSpinner.fail('Failed to upload attachments.');
+            throw error;
+          }
+        }
+
+        const sendingSpinner = startSpinner('Sending message...');
+        let sent: ChatMessage;
+        try {
+          sent = await sendChatMessage(threadId, { content, attachments });
+          sendingSpinner.succeed('Message sent.');
+        } catch (error) {
+          sendingSpinner.fail('Failed to send message.');
+          throw error;
+        }
+
+        if (!options.wait) {
+          writeRecord(sent, { text: (record) => `${record.id}\n` });
+          return;
+        }
+
+        const waitingSpinner = startSpinner('Waiting for replies...');
+        const replies = await waitForAgentReplies(
+          threadId,
+          [...known, sent],
+          options.timeout * 1000,
+        );
+        if (replies.some((reply) => reply.role !== 'user')) {
+          waitingSpinner.stop();
+        } else {
+          waitingSpinner.fail(`No replies within ${options.timeout}s.`);
+          process.exitCode = 2;
+        }
+        writeList(replies, {
+          columns: messageColumns,
+          text: (rows) => rows.map((reply) => formatChatMessage(reply)).join(''),
+        });
+      },
+    );
+}
+
+function renderThreadList(threads: ChatThreadSummary[]): string {
+  if (!threads.length) {
+    return `${chalk.gray('No conversations yet.')}\n`;
+  }
+  let content = '';
+  threads.forEach((thread) => {
+    const title = thread.title || thread.agent_keys.join(', ');
+    const lastActivity = thread.last_activity ? formatDateTime(thread.last_activity) : 'Unknown';
+    content += `${thread.id}  ${chalk.bold(title)} ${chalk.gray(`(${lastActivity})`)}\n`;
+    if (thread.last_message_preview) {
+      content += `   ${chalk.gray(truncate(thread.last_message_preview, 80))}\n`;
+    }
+  });
+  return content;
+}
@@ -0,0 +1,174 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { resolveConfigValues, resolveProfileName } from '../../config/app-config';
+import { loadEnvironment } from '../../config/environment';
+import { CONFIG_KEYS, findConfigKey } from '../../config/config-keys';
+import type { ConfigKeyDefinition } from '../../config/config-keys';
+import { redactSecret } from '../../config/validation';
+import { getAppSettingsPath, getConfigDirectory } from '../../storage/paths';
+import {
+  getProfileSettings,
+  loadSettings,
+  saveSettings,
+  withProfileSettings,
+} from '../../storage/settings-store';
+import type { PersistedSettings, ProfileSettings } from '../../storage/settings-store';
+import { writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimary } from '../theme';
+
+type ConfigRow = {
+  key: string;
+  value: string | null;
+  source: string | null;
+  stored: string | null;
+  profile: string;
+};
+
+const configColumns: OutputColumn<ConfigRow>[] = [
+  { header: 'Key', value: (row) => row.key },
+  { header: 'Value', value: (row) => row.value },
+  { header: 'Source', value: (row) => row.source ?? 'unset' },
+];
+
+export function registerConfigCommands(program: Command): void {
+  const config = program
+    .command('config')
+    .description('Inspect and change the persisted settings of the active profile');
+
+  config
+    .command('list')
+    .alias('ls')
+    .description('Show every setting, its effective value and which source provided it')
+    .option('--show-secrets', 'Print secrets instead of redacting them')
+    .action(async (options: { showSecrets?: boolean }) => {
+      const context = await loadProfileContext();
+      const rows = CONFIG_KEYS.map((definition) =>
+        describeKey(definition, context, Boolean(options.showSecrets)),
+      );
+      writeList(rows, { columns: configColumns, text: renderConfigList });
+    });
+
+  config
+    .command('get')
+    .description('Print the effective value of a setting')
+    .argument('<key>', `One of: ${CONFIG_KEYS.map((entry) => entry.key).join(', ')}`)
+    .option('--show-secrets', 'Print secrets instead of redacting them')
+    .action(async (key: string, options: { showSecrets?: boolean }) => {
+      const definition = findConfigKey(key);
+      const context = await loadProfileContext();
+      const row = describeKey(definition, context, Boolean(options.showSecrets));
+      writeRecord(row, { text: (record) => (record.value ? `${record.value}\n` : '') });
+      if (!row.value) {
+        process.exitCode = 1;
+      }
+    });
+
+  config
+    .command('set')
+    .description('Persist a setting for the active profile')
+    .argument('<key>', `One of: ${CONFIG_KEYS.map((entry) => entry.key).join(', ')}`)
+    .argument('<value>', 'New value')
+    .action(async (key: string, value: string) => {
+      const definition = findConfigKey(key);
+      const normalized = definition.normalize(value);
+      const context = await loadProfileContext();
+      await saveProfileSettings(context, { [definition.setting]: normalized });
+      const shown = definition.secret ? redactSecret(normalized) : normalized;
+      writeRecord(
+        { key: definition.key, value: shown, profile: context.profile },
+        {
+          text: () =>
+            `Set ${chalk.bold(definition.key)} to ${shown} for profile ${brandPrimary(context.profile)}.\n`,
+        },
+      );
+    });
+
+  config
+    .command('unset')
+    .description('Remove a persisted setting so the environment applies again')
+    .argument('<key>', `One of: ${CONFIG_KEYS.map((entry) => entry.key).join(', ')}`)
+    .action(async (key: string) => {
+      const definition = findConfigKey(key);
+      const context = await loadProfileContext();
+      await saveProfileSettings(context, { [definition.setting]: undefined });
+      writeRecord(
+        { key: definition.key, profile: context.profile, removed: true },
+        {
+          text: () =>
+            `Removed ${chalk.bold(definition.key)} from profile ${brandPrimary(context.profile)}.\n`,
+        },
+      );
+    });
+
+  config
+    .command('path')
+    .description('Print the location of the settings file')
+    .action(() => {
+      writeRecord(
+        { settingsFile: getAppSettingsPath(), configDirectory: getConfigDirectory() },
+        { text: (record) => `${record.settingsFile}\n` },
+      );
+    });
+}
+
+type ProfileContext = {
+  settings: PersistedSettings;
+  profile: string;
+  profileSettings: ProfileSettings;
+};
+
+async function loadProfileContext(): Promise<ProfileContext> {
+  loadEnvironment();
+  const settings = await loadSettings();
+  const profile = resolveProfileName(settings);
+  const profileSettings = getProfileSettings(settings, profile);
+  if (!profileSettings) {
+    throw new Error(
+      `Profile "${profile}" does not exist. Create it with \`tmates profile add ${profile}\`.`,
+    );
+  }
+  return { settings, profile, profileSettings };
+}
+
+async function saveProfileSettings(
+  context: ProfileContext,
+  changes: Partial<ProfileSettings>,
+): Promise<void> {
+  await saveSettings(
+    withProfileSettings(context.settings, context.profile, {
+      ...context.profileSettings,
+      ...changes,
+    }),
+  );
+}
+
+function describeKey(
+  definition: ConfigKeyDefinition,
+  context: ProfileContext,
+  showSecrets: boolean,
+): ConfigRow {
+  const resolved = resolveConfigValues(context.profile, context.profileSettings)[definition.field];
+  const stored = context.profileSettings[definition.setting] ?? null;
+  const reveal = (value: string | null): string | null =>
+    value && definition.secret && !showSecrets ? redactSecret(value) : value;
+  return {
+    key: definition.key,
+    value: reveal(resolved.value || null),
+    source: resolved.source,
+    stored: reveal(stored),
+    profile: context.profile,
+  };
+}
+
+function renderConfigList(rows: ConfigRow[]): string {
+  const keyWidth = Math.max(...rows.map((row) => row.key.length));
+  let content = `${chalk.gray(`Profile: ${rows[0]?.profile ?? 'default'}`)}\n\n`;
+  rows.forEach((row) => {
+    const value = row.value ?? chalk.red('Not set');
+    const source = row.source ? chalk.gray(`(${row.source})`) : '';
+    content += `${row.key.padEnd(keyWidth)}  ${value} ${source}\n`;
+  });
+  return content;
+}
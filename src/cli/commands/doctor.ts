@@ -0,0 +1,78 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { getStaticAccessToken } from '../../auth/supabase-auth';
+import { resolveAppConfig } from '../../config/app-config';
+import { unlockSessionStore } from '../../storage/session-store';
+import { runDiagnostics } from '../diagnostics';
+import type { CheckStatus, DiagnosticCheck } from '../diagnostics';
+import { startSpinner, writeList } from '../output';
+import type { OutputColumn } from '../output';
+
+const checkColumns: OutputColumn<DiagnosticCheck>[] = [
+  { header: 'Check', value: (row) => row.check },
+  { header: 'Status', value: (row) => row.status },
+  { header: 'Detail', value: (row) => row.detail },
+  { header: 'Fix', value: (row) => row.fix ?? null },
+];
+
+/** Colored when rendered, after `runCli` has applied NO_COLOR. */
+const STATUS_MARKERS: Record<CheckStatus, () => string> = {
+  ok: () => chalk.green('✔'),
+  warn: () => chalk.yellow('!'),
+  fail: () => chalk.red('✖'),
+  skip: () => chalk.gray('-'),
+};
+
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description('Check configuration, connectivity, clock and session, and suggest fixes')
+    .action(async () => {
+      const config = await resolveAppConfig();
+      if (!getStaticAccessToken() && process.env.TMATES_CLI_DISABLE_SESSION_CACHE !== '1') {
+        // Ask for the encrypted store's passphrase before the spinner starts.
+        await unlockSessionStore(config.profile);
+      }
+
+      const spinner = startSpinner('Running checks...');
+      let checks: DiagnosticCheck[];
+      try {
+        checks = await runDiagnostics((check) => {
+          spinner.text = `Checking ${check.toLowerCase()}...`;
+        });
+      } finally {
+        spinner.stop();
+      }
+
+      writeList(checks, {
+        columns: checkColumns,
+        text: (rows) => renderChecks(rows, config.profile),
+      });
+      if (checks.some((check) => check.status === 'fail')) {
+        process.exitCode = 1;
+      }
+    });
+}
+
+function renderChecks(checks: DiagnosticCheck[], profile: string): string {
+  const width = Math.max(...checks.map((check) => check.check.length));
+  let content = `\nDiagnostics for profile ${chalk.bold(profile)}\n\n`;
+  for (const check of checks) {
+    const detail = check.status === 'skip' ? chalk.gray(check.detail) : check.detail;
+    content += `${STATUS_MARKERS[check.status]()} ${check.check.padEnd(width)}  ${detail}\n`;
+    if (check.fix && (check.status === 'warn' || check.status === 'fail')) {
+      content += `  ${' '.repeat(width)}  ${chalk.cyan('→')} ${check.fix}\n`;
+    }
+  }
+
+  const failed = checks.filter((check) => check.status === 'fail').length;
+  const warned = checks.filter((check) => check.status === 'warn').length;
+  content +=
+    failed || warned
+      ? `\n${failed ? chalk.red(`${failed} failed`) : ''}${failed && warned ? ', ' : ''}${
+          warned ? chalk.yellow(`${warned} ${warned === 1 ? 'warning' : 'warnings'}`) : ''
+        }.\n`
+      : `\n${chalk.green('Everything looks good.')}\n`;
+  return content;
+}
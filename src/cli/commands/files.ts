@@ -0,0 +1,205 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import {
+  deleteFile,
+  downloadFile,
+  fetchAllFiles,
+  fetchFiles,
+  findFile,
+  uploadFiles,
+} from '../../api/files';
+import type { FileEntry } from '../../api/files';
+import {
+  FILE_SORT_KEYS,
+  applyFileQuery,
+  getFileName,
+  normalizeDirectory,
+  parseFileSortKey,
+  renderFileTree,
+  requiresFullListing,
+  sortFilesForTree,
+} from '../file-browser';
+import type { FileQuery } from '../file-browser';
+import { pathExists, prepareUploads, resolveDownloadTarget, saveDownload } from '../file-transfer';
+import type { DownloadProgress } from '../file-transfer';
+import { formatBytes } from '../format';
+import { startSpinner, writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import { parsePositiveInteger, requireSession } from './shared';
+
+const fileColumns: OutputColumn<FileEntry>[] = [
+  { header: 'Path', value: (file) => file.relative_path },
+  { header: 'Size', value: (file) => file.size_display },
+  { header: 'Modified', value: (file) => file.modified_display },
+];
+
+export function registerFileCommands(program: Command): void {
+  const files = requireSession(
+    program.command('files').description('Review files generated by your agents'),
+  );
+
+  files
+    .command('list')
+    .alias('ls')
+    .description('List your files')
+    .argument('[directory]', 'Only list files inside this folder')
+    .option('-l, --limit <count>', 'Number of files to show', parsePositiveInteger, 25)
+    .option('-a, --all', 'Fetch every page instead of stopping at --limit')
+    .option('-s, --sort <key>', `Sort by ${FILE_SORT_KEYS.join(', ')}`, parseFileSortKey)
+    .option('-r, --reverse', 'Reverse the sort order')
+    .option('-f, --filter <pattern>', 'Glob (e.g. "*.csv", "reports/**") or extension (".csv")')
+    .option('-t, --tree', 'Group files into a folder tree')
+    .action(
+      async (
+        directory: string | undefined,
+        options: FileQuery & { limit: number; all?: boolean; tree?: boolean },
+      ) => {
+        const query: FileQuery = { ...options, directory: normalizeDirectory(directory) };
+        let entries: FileEntry[];
+        if (options.all || requiresFullListing(query)) {
+          const spinner = startSpinner('Loading files...');
+          try {
+            entries = await fetchAllFiles(100, (loaded, total) => {
+              spinner.text = `Loading files (${loaded} of ${total})...`;
+            });
+            spinner.stop();
+          } catch (error) {
+            spinner.fail('Failed to load files.');
+            throw error;
+          }
+          entries = applyFileQuery(entries, query);
+          if (!options.all) {
+            entries = entries.slice(0, options.limit);
+          }
+        } else {
+          entries = (await fetchFiles(options.limit)).files;
+        }
+
+        if (options.tree) {
+          entries = sortFilesForTree(entries, Boolean(options.sort));
+        }
+        writeList(entries, {
+          columns: fileColumns,
+          text: (rows) =>
+            options.tree && rows.length
+              ? renderFileTree(rows, query.directory ?? '', formatFileLine)
+              : renderFileList(rows),
+        });
+      },
+    );
+
+  files
+    .command('upload')
+    .description('Upload one or more local files')
+    .argument('<path...>', 'Local files to upload')
+    .action(async (paths: string[]) => {
+      const uploads = await prepareUploads(paths);
+      const totalSize = uploads.reduce((sum, upload) => sum + upload.size, 0);
+      const spinner = startSpinner(
+        `Uploading ${uploads.length === 1 ? uploads[0].name : `${uploads.length} files`} (${formatBytes(totalSize)})...`,
+      );
+      try {
+        const result = await uploadFiles(uploads);
+        spinner.succeed(
+          `Uploaded ${uploads.length === 1 ? uploads[0].name : `${uploads.length} files`}.`,
+        );
+        writeList(result.files ?? [], { columns: fileColumns, text: renderFileList });
+      } catch (error) {
+        spinner.fail('Upload failed.');
+        throw error;
+      }
+    });
+
+  files
+    .command('download')
+    .description('Download a file')
+    .argument('<relative_path>', 'Path of the file as shown by `files list`')
+    .option('-o, --output <dest>', 'Destination file or directory (defaults to the file name)')
+    .option('-f, --force', 'Overwrite the destination if it already exists')
+    .action(async (relativePath: string, options: { output?: string; force?: boolean }) => {
+      const file = await requireFile(relativePath);
+      const destination = await resolveDownloadTarget(getFileName(file), options.output);
+      if (!options.force && (await pathExists(destination))) {
+        throw new Error(`${destination} already exists. Use --force to overwrite it.`);
+      }
+
+      const spinner = startSpinner(`Downloading ${file.name}...`);
+      try {
+        const response = await downloadFile(file);
+        const bytes = await saveDownload(response, destination, (progress) => {
+          spinner.text = `Downloading ${file.name} ${describeProgress(progress)}`;
+        });
+        spinner.succeed(`Saved ${file.name} (${formatBytes(bytes)}).`);
+        writeRecord(
+          { relative_path: file.relative_path, destination, bytes },
+          { text: (record) => `${record.destination}\n` },
+        );
+      } catch (error) {
+        spinner.fail(`Failed to download ${file.name}.`);
+        throw error;
+      }
+    });
+
+  files
+    .command('rm')
+    .alias('delete')
+    .description('Delete one or more files')
+    .argument('<relative_path...>', 'Paths of the files as shown by `files list`')
+    .action(async (relativePaths: string[]) => {
+      const removed: string[] = [];
+      for (const relativePath of relativePaths) {
+        const spinner = startSpinner(`Deleting ${relativePath}...`);
+        try {
+          const response = await deleteFile(relativePath);
+          if (!response.success) {
+            throw new Error(response.message || 'Request failed');
+          }
+          spinner.succeed(`Deleted ${relativePath}.`);
+          removed.push(relativePath);
+        } catch (error) {
+          spinner.fail(`Failed to delete ${relativePath}.`);
+          throw error;
+        }
+      }
+      writeList(
+        removed.map((relative_path) => ({ relative_path })),
+        { columns: [{ header: 'Deleted', value: (row) => row.relative_path }], text: () => '' },
+      );
+    });
+}
+
+async function requireFile(relativePath: string): Promise<FileEntry> {
+  const file = await findFile(relativePath);
+  if (!file) {
+    throw new Error(
+      `No file found at "${relativePath}". Run \`tmates files list\` to see your files.`,
+    );
+  }
+  return file;
+}
+
+function describeProgress(progress: DownloadProgress): string {
+  if (!progress.total) {
+    return formatBytes(progress.received);
+  }
+  const percent = Math.min(100, Math.round((progress.received / progress.total) * 100));
+  return `${percent}% (${formatBytes(progress.received)} of ${formatBytes(progress.total)})`;
+}
+
+function renderFileList(files: FileEntry[]): string {
+  if (!files.length) {
+    return `${chalk.gray('No files found.')}\n`;
+  }
+  return files
+    .map((file) => `${chalk.bold(file.relative_path)} ${formatFileDetails(file)}\n`)
+    .join('');
+}
+
+function formatFileLine(file: FileEntry): string {
+  return `${chalk.bold(file.name)} ${formatFileDetails(file)}`;
+}
+
+function formatFileDetails(file: FileEntry): string {
+  return chalk.gray(`(${file.modified_display}, ${file.size_display})`);
+}
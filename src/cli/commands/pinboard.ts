@@ -0,0 +1,384 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { fetchPinboardPost, fetchPinboardPosts, scanPinboardPosts } from '../../api/pinboard';
+import type { PinboardPost } from '../../api/pinboard';
+import { resolveAppConfig } from '../../config/app-config';
+import {
+  loadPinboardState,
+  recordPostsSeen,
+  savePinboardState,
+} from '../../storage/pinboard-state-store';
+import type { PinboardReadStatus } from '../../storage/pinboard-state-store';
+import { resolveLocalPath } from '../file-transfer';
+import { formatDateTime, formatPinboardPost, truncate } from '../format';
+import { startSpinner, writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import {
+  PINBOARD_SORT_KEYS,
+  formatPriority,
+  formatReadStatus,
+  getPostTime,
+  getPriorityLevel,
+  hasPinboardFilters,
+  matchesPinboardQuery,
+  parsePinboardSortKey,
+  parsePriorityList,
+  parseSince,
+  sortPinboardPosts,
+} from '../pinboard-query';
+import type { PinboardLevel, PinboardQuery, PinboardSortKey } from '../pinboard-query';
+import { exportPinboardPosts } from '../pinboard-export';
+import type { ExportResult } from '../pinboard-export';
+import { brandPrimary } from '../theme';
+import { parsePositiveInteger, requireSession } from './shared';
+
+/** Upper bound on posts a digest looks through for updates to older posts. */
+const DIGEST_SCAN_LIMIT = 500;
+
+const DIGEST_DEFAULT_WINDOW = '24h';
+
+/** A listed post with whether it is new or changed since this profile last listed it. */
+type ListedPost = PinboardPost & { read_status: PinboardReadStatus };
+
+const postColumns: OutputColumn<ListedPost>[] = [
+  { header: 'Slug', value: (post) => post.slug },
+  { header: 'Title', value: (post) => post.title },
+  { header: 'Priority', value: (post) => getPriorityLevel(post.priority) },
+  { header: 'Author', value: (post) => post.author_display ?? post.author_agent_key },
+  { header: 'Created', value: (post) => post.created_at },
+  { header: 'Status', value: (post) => (post.read_status === 'seen' ? '' : post.read_status) },
+];
+
+const exportColumns: OutputColumn<ExportResult>[] = [
+  { header: 'Slug', value: (result) => result.slug },
+  { header: 'Status', value: (result) => result.status },
+  { header: 'Assets', value: (result) => result.assets },
+  { header: 'File', value: (result) => result.file },
+  { header: 'Error', value: (result) => result.error },
+];
+
+type DigestChange = 'new' | 'updated';
+
+type DigestEntry = {
+  slug: string;
+  title: string;
+  change: DigestChange;
+  priority: string;
+  author: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  excerpt: string | null;
+};
+
+type Digest = {
+  since: string;
+  until: string;
+  urgent: DigestEntry[];
+  new: DigestEntry[];
+  updated: DigestEntry[];
+};
+
+type ListOptions = {
+  limit: number;
+  priority?: PinboardLevel[];
+  author?: string;
+  since?: Date;
+  sort: PinboardSortKey;
+};
+
+export function registerPinboardCommands(program: Command): void {
+  const pinboard = requireSession(
+    program.command('pinboard').description('Read highlights your agents pinned for you'),
+  );
+
+  pinboard
+    .command('list')
+    .alias('ls')
+    .description('List recent pinboard posts')
+    .option('-l, --limit <count>', 'Number of posts to show', parsePositiveInteger, 10)
+    .option(
+      '--priority <levels>',
+      'Only these priorities, comma-separated: low, normal, high, urgent',
+      parsePriorityList,
+    )
+    .option('--author <agent>', 'Only posts by this agent (key or display name)')
+    .option(
+      '--since <when>',
+      'Only posts created after a date or within a duration (24h, 7d)',
+      (value: string) => parseSince(value),
+    )
+    .option(
+      '-s, --sort <key>',
+      `Sort by ${PINBOARD_SORT_KEYS.join(' or ')}`,
+      parsePinboardSortKey,
+      'newest',
+    )
+    .action(async (options: ListOptions) => {
+      const query: PinboardQuery = {
+        priorities: options.priority,
+        author: options.author,
+        since: options.since,
+      };
+      const spinner = startSpinner('Loading pinboard...');
+      let posts: PinboardPost[];
+      try {
+        posts = await findPinboardPosts(query, options.limit, (scanned) => {
+          spinner.text = `Loading pinboard... ${scanned} posts scanned`;
+        });
+        spinner.stop();
+      } catch (error) {
+        spinner.fail('Failed to load pinboard.');
+        throw error;
+      }
+      const statuses = await recordPostsSeen((await resolveAppConfig()).profile, posts);
+      const listed = sortPinboardPosts(posts, options.sort).map(
+        (post): ListedPost => ({ ...post, read_status: statuses.get(post.id) ?? 'seen' }),
+      );
+      writeList(listed, { columns: postColumns, text: renderPostList });
+    });
+
+  pinboard
+    .command('digest')
+    .description('Summarise new and updated posts, e.g. for a daily email from cron')
+    .option(
+      '--since <when>',
+      `"last" (the previous \`--since last\` digest, or ${DIGEST_DEFAULT_WINDOW} the first time), a date or a duration (24h, 7d)`,
+      (value: string) => (value.trim().toLowerCase() === 'last' ? 'last' : parseSince(value)),
+      'last',
+    )
+    .action(async (options: { since: 'last' | Date }) => {
+      const { profile } = await resolveAppConfig();
+      const state = await loadPinboardState(profile);
+      const until = new Date();
+      const since =
+        options.since !== 'last'
+          ? options.since
+          : state.lastDigestAt
+            ? new Date(state.lastDigestAt)
+            : parseSince(DIGEST_DEFAULT_WINDOW);
+
+      const spinner = startSpinner('Loading pinboard...');
+      let digest: Digest;
+      let fromCache: boolean;
+      try {
+        const changed = await findChangedPosts(since);
+        digest = buildDigest(changed.posts, since, until);
+        fromCache = changed.fromCache;
+        spinner.stop();
+      } catch (error) {
+        spinner.fail('Failed to load pinboard.');
+        throw error;
+      }
+      // A digest of cached posts may miss some, so the next `--since last` covers this window again.
+      if (options.since === 'last' && !fromCache) {
+        await savePinboardState(profile, {
+          ...(await loadPinboardState(profile)),
+          lastDigestAt: until.toISOString(),
+        });
+      }
+      writeRecord(digest, { text: renderDigest });
+    });
+
+  pinboard
+    .command('export')
+    .description('Write every post as Markdown with YAML front matter, e.g. for a git repository')
+    .requiredOption(
+      '-d, --dir <path>',
+      'Directory for the <slug>.md files; assets go to <dir>/assets',
+    )
+    .option('--force', 'Rewrite every post, not only those updated since the last export')
+    .action(async (options: { dir: string; force?: boolean }) => {
+      const dir = resolveLocalPath(options.dir);
+      const spinner = startSpinner('Loading pinboard...');
+      let results: ExportResult[];
+      try {
+        const posts: PinboardPost[] = [];
+        await scanPinboardPosts((page, scanned) => {
+          posts.push(...page);
+          spinner.text = `Loading pinboard... ${scanned} posts`;
+          return false;
+        });
+        results = await exportPinboardPosts(posts, dir, { force: options.force }, (done, total) => {
+          spinner.text = `Exporting posts... ${done}/${total}`;
+        });
+        spinner.stop();
+      } catch (error) {
+        spinner.fail('Failed to export pinboard.');
+        throw error;
+      }
+      if (results.some((result) => result.status === 'failed')) {
+        process.exitCode = 1;
+      }
+      writeList(results, { columns: exportColumns, text: (rows) => renderExport(rows, dir) });
+    });
+
+  pinboard
+    .command('show')
+    .description('Show a pinboard post with its content, attachments and sources')
+    .argument('<slug>', 'Slug of the post, as listed by `tmates pinboard list`')
+    .action(async (slug: string) => {
+      const spinner = startSpinner('Loading post...');
+      let post: PinboardPost;
+      try {
+        post = await fetchPinboardPost(slug);
+        spinner.stop();
+      } catch (error) {
+        spinner.fail('Failed to load post.');
+        throw error;
+      }
+      writeRecord(post, { text: (record) => `${formatPinboardPost(record)}\n` });
+    });
+}
+
+/**
+ * The newest `limit` posts matching `query`. Filters are applied locally, so older pages are
+ * scanned until enough posts match, the pinboard runs out or (with `since`) posts get too old.
+ */
+async function findPinboardPosts(
+  query: PinboardQuery,
+  limit: number,
+  onProgress: (scanned: number) => void,
+): Promise<PinboardPost[]> {
+  if (!hasPinboardFilters(query)) {
+    return fetchPinboardPosts(limit);
+  }
+
+  const matches: PinboardPost[] = [];
+  const since = query.since?.getTime();
+  await scanPinboardPosts((posts, scanned) => {
+    onProgress(scanned);
+    matches.push(...posts.filter((post) => matchesPinboardQuery(post, query)));
+    const tooOld = since !== undefined && posts.every((post) => getPostTime(post) < since);
+    return matches.length >= limit || tooOld;
+  });
+  return matches.slice(0, limit);
+}
+
+/**
+ * Posts created or updated since `since`. Older posts can be updated at any time, so scanning goes
+ * on until a whole page is older by both timestamps, up to `DIGEST_SCAN_LIMIT` posts.
+ */
+async function findChangedPosts(
+  since: Date,
+): Promise<{ posts: PinboardPost[]; fromCache: boolean }> {
+  const posts: PinboardPost[] = [];
+  const fromCache = await scanPinboardPosts((page, scanned) => {
+    const recent = page.filter((post) => getChange(post, since));
+    posts.push(...recent);
+    return !recent.length || scanned >= DIGEST_SCAN_LIMIT;
+  });
+  return { posts, fromCache };
+}
+
+function getChange(post: PinboardPost, since: Date): DigestChange | null {
+  if (getPostTime(post) >= since.getTime()) {
+    return 'new';
+  }
+  const updated = Date.parse(post.updated_at ?? '');
+  return updated >= since.getTime() ? 'updated' : null;
+}
+
+/** Urgent posts get their own section, whether they are new or updated. */
+function buildDigest(posts: PinboardPost[], since: Date, until: Date): Digest {
+  const digest: Digest = {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    urgent: [],
+    new: [],
+    updated: [],
+  };
+  sortPinboardPosts(posts, 'newest').forEach((post) => {
+    const change = getChange(post, since) ?? 'new';
+    const priority = getPriorityLevel(post.priority);
+    const entry: DigestEntry = {
+      slug: post.slug,
+      title: post.title,
+      change,
+      priority,
+      author: post.author_display ?? post.author_agent_key ?? null,
+      created_at: post.created_at ?? null,
+      updated_at: post.updated_at ?? null,
+      excerpt: post.excerpt ?? null,
+    };
+    digest[priority === 'urgent' ? 'urgent' : change].push(entry);
+  });
+  return digest;
+}
+
+function renderDigest(digest: Digest): string {
+  const since = formatDateTime(digest.since);
+  const all = [...digest.urgent, ...digest.new, ...digest.updated];
+  if (!all.length) {
+    return `No new or updated pinboard posts since ${since}.\n`;
+  }
+  const count = (change: DigestChange): number =>
+    all.filter((entry) => entry.change === change).length;
+  let content = `${chalk.bold('Pinboard digest')}: ${count('new')} new, ${count(
+    'updated',
+  )} updated since ${since}\n`;
+
+  const sections: [string, DigestEntry[]][] = [
+    [chalk.red.bold(`Urgent (${digest.urgent.length})`), digest.urgent],
+    [chalk.bold(`New (${digest.new.length})`), digest.new],
+    [chalk.bold(`Updated (${digest.updated.length})`), digest.updated],
+  ];
+  sections
+    .filter(([, entries]) => entries.length)
+    .forEach(([heading, entries]) => {
+      content += `\n${heading}\n`;
+      entries.forEach((entry) => {
+        const when = entry.change === 'new' ? entry.created_at : entry.updated_at;
+        const details = [
+          entry.author,
+          when ? formatDateTime(when) : null,
+          digest.urgent.includes(entry) ? entry.change : null,
+        ].filter(Boolean);
+        content += `- ${entry.title} ${chalk.gray(`(${details.join(', ')})`)} ${chalk.gray(
+          entry.slug,
+        )}\n`;
+        if (entry.excerpt) {
+          content += `  ${chalk.gray(truncate(entry.excerpt, 100))}\n`;
+        }
+      });
+    });
+  return content;
+}
+
+function renderExport(results: ExportResult[], dir: string): string {
+  const count = (status: ExportResult['status']): number =>
+    results.filter((result) => result.status === status).length;
+  let content = '';
+  results
+    .filter((result) => result.status === 'failed')
+    .forEach((result) => {
+      content += `${chalk.red('✖')} ${result.slug}: ${result.error}\n`;
+    });
+  const written = count('written');
+  content += `${brandPrimary('✓')} Exported ${written} ${written === 1 ? 'post' : 'posts'} to ${dir}`;
+  content += chalk.gray(` (${count('unchanged')} unchanged)`);
+  if (count('failed')) {
+    content += chalk.red(`, ${count('failed')} failed`);
+  }
+  return `${content}.\n`;
+}
+
+function renderPostList(posts: ListedPost[]): string {
+  if (!posts.length) {
+    return `${chalk.gray('No pinboard posts found.')}\n`;
+  }
+  let content = '';
+  posts.forEach((post) => {
+    const timestamp = post.created_at ? formatDateTime(post.created_at) : 'Unknown date';
+    const tags = [formatPriority(post.priority), formatReadStatus(post.read_status)]
+      .filter(Boolean)
+      .map((tag) => ` ${tag}`)
+      .join('');
+    content += `${chalk.bold(post.title)} ${chalk.gray(`(${timestamp})`)}${tags}\n`;
+    content += `   ${chalk.gray(`Slug: ${post.slug}`)}\n`;
+    if (post.excerpt) {
+      content += `   ${chalk.gray(truncate(post.excerpt, 120))}\n`;
+    }
+  });
+  return content;
+}
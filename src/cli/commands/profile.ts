@@ -0,0 +1,205 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { updateUserProfile } from '../../api/profile';
+import type { UserProfile } from '../../api/profile';
+import { resolveProfileName } from '../../config/app-config';
+import { normalizeEndpointUrl, normalizeSupabaseAnonKey } from '../../config/validation';
+import { deleteSession, hasStoredSession } from '../../storage/session-store';
+import { deletePinboardState } from '../../storage/pinboard-state-store';
+import { clearCache } from '../../storage/cache-store';
+import { deleteSearchIndex } from '../../storage/search-index-store';
+import {
+  DEFAULT_PROFILE,
+  getProfileSettings,
+  isValidProfileName,
+  listProfileNames,
+  loadSettings,
+  saveSettings,
+  withoutProfile,
+  withProfileSettings,
+} from '../../storage/settings-store';
+import type { PersistedSettings, ProfileSettings } from '../../storage/settings-store';
+import { startSpinner, writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimary } from '../theme';
+import { toUserProfileChanges } from '../user-settings';
+import { requireSession } from './shared';
+
+type ProfileRow = {
+  name: string;
+  active: boolean;
+  apiBaseUrl: string | null;
+  supabaseUrl: string | null;
+  hasSession: boolean;
+};
+
+type ProfileEndpointOptions = {
+  apiBaseUrl?: string;
+  supabaseUrl?: string;
+  supabaseAnonKey?: string;
+};
+
+const profileColumns: OutputColumn<ProfileRow>[] = [
+  { header: 'Profile', value: (row) => row.name },
+  { header: 'Active', value: (row) => (row.active ? 'yes' : '') },
+  { header: 'API Base URL', value: (row) => row.apiBaseUrl },
+  { header: 'Supabase URL', value: (row) => row.supabaseUrl },
+  { header: 'Signed in', value: (row) => (row.hasSession ? 'yes' : 'no') },
+];
+
+export function registerProfileCommands(program: Command): void {
+  const profile = program
+    .command('profile')
+    .description('Manage named profiles, each with its own endpoints and session');
+
+  profile
+    .command('list')
+    .alias('ls')
+    .description('List configured profiles')
+    .action(async () => {
+      const settings = await loadSettings();
+      const active = resolveProfileName(settings);
+      const rows = await Promise.all(
+        listProfileNames(settings).map(async (name): Promise<ProfileRow> => {
+          const values = getProfileSettings(settings, name) ?? {};
+          return {
+            name,
+            active: name === active,
+            apiBaseUrl: values.customApiBaseUrl ?? null,
+            supabaseUrl: values.customSupabaseUrl ?? null,
+            hasSession: await hasStoredSession(name),
+          };
+        }),
+      );
+      writeList(rows, { columns: profileColumns, text: renderProfileList });
+    });
+
+  profile
+    .command('add')
+    .description('Create a profile')
+    .argument('<name>', 'Profile name (letters, digits, "-" and "_")')
+    .option('--api-base-url <url>', 'Tmates Platform API base URL for this profile')
+    .option('--supabase-url <url>', 'Supabase project URL for this profile')
+    .option('--supabase-anon-key <key>', 'Supabase anonymous key for this profile')
+    .option('--use', 'Make the new profile the active one')
+    .action(async (name: string, options: ProfileEndpointOptions & { use?: boolean }) => {
+      assertProfileName(name);
+      const settings = await loadSettings();
+      if (name === DEFAULT_PROFILE || settings.profiles?.[name]) {
+        throw new Error(`Profile "${name}" already exists.`);
+      }
+      let next = withProfileSettings(settings, name, toProfileSettings(options));
+      if (options.use) {
+        next = { ...next, activeProfile: name };
+      }
+      await saveSettings(next);
+      writeRecord(
+        { name, active: Boolean(options.use) },
+        {
+          text: () =>
+            `Profile ${brandPrimary(name)} created${options.use ? ' and activated' : ''}.\n`,
+        },
+      );
+    });
+
+  profile
+    .command('use')
+    .description('Switch the active profile')
+    .argument('<name>', 'Profile to activate')
+    .action(async (name: string) => {
+      const settings = await loadSettings();
+      if (!getProfileSettings(settings, name)) {
+        throw new Error(`Profile "${name}" does not exist.`);
+      }
+      const next: PersistedSettings = { ...settings, activeProfile: name };
+      if (name === DEFAULT_PROFILE) {
+        delete next.activeProfile;
+      }
+      await saveSettings(next);
+      writeRecord(
+        { name, active: true },
+        { text: () => `Now using profile ${brandPrimary(name)}.\n` },
+      );
+    });
+
+  profile
+    .command('remove')
+    .alias('rm')
+    .description('Delete a profile with its stored session and cached data')
+    .argument('<name>', 'Profile to delete')
+    .action(async (name: string) => {
+      if (name === DEFAULT_PROFILE) {
+        throw new Error('The default profile cannot be removed.');
+      }
+      const settings = await loadSettings();
+      if (!settings.profiles?.[name]) {
+        throw new Error(`Profile "${name}" does not exist.`);
+      }
+      await saveSettings(withoutProfile(settings, name));
+      await deleteSession(name);
+      await deletePinboardState(name);
+      await clearCache(name);
+      await deleteSearchIndex(name);
+      writeRecord({ name, removed: true }, { text: () => `Profile ${name} removed.\n` });
+    });
+
+  requireSession(
+    profile
+      .command('set')
+      .description('Update your Tmates user profile (display name and avatar)')
+      .option('--name <name>', 'Display name shown to your teammates; "" clears it')
+      .option('--avatar-url <url>', 'http(s) URL of your avatar image; "" clears it'),
+  ).action(async (options: { name?: string; avatarUrl?: string }) => {
+    const changes = toUserProfileChanges(options);
+    const spinner = startSpinner('Updating profile...');
+    let updated: UserProfile;
+    try {
+      updated = await updateUserProfile(changes);
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Failed to update profile.');
+      throw error;
+    }
+    writeRecord(updated, {
+      text: (record) =>
+        `Profile updated: ${chalk.bold(record.display_name ?? 'no display name')}${
+          record.avatar_url ? chalk.gray(` (${record.avatar_url})`) : ''
+        }\n`,
+    });
+  });
+}
+
+function assertProfileName(name: string): void {
+  if (!isValidProfileName(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, digits, "-" and "_" (up to 64 characters).`,
+    );
+  }
+}
+
+function toProfileSettings(options: ProfileEndpointOptions): ProfileSettings {
+  return {
+    customApiBaseUrl: options.apiBaseUrl
+      ? normalizeEndpointUrl(options.apiBaseUrl, 'API base URL')
+      : undefined,
+    customSupabaseUrl: options.supabaseUrl
+      ? normalizeEndpointUrl(options.supabaseUrl, 'Supabase URL')
+      : undefined,
+    customSupabaseAnonKey: options.supabaseAnonKey
+      ? normalizeSupabaseAnonKey(options.supabaseAnonKey)
+      : undefined,
+  };
+}
+
+function renderProfileList(rows: ProfileRow[]): string {
+  let content = '';
+  rows.forEach((row) => {
+    const marker = row.active ? brandPrimary('*') : ' ';
+    const session = row.hasSession ? brandPrimary('signed in') : chalk.gray('signed out');
+    content += `${marker} ${chalk.bold(row.name)} ${chalk.gray('—')} ${session}\n`;
+    content += `    ${chalk.gray(`API: ${row.apiBaseUrl ?? 'environment'}`)}\n`;
+    content += `    ${chalk.gray(`Supabase: ${row.supabaseUrl ?? 'environment'}`)}\n`;
+  });
+  return content;
+}
@@ -0,0 +1,141 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { resolveAppConfig } from '../../config/app-config';
+import { loadSearchIndex } from '../../storage/search-index-store';
+import type { SearchDocumentKind, SearchIndex } from '../../storage/search-index-store';
+import { formatDateTime } from '../format';
+import { startSpinner, writeList } from '../output';
+import type { OutputColumn } from '../output';
+import {
+  SEARCH_KINDS,
+  describeSearchLocation,
+  formatSnippet,
+  parseSearchKinds,
+  searchIndex,
+  syncSearchIndex,
+} from '../search';
+import type { SearchHit } from '../search';
+import { brandPrimary } from '../theme';
+import { parsePositiveInteger, requireSession } from './shared';
+
+/** A hit as written by `-o json`: the matched document plus where to open it. */
+type SearchResult = {
+  type: SearchDocumentKind;
+  score: number;
+  title: string;
+  author: string | null;
+  date: string | null;
+  snippet: string;
+  thread_id?: string;
+  message_id?: string;
+  slug?: string;
+  path?: string;
+  highlights: Array<[number, number]>;
+  /** Command that opens the hit. */
+  open: string;
+};
+
+const resultColumns: OutputColumn<SearchResult>[] = [
+  { header: 'Type', value: (row) => row.type },
+  { header: 'Title', value: (row) => row.title },
+  { header: 'Snippet', value: (row) => row.snippet },
+  { header: 'Open', value: (row) => row.open },
+];
+
+export function registerSearchCommand(program: Command): void {
+  requireSession(
+    program
+      .command('search')
+      .description('Search messages, pinboard posts and file names')
+      .argument('<query...>', 'Words to find; every word must match, prefixes count')
+      .option(
+        '-t, --type <types>',
+        `Comma-separated types to search: ${SEARCH_KINDS.join(', ')}`,
+        parseSearchKinds,
+      )
+      .option('-l, --limit <count>', 'Number of results to show', parsePositiveInteger, 20)
+      .option('--no-sync', 'Search the local index without fetching updates first')
+      .action(
+        async (
+          words: string[],
+          options: { type?: SearchDocumentKind[]; limit: number; sync: boolean },
+        ) => {
+          const { profile } = await resolveAppConfig();
+          const index = options.sync ? await updateIndex(profile) : await loadSearchIndex(profile);
+          const hits = searchIndex(index, words.join(' '), {
+            kinds: options.type,
+            limit: options.limit,
+          });
+          writeList(hits.map(toSearchResult), {
+            columns: resultColumns,
+            text: (rows) => renderResults(rows, hits, index),
+          });
+        },
+      ),
+  );
+}
+
+async function updateIndex(profile: string): Promise<SearchIndex> {
+  const spinner = startSpinner('Updating search index...');
+  const result = await syncSearchIndex(profile, {
+    onProgress: (label) => {
+      spinner.text = `${label}...`;
+    },
+  });
+  if (result.failures.length) {
+    spinner.warn(`${result.failures.join('\n')}\nSearching what was indexed before.`);
+  } else {
+    spinner.stop();
+  }
+  return result.index;
+}
+
+function toSearchResult(hit: SearchHit): SearchResult {
+  const { document } = hit;
+  return {
+    type: document.kind,
+    score: Math.round(hit.score * 100) / 100,
+    title: document.title,
+    author: document.author,
+    date: document.date,
+    snippet: hit.snippet,
+    thread_id: document.threadId,
+    message_id: document.messageId,
+    slug: document.slug,
+    path: document.path,
+    highlights: hit.highlights,
+    open: getOpenCommand(document),
+  };
+}
+
+function getOpenCommand(document: SearchHit['document']): string {
+  switch (document.kind) {
+    case 'message':
+      return `tmates chat show ${document.threadId}`;
+    case 'post':
+      return `tmates pinboard show ${document.slug}`;
+    case 'file':
+      return `tmates files download ${JSON.stringify(document.path)}`;
+  }
+}
+
+function renderResults(rows: SearchResult[], hits: SearchHit[], index: SearchIndex): string {
+  if (!rows.length) {
+    const hint = index.documents.length
+      ? 'No matches.'
+      : 'The search index is empty. Run the search without --no-sync to build it.';
+    return `${chalk.gray(hint)}\n`;
+  }
+  return rows
+    .map((row, position) => {
+      const details = [row.type, row.author, row.date ? formatDateTime(row.date) : null]
+        .filter(Boolean)
+        .join(', ');
+      let content = `${brandPrimary(`${position + 1}.`)} ${chalk.bold(row.title)} ${chalk.gray(`(${details})`)}\n`;
+      content += `   ${formatSnippet(hits[position])}\n`;
+      content += `   ${chalk.gray(`${describeSearchLocation(hits[position].document)} → ${row.open}`)}\n`;
+      return content;
+    })
+    .join('\n');
+}
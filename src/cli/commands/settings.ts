@@ -0,0 +1,109 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+
+import { fetchMobileSettings, updateMobileSettings } from '../../api/settings';
+import type { MobileSettings } from '../../api/settings';
+import {
+  MOBILE_SETTING_KEYS,
+  describeMobileSetting,
+  parseMobileSettingKey,
+  parseMobileSettingValue,
+} from '../user-settings';
+import type { MobileSettingKey } from '../user-settings';
+import { startSpinner, writeList, writeRecord } from '../output';
+import type { OutputColumn } from '../output';
+import { brandPrimary } from '../theme';
+import { requireSession } from './shared';
+
+type SettingRow = {
+  key: MobileSettingKey;
+  value: MobileSettings[MobileSettingKey];
+  description: string;
+};
+
+const settingColumns: OutputColumn<SettingRow>[] = [
+  { header: 'Key', value: (row) => row.key },
+  { header: 'Value', value: (row) => String(row.value) },
+  { header: 'Description', value: (row) => row.description },
+];
+
+const KEY_LIST = `One of: ${MOBILE_SETTING_KEYS.join(', ')}`;
+
+export function registerSettingsCommands(program: Command): void {
+  const settings = requireSession(
+    program
+      .command('settings')
+      .description('View and change your notification and app preferences'),
+  );
+
+  settings
+    .command('list')
+    .alias('ls')
+    .description('Show every preference')
+    .action(async () => {
+      const preferences = await fetchMobileSettings();
+      writeList(toRows(preferences), { columns: settingColumns, text: renderSettingList });
+    });
+
+  settings
+    .command('get')
+    .description('Print the value of a preference')
+    .argument('<key>', KEY_LIST)
+    .action(async (key: string) => {
+      const settingKey = parseMobileSettingKey(key);
+      const preferences = await fetchMobileSettings();
+      writeRecord(
+        { key: settingKey, value: preferences[settingKey] },
+        { text: (record) => `${String(record.value)}\n` },
+      );
+    });
+
+  settings
+    .command('set')
+    .description('Change a preference')
+    .argument('<key>', KEY_LIST)
+    .argument('<value>', 'true/false (on/off, yes/no) or, for theme_preference, system/light/dark')
+    .action(async (key: string, value: string) => {
+      const settingKey = parseMobileSettingKey(key);
+      const changes = parseMobileSettingValue(settingKey, value);
+      const spinner = startSpinner('Saving preference...');
+      let updated: MobileSettings;
+      try {
+        updated = await updateMobileSettings(changes);
+        spinner.stop();
+      } catch (error) {
+        spinner.fail('Failed to save preference.');
+        throw error;
+      }
+      writeRecord(
+        { key: settingKey, value: updated[settingKey] },
+        {
+          text: (record) => `Set ${chalk.bold(record.key)} to ${formatValue(record.value)}.\n`,
+        },
+      );
+    });
+}
+
+function toRows(preferences: MobileSettings): SettingRow[] {
+  return MOBILE_SETTING_KEYS.map((key) => ({
+    key,
+    value: preferences[key],
+    description: describeMobileSetting(key),
+  }));
+}
+
+function renderSettingList(rows: SettingRow[]): string {
+  const keyWidth = Math.max(...rows.map((row) => row.key.length));
+  let content = '';
+  rows.forEach((row) => {
+    content += `${row.key.padEnd(keyWidth)}  ${formatValue(row.value)} ${chalk.gray(`— ${row.description}`)}\n`;
+  });
+  return content;
+}
+
+function formatValue(value: MobileSettings[MobileSettingKey]): string {
+  if (typeof value === 'boolean') {
+    return value ? brandPrimary('Enabled') : chalk.gray('Disabled');
+  }
+  return String(value);
+}
@@ -0,0 +1,39 @@
+import { InvalidArgumentError } from 'commander';
+import type { Command } from 'commander';
+
+import { refreshSession } from '../../auth/supabase-auth';
+
+/**
+ * Restore the stored Supabase session before any action of the command (or its subcommands) runs.
+ */
+export function requireSession(command: Command): Command {
+  return command.hook('preAction', async () => {
+    await refreshSession();
+  });
+}
+
+export function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError(`Expected a positive integer, received "${value}".`);
+  }
+  return parsed;
+}
+
+/**
+ * Option parser for repeatable options such as `--attach a.csv --attach b.png`.
+ */
+export function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    return '';
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
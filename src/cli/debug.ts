@@ -0,0 +1,9 @@
+const debugEnabled = Boolean(
+  process.env.DEBUG?.split(',').some((entry) => entry.trim() === 'tmates-cli'),
+);
+
+export function debugLog(message: string): void {
+  if (debugEnabled) {
+    process.stderr.write(`[tmates-cli] ${message}\n`);
+  }
+}
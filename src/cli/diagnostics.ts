@@ -0,0 +1,419 @@
+import { promises as dns } from 'dns';
+import { promises as fs } from 'fs';
+import { connect } from 'net';
+
+import pkg from '../../package.json';
+import { ApiError, isAbortError } from '../api/http-client';
+import { fetchUserProfile } from '../api/profile';
+import {
+  getFreshAccessToken,
+  getStaticAccessToken,
+  readAccessTokenClaims,
+  refreshSession,
+} from '../auth/supabase-auth';
+import { resolveAppConfig } from '../config/app-config';
+import type { AppConfig, ConfigField } from '../config/app-config';
+import { resolveCredentialStore } from '../storage/credential-store';
+import {
+  getEncryptedSessionPath,
+  getSessionFilePath,
+  getSessionsDirectory,
+} from '../storage/paths';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail' | 'skip';
+
+export type DiagnosticCheck = {
+  check: string;
+  status: CheckStatus;
+  detail: string;
+  /** What to do about a `warn` or `fail`. */
+  fix?: string;
+};
+
+const NETWORK_TIMEOUT_MS = 5000;
+/** Past this the refresh margin no longer protects against a token expiring mid-request. */
+const MAX_CLOCK_SKEW_SECONDS = 30;
+
+const CONFIG_FIELDS: Array<{ field: ConfigField; label: string; key: string; env: string }> = [
+  { field: 'apiBaseUrl', label: 'API base URL', key: 'api-base-url', env: 'TMATES_API_BASE_URL' },
+  { field: 'supabaseUrl', label: 'Supabase URL', key: 'supabase-url', env: 'TMATES_SUPABASE_URL' },
+  {
+    field: 'supabaseAnonKey',
+    label: 'Supabase anon key',
+    key: 'supabase-anon-key',
+    env: 'TMATES_SUPABASE_ANON_KEY',
+  },
+];
+
+/**
+ * Run every check in order. Checks never throw; a check that cannot run because an earlier one
+ * failed reports `skip`.
+ */
+export async function runDiagnostics(
+  onProgress?: (check: string) => void,
+): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [];
+  const run = async (name: string, task: () => Promise<DiagnosticCheck | DiagnosticCheck[]>) => {
+    onProgress?.(name);
+    try {
+      const result = await task();
+      checks.push(...(Array.isArray(result) ? result : [result]));
+    } catch (error) {
+      checks.push({ check: name, status: 'fail', detail: describeError(error) });
+    }
+  };
+
+  await run('Node.js', async () => checkNodeVersion());
+  let config: AppConfig;
+  try {
+    config = await resolveAppConfig();
+  } catch (error) {
+    checks.push({ check: 'Configuration', status: 'fail', detail: describeError(error) });
+    return checks;
+  }
+  await run('Configuration', async () => checkConfiguration(config));
+  await run('Credential store', () => checkCredentialStore(config.profile));
+  await run('Session file', () => checkSessionFiles(config.profile));
+  for (const [name, url] of [
+    ['API reachable', config.apiBaseUrl],
+    ['Supabase reachable', config.supabaseUrl],
+  ] as const) {
+    await run(name, () => checkReachability(name, url));
+  }
+  await run('Clock skew', () => checkClockSkew(config));
+  await run('Access token', () => checkAccessToken());
+  await run('Profile round-trip', () => checkProfileRoundTrip(checks));
+  return checks;
+}
+
+function checkNodeVersion(): DiagnosticCheck {
+  const required = pkg.engines.node;
+  const current = process.versions.node;
+  const minimum = /^>=\s*(\d+)(?:\.(\d+))?(?:\.(\d+))?$/.exec(required.trim());
+  if (!minimum) {
+    return {
+      check: 'Node.js',
+      status: 'skip',
+      detail: `v${current}; cannot interpret "${required}"`,
+    };
+  }
+  const wanted = minimum.slice(1).map((part) => Number(part ?? 0));
+  const actual = current.split('.').map(Number);
+  const comparison = wanted.reduce(
+    (result, part, index) => result || Math.sign((actual[index] ?? 0) - part),
+    0,
+  );
+  return comparison >= 0
+    ? { check: 'Node.js', status: 'ok', detail: `v${current} (requires ${required})` }
+    : {
+        check: 'Node.js',
+        status: 'fail',
+        detail: `v${current} does not satisfy ${required}`,
+        fix: `Install Node.js ${required.replace('>=', '')} or newer.`,
+      };
+}
+
+function checkConfiguration(config: AppConfig): DiagnosticCheck[] {
+  return CONFIG_FIELDS.map(({ field, label, key, env }) => {
+    const source = config.sources[field];
+    if (!config[field]) {
+      return {
+        check: label,
+        status: getStaticAccessToken() && field !== 'apiBaseUrl' ? 'skip' : 'fail',
+        detail: 'not set',
+        fix: `Run \`tmates config set ${key} <value>\` or set ${env}.`,
+      };
+    }
+    const shown = field === 'supabaseAnonKey' ? 'set' : config[field];
+    const insecure = field !== 'supabaseAnonKey' && config[field].startsWith('http://');
+    const local = /^http:\/\/(localhost|127\.0\.0\.1|\[::1\])(:|\/|$)/.test(config[field]);
+    return insecure && !local
+      ? {
+          check: label,
+          status: 'warn',
+          detail: `${shown} (from ${source}) is not HTTPS`,
+          fix: `Use an https:// endpoint with \`tmates config set ${key} <url>\`.`,
+        }
+      : { check: label, status: 'ok', detail: `${shown} (from ${source})` };
+  });
+}
+
+async function checkCredentialStore(profile: string): Promise<DiagnosticCheck> {
+  if (process.env.TMATES_CLI_DISABLE_SESSION_CACHE === '1') {
+    return { check: 'Credential store', status: 'skip', detail: 'session caching is disabled' };
+  }
+  try {
+    const { store, source } = await resolveCredentialStore();
+    const detail = `${store.label} (${source === 'auto' ? 'detected' : source}) at ${store.describeLocation(profile)}`;
+    return store.name === 'plaintext'
+      ? {
+          check: 'Credential store',
+          status: 'warn',
+          detail,
+          fix: 'Run `tmates auth migrate-storage` to encrypt the stored session.',
+        }
+      : { check: 'Credential store', status: 'ok', detail };
+  } catch (error) {
+    return {
+      check: 'Credential store',
+      status: 'fail',
+      detail: describeError(error),
+      fix: 'Run `tmates auth migrate-storage --to encrypted-file`.',
+    };
+  }
+}
+
+/**
+ * Session files must only be readable by the owner, and their directory should not be listable by
+ * others either. A plaintext file next to another store is a leftover from before
+ * `auth migrate-storage`.
+ */
+async function checkSessionFiles(profile: string): Promise<DiagnosticCheck> {
+  const directory = getSessionsDirectory();
+  const problems: string[] = [];
+  const fixes: string[] = [];
+
+  const found: string[] = [];
+  for (const filePath of [getEncryptedSessionPath(profile), getSessionFilePath(profile)]) {
+    const mode = await readMode(filePath);
+    if (mode === null) {
+      continue;
+    }
+    found.push(filePath);
+    if (mode & 0o077) {
+      problems.push(`${filePath} is mode ${formatMode(mode)}`);
+      fixes.push(`chmod 600 ${filePath}`);
+    }
+  }
+
+  if (problems.length) {
+    return {
+      check: 'Session file',
+      status: 'fail',
+      detail: `${problems.join('; ')}; other users can read it`,
+      fix: `Run \`${fixes.join(' && ')}\`.`,
+    };
+  }
+  if (!found.length) {
+    return { check: 'Session file', status: 'skip', detail: 'no session file for this profile' };
+  }
+  const directoryMode = await readMode(directory);
+  if (directoryMode !== null && directoryMode & 0o077) {
+    return {
+      check: 'Session file',
+      status: 'warn',
+      detail: `${directory} is mode ${formatMode(directoryMode)}; other users can list it`,
+      fix: `Run \`chmod 700 ${directory}\`.`,
+    };
+  }
+  const legacy = found.includes(getSessionFilePath(profile));
+  let storeName: string | null = null;
+  try {
+    storeName = (await resolveCredentialStore()).store.name;
+  } catch {
+    // Reported by the credential store check.
+  }
+  if (legacy && storeName && storeName !== 'plaintext') {
+    return {
+      check: 'Session file',
+      status: 'warn',
+      detail: `plaintext session left in ${getSessionFilePath(profile)}`,
+      fix: 'Run `tmates auth migrate-storage` to move it into the credential store.',
+    };
+  }
+  return { check: 'Session file', status: 'ok', detail: `${found.join(', ')} (owner only)` };
+}
+
+async function checkReachability(check: string, url: string): Promise<DiagnosticCheck> {
+  if (!url) {
+    return { check, status: 'skip', detail: 'no URL configured' };
+  }
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(target.port) || (target.protocol === 'https:' ? 443 : 80);
+
+  let address: string;
+  try {
+    ({ address } = await dns.lookup(host));
+  } catch (error) {
+    return {
+      check,
+      status: 'fail',
+      detail: `DNS lookup for ${host} failed: ${describeError(error)}`,
+      fix: 'Check the URL for typos and your DNS or VPN settings.',
+    };
+  }
+
+  const started = Date.now();
+  try {
+    await connectTcp(address, port);
+  } catch (error) {
+    return {
+      check,
+      status: 'fail',
+      detail: `${host} (${address}) port ${port}: ${describeError(error)}`,
+      fix: 'Check your network, proxy or firewall, and that the service is up.',
+    };
+  }
+  return {
+    check,
+    status: 'ok',
+    detail: `${host} (${address}:${port}) connected in ${Date.now() - started} ms`,
+  };
+}
+
+/**
+ * Compare the local clock with the `Date` header of the API (or Supabase). Token expiry is judged by
+ * the local clock, so a large skew makes tokens look valid after they expired or vice versa.
+ */
+async function checkClockSkew(config: AppConfig): Promise<DiagnosticCheck> {
+  const url = config.apiBaseUrl || config.supabaseUrl;
+  if (!url) {
+    return { check: 'Clock skew', status: 'skip', detail: 'no URL configured' };
+  }
+  const sentAt = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'HEAD',
+      signal: AbortSignal.timeout(NETWORK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return { check: 'Clock skew', status: 'skip', detail: `${url}: ${describeError(error)}` };
+  }
+  const receivedAt = Date.now();
+  const header = response.headers.get('date');
+  const serverTime = header ? Date.parse(header) : Number.NaN;
+  if (Number.isNaN(serverTime)) {
+    return { check: 'Clock skew', status: 'skip', detail: 'the server sent no Date header' };
+  }
+  // The Date header has second precision, so only whole seconds of skew are meaningful.
+  const skew = Math.round(((sentAt + receivedAt) / 2 - serverTime) / 1000);
+  const detail =
+    Math.abs(skew) <= 1
+      ? 'in sync with the server'
+      : `local clock is ${Math.abs(skew)} s ${skew > 0 ? 'ahead of' : 'behind'} the server`;
+  return Math.abs(skew) > MAX_CLOCK_SKEW_SECONDS
+    ? {
+        check: 'Clock skew',
+        status: 'warn',
+        detail,
+        fix: 'Enable time synchronisation (NTP) on this machine.',
+      }
+    : { check: 'Clock skew', status: 'ok', detail };
+}
+
+async function checkAccessToken(): Promise<DiagnosticCheck> {
+  const staticToken = getStaticAccessToken();
+  if (!staticToken && !(await refreshSession())) {
+    return {
+      check: 'Access token',
+      status: 'fail',
+      detail: 'not signed in',
+      fix: 'Run `tmates login`, or pass --token / TMATES_TOKEN.',
+    };
+  }
+  const token = await getFreshAccessToken();
+  const expiresAt = token ? readAccessTokenClaims(token)?.exp : undefined;
+  const origin = staticToken ? '--token / TMATES_TOKEN' : 'stored session';
+  if (!expiresAt) {
+    return { check: 'Access token', status: 'ok', detail: `from ${origin}, no expiry claim` };
+  }
+  const remaining = Math.round(expiresAt - Date.now() / 1000);
+  if (remaining <= 0) {
+    return {
+      check: 'Access token',
+      status: 'fail',
+      detail: `from ${origin}, expired ${formatDuration(-remaining)} ago`,
+      fix: staticToken ? 'Supply a fresh token.' : 'Run `tmates login`.',
+    };
+  }
+  return {
+    check: 'Access token',
+    status: staticToken && remaining < 300 ? 'warn' : 'ok',
+    detail: `from ${origin}, expires in ${formatDuration(remaining)}`,
+    fix:
+      staticToken && remaining < 300 ? 'Supply a token that lives longer than the job.' : undefined,
+  };
+}
+
+async function checkProfileRoundTrip(previous: DiagnosticCheck[]): Promise<DiagnosticCheck> {
+  const blocker = previous.find(
+    (entry) =>
+      entry.status === 'fail' &&
+      ['API base URL', 'API reachable', 'Access token'].includes(entry.check),
+  );
+  if (blocker) {
+    return { check: 'Profile round-trip', status: 'skip', detail: `${blocker.check} failed` };
+  }
+  const started = Date.now();
+  try {
+    const profile = await fetchUserProfile({ signal: AbortSignal.timeout(NETWORK_TIMEOUT_MS * 2) });
+    return {
+      check: 'Profile round-trip',
+      status: 'ok',
+      detail: `GET /profile as ${profile.email ?? profile.id} in ${Date.now() - started} ms`,
+    };
+  } catch (error) {
+    const unauthorized = error instanceof ApiError && error.status === 401;
+    return {
+      check: 'Profile round-trip',
+      status: 'fail',
+      detail: `GET /profile: ${describeError(error)}`,
+      fix: unauthorized
+        ? 'Run `tmates login` to get a new session.'
+        : 'Check the API base URL and the service status.',
+    };
+  }
+}
+
+async function readMode(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mode & 0o777;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function formatMode(mode: number): string {
+  return mode.toString(8).padStart(4, '0');
+}
+
+function connectTcp(host: string, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host, port, timeout: NETWORK_TIMEOUT_MS });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`no answer within ${NETWORK_TIMEOUT_MS / 1000} s`));
+    });
+    socket.once('error', reject);
+  });
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function describeError(error: unknown): string {
+  if (isAbortError(error) || (error instanceof Error && error.name === 'TimeoutError')) {
+    return 'timed out';
+  }
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return code && !error.message.includes(code) ? `${error.message} (${code})` : error.message;
+  }
+  return String(error);
+}
@@ -0,0 +1,229 @@
+import chalk from 'chalk';
+import { InvalidArgumentError } from 'commander';
+
+import type { FileEntry } from '../api/files';
+
+export type FileSortKey = 'name' | 'size' | 'modified';
+
+export const FILE_SORT_KEYS: FileSortKey[] = ['name', 'size', 'modified'];
+
+export type FileQuery = {
+  /** Only include files below this folder (relative, without leading or trailing slashes). */
+  directory?: string;
+  /** Glob (`*.csv`, `reports/**`, `*.{png,jpg}`), extension (`.csv`) or plain substring. */
+  filter?: string;
+  sort?: FileSortKey;
+  reverse?: boolean;
+};
+
+export function parseFileSortKey(value: string): FileSortKey {
+  const normalized = value.trim().toLowerCase();
+  if (!FILE_SORT_KEYS.includes(normalized as FileSortKey)) {
+    throw new InvalidArgumentError(`Expected one of ${FILE_SORT_KEYS.join(', ')}.`);
+  }
+  return normalized as FileSortKey;
+}
+
+export function normalizeDirectory(value: string | undefined): string {
+  return (value ?? '')
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Resolve `cd`-style input (`..`, `/`, absolute or relative folder names) against `current`.
+ */
+export function changeDirectory(current: string, target: string): string {
+  const trimmed = target.trim();
+  const segments = trimmed.startsWith('/') ? [] : normalizeDirectory(current).split('/');
+  normalizeDirectory(trimmed)
+    .split('/')
+    .forEach((segment) => {
+      if (segment === '..') {
+        segments.pop();
+      } else if (segment && segment !== '.') {
+        segments.push(segment);
+      }
+    });
+  return segments.filter(Boolean).join('/');
+}
+
+/**
+ * True when the query can only be answered from the complete listing rather than a single page.
+ */
+export function requiresFullListing(query: FileQuery): boolean {
+  return Boolean(query.directory || query.filter || query.sort);
+}
+
+export function applyFileQuery(files: FileEntry[], query: FileQuery): FileEntry[] {
+  const directory = normalizeDirectory(query.directory);
+  let result = directory ? files.filter((file) => isInDirectory(file, directory)) : files;
+  if (query.filter) {
+    const matches = createFileMatcher(query.filter);
+    result = result.filter(matches);
+  }
+  return query.sort ? sortFiles(result, query.sort, query.reverse) : result;
+}
+
+export function isInDirectory(file: FileEntry, directory: string): boolean {
+  return !directory || file.relative_path.startsWith(`${directory}/`);
+}
+
+export function createFileMatcher(pattern: string): (file: FileEntry) => boolean {
+  const trimmed = pattern.trim();
+  if (!/[*?{]/.test(trimmed)) {
+    const needle = trimmed.toLowerCase();
+    if (needle.startsWith('.')) {
+      return (file) => file.name.toLowerCase().endsWith(needle);
+    }
+    return (file) => file.relative_path.toLowerCase().includes(needle);
+  }
+  const expression = globToRegExp(trimmed);
+  const matchPath = trimmed.includes('/');
+  return (file) => expression.test(matchPath ? file.relative_path : file.name);
+}
+
+/**
+ * Sort by name (A–Z), size (largest first) or modification time (newest first); `reverse` flips it.
+ */
+export function sortFiles(files: FileEntry[], key: FileSortKey, reverse = false): FileEntry[] {
+  const direction = reverse ? -1 : 1;
+  const compare = (a: FileEntry, b: FileEntry): number => {
+    switch (key) {
+      case 'name':
+        return compareText(a.name, b.name) || compareText(a.relative_path, b.relative_path);
+      case 'size':
+        return b.size - a.size;
+      case 'modified':
+        return getModifiedTime(b) - getModifiedTime(a);
+    }
+  };
+  return [...files].sort((a, b) => direction * compare(a, b));
+}
+
+/**
+ * Order files the way the tree view prints them: depth-first, folders before files, A–Z. With
+ * `keepOrder`, files inside the same folder stay in their incoming order (e.g. after {@link sortFiles}).
+ */
+export function sortFilesForTree(files: FileEntry[], keepOrder = false): FileEntry[] {
+  return [...files].sort((a, b) => {
+    const left = a.relative_path.split('/');
+    const right = b.relative_path.split('/');
+    for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+      if (left[index] === right[index]) {
+        continue;
+      }
+      const leftIsFile = index === left.length - 1;
+      const rightIsFile = index === right.length - 1;
+      if (leftIsFile !== rightIsFile) {
+        return leftIsFile ? 1 : -1;
+      }
+      if (leftIsFile && keepOrder) {
+        return 0;
+      }
+      return compareText(left[index], right[index]);
+    }
+    return left.length - right.length;
+  });
+}
+
+/**
+ * Render `files` as an indented folder tree relative to `directory`. Files are printed in the order
+ * given (use {@link sortFilesForTree}); `label` renders each file line.
+ */
+export function renderFileTree(
+  files: FileEntry[],
+  directory: string,
+  label: (file: FileEntry, index: number) => string,
+): string {
+  const base = normalizeDirectory(directory);
+  const folderStats = new Map<string, { count: number; size: number }>();
+  files.forEach((file) => {
+    const segments = relativeTo(file, base).split('/').slice(0, -1);
+    segments.forEach((_segment, index) => {
+      const key = segments.slice(0, index + 1).join('/');
+      const stats = folderStats.get(key) ?? { count: 0, size: 0 };
+      stats.count += 1;
+      stats.size += file.size;
+      folderStats.set(key, stats);
+    });
+  });
+
+  let content = '';
+  let openFolders: string[] = [];
+  files.forEach((file, index) => {
+    const segments = relativeTo(file, base).split('/');
+    const folders = segments.slice(0, -1);
+    let shared = 0;
+    while (shared < folders.length && folders[shared] === openFolders[shared]) {
+      shared += 1;
+    }
+    for (let depth = shared; depth < folders.length; depth += 1) {
+      const stats = folderStats.get(folders.slice(0, depth + 1).join('/'));
+      const summary = stats
+        ? chalk.gray(` (${stats.count} ${stats.count === 1 ? 'file' : 'files'})`)
+        : '';
+      content += `${'  '.repeat(depth)}${chalk.bold(`${folders[depth]}/`)}${summary}\n`;
+    }
+    openFolders = folders;
+    content += `${'  '.repeat(folders.length)}${label(file, index)}\n`;
+  });
+  return content;
+}
+
+export function getFileName(file: FileEntry): string {
+  return file.name || file.relative_path.split('/').pop() || file.relative_path;
+}
+
+export function relativeTo(file: FileEntry, directory: string): string {
+  return directory && file.relative_path.startsWith(`${directory}/`)
+    ? file.relative_path.slice(directory.length + 1)
+    : file.relative_path;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        index += 1;
+        if (pattern[index + 1] === '/') {
+          index += 1;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', index) > index) {
+      const end = pattern.indexOf('}', index);
+      source += `(?:${pattern
+        .slice(index + 1, end)
+        .split(',')
+        .map(escapeRegExp)
+        .join('|')})`;
+      index = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compareText(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function getModifiedTime(file: FileEntry): number {
+  const time = new Date(file.modified_iso ?? file.modified).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
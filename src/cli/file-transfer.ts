@@ -0,0 +1,148 @@
+import { spawn } from 'child_process';
+import { createWriteStream } from 'fs';
+import { mkdir, readFile, rename, rm, stat } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+
+import type { LocalUpload } from '../api/files';
+import { detectMimeType, readImageDimensions } from './media';
+import type { ImageDimensions } from './media';
+
+export type PreparedUpload = LocalUpload & {
+  path: string;
+  size: number;
+  mimeType: string;
+  /** Pixel size for PNG, GIF, JPEG, WebP and BMP images. */
+  dimensions: ImageDimensions | null;
+};
+
+export type DownloadProgress = {
+  received: number;
+  /** From `Content-Length`; null when the server does not announce it. */
+  total: number | null;
+};
+
+export function resolveLocalPath(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed === '~' || trimmed.startsWith('~/')) {
+    return path.join(homedir(), trimmed.slice(1));
+  }
+  return path.resolve(trimmed);
+}
+
+export async function prepareUploads(paths: string[]): Promise<PreparedUpload[]> {
+  return Promise.all(
+    paths.map(async (input) => {
+      const resolved = resolveLocalPath(input);
+      const info = await stat(resolved).catch(() => null);
+      if (!info) {
+        throw new Error(`File not found: ${input}`);
+      }
+      if (!info.isFile()) {
+        throw new Error(`Not a regular file: ${input}`);
+      }
+      const buffer = await readFile(resolved);
+      const name = path.basename(resolved);
+      const mimeType = detectMimeType(name);
+      return {
+        name,
+        data: new Blob([buffer], { type: mimeType }),
+        path: resolved,
+        size: info.size,
+        mimeType,
+        dimensions: mimeType.startsWith('image/') ? readImageDimensions(buffer) : null,
+      };
+    }),
+  );
+}
+
+/**
+ * Work out where a download should be written: `destination` may be omitted (current directory),
+ * an existing directory, a path ending in a separator, or a full file path.
+ */
+export async function resolveDownloadTarget(name: string, destination?: string): Promise<string> {
+  if (!destination) {
+    return path.resolve(name);
+  }
+  const resolved = resolveLocalPath(destination);
+  if (/[\\/]$/.test(destination)) {
+    return path.join(resolved, name);
+  }
+  const info = await stat(resolved).catch(() => null);
+  return info?.isDirectory() ? path.join(resolved, name) : resolved;
+}
+
+export async function pathExists(target: string): Promise<boolean> {
+  return Boolean(await stat(target).catch(() => null));
+}
+
+/**
+ * Stream a download response into `destination`. The body is written to a `.part` file first so an
+ * interrupted transfer never leaves a truncated file behind. Resolves with the number of bytes.
+ */
+export async function saveDownload(
+  response: Response,
+  destination: string,
+  onProgress?: (progress: DownloadProgress) => void,
+): Promise<number> {
+  if (!response.body) {
+    throw new Error('The download response has no body.');
+  }
+  const lengthHeader = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(lengthHeader) && lengthHeader > 0 ? lengthHeader : null;
+  let received = 0;
+
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      onProgress?.({ received, total });
+      callback(null, chunk);
+    },
+  });
+
+  await mkdir(path.dirname(destination), { recursive: true });
+  const partial = `${destination}.part`;
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      counter,
+      createWriteStream(partial),
+    );
+    await rename(partial, destination);
+  } catch (error) {
+    await rm(partial, { force: true });
+    throw error;
+  }
+  return received;
+}
+
+/**
+ * Open a file or URL with the platform's default handler without waiting for it to exit.
+ */
+export function openExternal(target: string): void {
+  const [command, args] =
+    process.platform === 'darwin'
+      ? ['open', [target]]
+      : process.platform === 'win32'
+        ? ['cmd', ['/c', 'start', '""', target]]
+        : ['xdg-open', [target]];
+  const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+  child.on('error', () => undefined);
+  child.unref();
+}
+
+/**
+ * False where nothing could be shown to the user: over SSH, or on Linux without a graphical session.
+ */
+export function canOpenExternal(): boolean {
+  if (process.env.SSH_CONNECTION || process.env.SSH_TTY) {
+    return false;
+  }
+  if (process.platform === 'linux') {
+    return Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+  }
+  return true;
+}
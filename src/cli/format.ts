@@ -0,0 +1,240 @@
+import chalk from 'chalk';
+
+import type { ChatMessage, ChatMessageAttachment } from '../api/messages';
+import type { PinboardPost } from '../api/pinboard';
+import type { CacheInfo } from '../api/response-cache';
+import type { AgentMetadata } from '../api/teammates';
+import { describeAgentAccess } from './agent-access';
+import { formatPriority } from './pinboard-query';
+import type { AgentAccessState } from './agent-access';
+import { renderMarkdown } from './markdown';
+import { accentBold, brandPrimary, brandPrimaryBold } from './theme';
+
+export function formatDateTime(input: string): string {
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    return input;
+  }
+  return date.toLocaleString();
+}
+
+/**
+ * How long ago `date` was, coarsely: `just now`, `5m ago`, `3h ago`, `2d ago`.
+ */
+export function formatAge(date: Date, now = Date.now()): string {
+  const minutes = Math.floor((now - date.getTime()) / 60_000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+export function describeCacheInfo(info: CacheInfo): string {
+  const age = `cached ${formatAge(info.savedAt)}`;
+  switch (info.reason) {
+    case 'offline':
+      return `Offline: showing data ${age}.`;
+    case 'unreachable':
+      return `The API could not be reached: showing data ${age}.`;
+    case 'cancelled':
+      return `Refresh cancelled: showing data ${age}.`;
+  }
+}
+
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return text.slice(0, maxLength - 1) + '…';
+}
+
+export function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+export function formatChatMessage(message: ChatMessage): string {
+  const author = message.author || message.role;
+  const timestamp = message.created_at ? formatDateTime(message.created_at) : 'Unknown';
+  const header = `${brandPrimaryBold(author)} ${chalk.gray(`(${timestamp})`)}:`;
+  let content = `${header}\n${renderMarkdown(message.content.trim())}`;
+  if (message.attachments?.length) {
+    message.attachments.forEach((attachment: ChatMessageAttachment) => {
+      content += `   📎 ${describeAttachment(attachment)}\n`;
+    });
+  }
+  content += '\n';
+  return content;
+}
+
+/**
+ * Full pinboard post: title, byline, rendered Markdown body, attachments and sources.
+ */
+export function formatPinboardPost(post: PinboardPost): string {
+  let content = `${chalk.bold(post.title)}\n`;
+  if (post.author_display) {
+    content += chalk.gray(`By ${post.author_display}`) + '\n';
+  }
+  if (post.created_at) {
+    const priority = formatPriority(post.priority);
+    content +=
+      chalk.gray(formatDateTime(post.created_at)) + (priority ? ` ${priority}` : '') + '\n';
+  }
+  content += '\n';
+  const body = post.content_md ?? post.excerpt;
+  content += body?.trim() ? renderMarkdown(body.trim()) : `${chalk.gray('(no content)')}\n`;
+  if (post.attachments?.length) {
+    content += '\nAttachments:\n';
+    post.attachments.forEach((attachment, index) => {
+      content += `  ${index + 1}. ${attachment.label ?? attachment.url} → ${attachment.url}\n`;
+    });
+  }
+  if (post.sources?.length) {
+    content += '\nSources:\n';
+    post.sources.forEach((source, index) => {
+      content += `  ${index + 1}. ${source.label ?? source.url} → ${source.url}\n`;
+    });
+  }
+  return content;
+}
+
+/**
+ * Everything known about an agent: status, role and category, capabilities, tools, docs, links and
+ * the organization install. The name is shown in the agent's branding colour.
+ */
+export function formatAgentDetail(agent: AgentMetadata, access?: AgentAccessState): string {
+  const name = accentBold(agent.branding?.color ?? agent.color)(agent.name || agent.key);
+  const icon = agent.icon ? `${agent.icon} ` : '';
+  let content = `${icon}${name} ${chalk.gray(`(${agent.key})`)}\n`;
+  const status = [
+    agent.hired ? brandPrimary('Hired') : chalk.gray('Not hired'),
+    agent.can_use ? brandPrimary('Can use') : chalk.yellow('Cannot use'),
+  ];
+  content += `${status.join(chalk.gray(' · '))}\n`;
+  const reason = access ? describeAgentAccess(agent, access) : null;
+  if (reason) {
+    content += `${chalk.yellow(reason)}\n`;
+  }
+  if (agent.description) {
+    content += `\n${agent.description}\n`;
+  }
+
+  const details: Array<[string, string | null | undefined]> = [
+    ['Role', agent.role],
+    ['Category', agent.category],
+    ['Details', agent.detail_url],
+    ['Settings', agent.settings_url],
+    ['Avatar', agent.branding?.avatar_url],
+  ];
+  const shown = details.filter(([, value]) => value);
+  if (shown.length) {
+    content += '\n';
+    shown.forEach(([label, value]) => {
+      content += `${chalk.gray(`${label}:`.padEnd(10))}${value}\n`;
+    });
+  }
+
+  if (agent.capabilities?.length) {
+    content += `\n${chalk.bold('Capabilities')}\n`;
+    agent.capabilities.forEach((capability) => {
+      content += `  • ${capability}\n`;
+    });
+  }
+
+  const tools = describeTools(agent.tools);
+  if (tools.length) {
+    content += `\n${chalk.bold('Tools')}\n`;
+    tools.forEach((tool) => {
+      content += `  • ${tool}\n`;
+    });
+  }
+
+  const organization = agent.organization_agent;
+  if (organization) {
+    content += `\n${chalk.bold('Organization install')}\n`;
+    const rows: Array<[string, string | undefined]> = [
+      ['Name', organization.name],
+      ['Type', organization.agent_type],
+      ['ID', organization.id],
+      ['Org', organization.organization_id],
+      ['Config', organization.config ? Object.keys(organization.config).join(', ') : undefined],
+    ];
+    rows
+      .filter(([, value]) => value)
+      .forEach(([label, value]) => {
+        content += `  ${chalk.gray(`${label}:`.padEnd(8))}${value}\n`;
+      });
+    if (organization.description) {
+      content += `  ${chalk.gray(organization.description)}\n`;
+    }
+  }
+
+  if (agent.docs?.trim()) {
+    const docs = agent.docs.trim();
+    content += `\n${chalk.bold('Docs')}\n`;
+    content += /^https?:\/\/\S+$/.test(docs) ? `${docs}\n` : renderMarkdown(docs);
+  }
+  return content;
+}
+
+/**
+ * `AgentMetadata.tools` is free-form: a list of names, a list of `{ name, description }` objects or
+ * a map from name to description.
+ */
+function describeTools(tools: unknown): string[] {
+  const describe = (name: unknown, description: unknown): string =>
+    typeof description === 'string' && description
+      ? `${String(name)} ${chalk.gray(`— ${description}`)}`
+      : String(name);
+  if (Array.isArray(tools)) {
+    return tools.map((tool: unknown) => {
+      if (tool && typeof tool === 'object') {
+        const entry = tool as Record<string, unknown>;
+        return describe(
+          entry.name ?? entry.key ?? entry.id ?? JSON.stringify(tool),
+          entry.description,
+        );
+      }
+      return String(tool);
+    });
+  }
+  if (tools && typeof tools === 'object') {
+    return Object.entries(tools as Record<string, unknown>).map(([name, value]) =>
+      describe(
+        name,
+        value && typeof value === 'object' ? (value as Record<string, unknown>).description : value,
+      ),
+    );
+  }
+  return typeof tools === 'string' && tools ? [tools] : [];
+}
+
+/**
+ * One-line summary of an attachment, e.g. `chart.png (image/png, 48.2 KB, 1280×720)`.
+ */
+export function describeAttachment(attachment: ChatMessageAttachment): string {
+  const details = [
+    attachment.type,
+    typeof attachment.size_bytes === 'number' ? formatBytes(attachment.size_bytes) : null,
+    attachment.width && attachment.height ? `${attachment.width}×${attachment.height}` : null,
+  ].filter(Boolean);
+  const name = attachment.name ?? attachment.uri;
+  return details.length ? `${name} (${details.join(', ')})` : name;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
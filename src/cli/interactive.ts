@@ -1,17 +1,33 @@
 import readline from 'readline';
+import { mkdtemp } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { stdin as input, stdout as output } from 'process';
 import chalk from 'chalk';
 import ora from 'ora';
 import type { Session } from '@supabase/supabase-js';
 
 import pkg from '../../package.json';
-import { getActiveSession, refreshSession, sendOtp, verifyOtp } from '../auth/supabase-auth';
+import {
+  getActiveSession,
+  getStaticAccessToken,
+  refreshSession,
+  sendOtp,
+  setReauthenticateHandler,
+  verifyOtp,
+} from '../auth/supabase-auth';
 import { fetchPinboardPosts, PinboardPost, fetchPinboardPost } from '../api/pinboard';
-import { AgentMetadata, fetchAgentsMetadata, manageAgent } from '../api/teammates';
+import {
+  AgentMetadata,
+  AgentsMetadataResponse,
+  fetchAgentsMetadata,
+  manageAgent,
+} from '../api/teammates';
 import {
   ChatMessage,
-  ChatThreadSummary,
   ChatMessageAttachment,
+  ChatThread,
+  ChatThreadSummary,
   clearChatHistory,
   createChatThread,
   deleteChatThread,
@@ -19,23 +35,83 @@ import {
   fetchChatThreads,
   sendChatMessage,
 } from '../api/messages';
-import { fetchFiles, FileListing } from '../api/files';
-import { fetchUserProfile } from '../api/profile';
-import { fetchMobileSettings } from '../api/settings';
-import { formatApiError } from '../api/http-client';
+import { deleteFile, downloadFile, fetchAllFiles, fetchFiles, uploadFiles } from '../api/files';
+import type { FileEntry } from '../api/files';
+import { fetchUserProfile, updateUserProfile } from '../api/profile';
+import type { UpdateUserProfileInput, UserProfile } from '../api/profile';
+import { fetchMobileSettings, updateMobileSettings } from '../api/settings';
+import type { MobileSettings, UpdateMobileSettingsInput } from '../api/settings';
+import { formatApiError, isAbortError } from '../api/http-client';
+import { getCacheInfo, setStaleDataNotifier } from '../api/response-cache';
+import type { CacheInfo, CachedCallOptions } from '../api/response-cache';
 import { promptForEmail, promptForOtp } from './prompts';
 import { brandPrimary, brandPrimaryBold } from './theme';
 import { toolbar } from './layout';
-
-const debugEnabled = Boolean(
-  process.env.DEBUG?.split(',').some((entry) => entry.trim() === 'tmates-cli'),
-);
-
-function debugLog(message: string): void {
-  if (debugEnabled) {
-    process.stderr.write(`[tmates-cli] ${message}\n`);
-  }
-}
+import { debugLog } from './debug';
+import { resolveAppConfig } from '../config/app-config';
+import { isOfflineMode } from '../config/environment';
+import { unlockSessionStore } from '../storage/session-store';
+import { recordPostsSeen } from '../storage/pinboard-state-store';
+import type { PinboardReadStatus } from '../storage/pinboard-state-store';
+import {
+  describeAttachment,
+  describeCacheInfo,
+  describeError,
+  formatAgentDetail,
+  formatBytes,
+  formatChatMessage,
+  formatAge,
+  formatDateTime,
+  formatPinboardPost,
+  truncate,
+} from './format';
+import {
+  collectThreadAttachments,
+  downloadAttachment,
+  getAttachmentName,
+  renderAttachmentPreview,
+  uploadAttachments,
+} from './attachments';
+import type { ThreadAttachment } from './attachments';
+import {
+  MOBILE_SETTING_KEYS,
+  nextMobileSettingValue,
+  parseMobileSettingValue,
+  toUserProfileChanges,
+} from './user-settings';
+import {
+  assertAgentUsable,
+  describeAgentAccess,
+  getAgentAccess,
+  groupAgentsByAccess,
+} from './agent-access';
+import type { AgentAccessGroup, AgentFilter } from './agent-access';
+import {
+  openExternal,
+  pathExists,
+  prepareUploads,
+  resolveDownloadTarget,
+  saveDownload,
+} from './file-transfer';
+import {
+  FILE_SORT_KEYS,
+  applyFileQuery,
+  changeDirectory,
+  getFileName,
+  isInDirectory,
+  normalizeDirectory,
+  relativeTo,
+  renderFileTree,
+  requiresFullListing,
+  sortFilesForTree,
+} from './file-browser';
+import type { FileQuery, FileSortKey } from './file-browser';
+import { formatPriority, formatReadStatus, sortPinboardPosts } from './pinboard-query';
+import { describeSearchLocation, formatSnippet, searchIndex, syncSearchIndex } from './search';
+import type { SearchHit } from './search';
+import type { PinboardSortKey } from './pinboard-query';
+import { createChatUpdateTransport, getMessageKey } from './chat-updates';
+import type { ChatUpdateSubscription } from './chat-updates';
 
 function renderScreen(content: string, hint?: string, options?: { alignBottom?: boolean }): void {
   if (!output.isTTY && hint && hint.trim().length > 0) {
@@ -47,11 +123,62 @@ function renderScreen(content: string, hint?: string, options?: { alignBottom?:
   toolbar.renderContent(content, options);
 }
 
+/**
+ * Report a screen that failed to load. A request cancelled from the spinner is not a failure.
+ */
+function showLoadError(error: unknown, message: string, hint: string): void {
+  toolbar.showError(isAbortError(error) ? 'Cancelled' : message);
+  renderScreen(formatApiError(error) + '\n', hint);
+}
+
+/**
+ * Load a screen's data behind the spinner. A cached copy goes to `preview` first, so the screen shows
+ * it straight away, marked stale, while the API is asked for a fresh one; any key stops waiting and
+ * keeps the cached copy. `notice` marks data that came from the cache.
+ */
+async function loadScreenData<T extends object>(
+  label: string,
+  load: (options: CachedCallOptions<T>) => Promise<T>,
+  preview?: (cached: T, notice: string) => void,
+): Promise<{ data: T; notice: string }> {
+  const data = await toolbar.runWithSpinner(label, (signal) =>
+    load({
+      signal,
+      onCached:
+        preview &&
+        ((cached, savedAt) =>
+          preview(
+            cached,
+            formatStaleNotice(`Cached ${formatAge(savedAt)}, refreshing; any key shows this copy.`),
+          )),
+    }),
+  );
+  const info = getCacheInfo(data);
+  return { data, notice: info ? formatStaleNotice(describeCacheInfo(info)) : '' };
+}
+
+function formatStaleNotice(text: string): string {
+  return `${chalk.yellow('[stale]')} ${chalk.gray(text)}`;
+}
+
 export async function launchInteractiveCli(): Promise<void> {
+  if (getStaticAccessToken()) {
+    throw new Error(
+      'The interactive CLI needs a signed-in session; --token and TMATES_TOKEN only apply to commands. Run `tmates login` first.',
+    );
+  }
+  if (process.env.TMATES_CLI_DISABLE_SESSION_CACHE !== '1') {
+    // An encrypted session store asks for its passphrase before the toolbar takes over the screen.
+    await unlockSessionStore((await resolveAppConfig()).profile, true);
+  }
+
+  // Screens mark cached data themselves instead of printing a warning below the toolbar.
+  setStaleDataNotifier(null);
+
   // Initialize the fixed bottom toolbar
   toolbar.init();
 
-  const session = await ensureInteractiveSession();
+  let session = await ensureInteractiveSession();
   if (!session) {
     toolbar.renderContent(
       `${chalk.yellow('Unable to continue without signing in.')} Run ${chalk.bold(
@@ -62,6 +189,18 @@ export async function launchInteractiveCli(): Promise<void> {
     return;
   }
 
+  // When the session can no longer be refreshed, sign in again inline; the request that needed it
+  // is then replayed and the current screen carries on.
+  setReauthenticateHandler(async () => {
+    const renewed = await runInlineLogin(
+      `${chalk.yellow('Your session has expired.')} Sign in again to pick up where you left off.`,
+    );
+    if (renewed) {
+      session = renewed;
+    }
+    return renewed;
+  });
+
   const stack: ScreenState[] = [];
   let current: ScreenState = { type: 'home', session };
   let quit = false;
@@ -99,16 +238,28 @@ export async function launchInteractiveCli(): Promise<void> {
     }
   }
 
+  setReauthenticateHandler(null);
   toolbar.cleanup();
   output.write('Goodbye!\n');
 }
 
+const REPLY_SPINNER_TIMEOUT_MS = 60000;
+const PINBOARD_PAGE_SIZE = 10;
+const SEARCH_RESULT_LIMIT = 30;
+
 type ScreenState =
   | { type: 'home'; session: Session }
-  | { type: 'pinboard'; limit: number }
+  | {
+      type: 'pinboard';
+      limit: number;
+      sort?: PinboardSortKey;
+      /** Status of each post when first listed during this visit, so markers survive re-renders. */
+      readStatus?: Record<string, PinboardReadStatus>;
+    }
   | { type: 'pinboard-detail'; post: PinboardPost }
-  | { type: 'teammates' }
-  | { type: 'messages' }
+  | { type: 'teammates'; filter?: AgentFilter }
+  | { type: 'teammate-detail'; agentKey: string; notice?: string }
+  | { type: 'messages'; notice?: string }
   | {
       type: 'message-thread';
       threadId: string;
@@ -116,9 +267,19 @@ type ScreenState =
       messages?: ChatMessage[];
       totalMessages?: number;
       needsRefresh?: boolean;
+      /** Message to mark when the thread opens, e.g. a search hit. */
+      focusMessageId?: string;
+    }
+  | {
+      type: 'files';
+      limit: number;
+      page?: number;
+      query?: FileQuery;
+      view?: 'list' | 'tree';
+      cache?: { files: FileEntry[]; complete: boolean; total: number; stale?: CacheInfo };
     }
-  | { type: 'files'; limit: number }
-  | { type: 'settings' };
+  | { type: 'settings'; profile?: UserProfile; preferences?: MobileSettings }
+  | { type: 'search'; query: string; hits?: SearchHit[]; notice?: string };
 
 type ScreenAction =
   | { type: 'push'; screen: ScreenState }
@@ -145,13 +306,17 @@ async function ensureInteractiveSession(): Promise<Session | null> {
     );
   }
 
+  if (isOfflineMode()) {
+    // Signing in needs the network; offline browsing only works with a stored session.
+    return null;
+  }
   return runInlineLogin();
 }
 
-async function runInlineLogin(): Promise<Session | null> {
-  toolbar.renderContent(
-    `${chalk.yellow('No active session detected.')} Let's get you signed in.\n\nEnter your email address:\n`,
-  );
+async function runInlineLogin(
+  intro = `${chalk.yellow('No active session detected.')} Let's get you signed in.`,
+): Promise<Session | null> {
+  toolbar.renderContent(`${intro}\n\nEnter your email address:\n`);
 
   let emailInput = await toolbar.promptUser();
   if (emailInput === null) {
@@ -161,7 +326,7 @@ async function runInlineLogin(): Promise<Session | null> {
   const email = emailInput.trim();
   if (!email) {
     toolbar.renderContent(`${chalk.red('Email is required.')}\n\nEnter your email address:\n`);
-    return await runInlineLogin();
+    return await runInlineLogin(intro);
   }
 
   toolbar.showSpinner('Sending one-time passcode...');
@@ -180,7 +345,7 @@ async function runInlineLogin(): Promise<Session | null> {
     toolbar.renderContent(
       `${chalk.red(describeError(error))}\n\nTry again. Enter your email address:\n`,
     );
-    return await runInlineLogin();
+    return await runInlineLogin(intro);
   }
 
   let otpInput = await toolbar.promptUser();
@@ -258,6 +423,8 @@ async function handleScreen(state: ScreenState): Promise<ScreenAction> {
       return handlePinboardDetail(state);
     case 'teammates':
       return handleTeammates(state);
+    case 'teammate-detail':
+      return handleTeammateDetail(state);
     case 'messages':
       return handleMessages(state);
     case 'message-thread':
@@ -266,6 +433,8 @@ async function handleScreen(state: ScreenState): Promise<ScreenAction> {
       return handleFiles(state);
     case 'settings':
       return handleSettings(state);
+    case 'search':
+      return handleSearch(state);
     default:
       return { type: 'quit' };
   }
@@ -324,7 +493,7 @@ async function handleHome(state: { type: 'home'; session: Session }): Promise<Sc
   menuItems.forEach((item) => {
     content += `${brandPrimary(item.key)} ${chalk.bold(item.label)} ${chalk.gray('\u2014 ' + item.summary)}\n`;
   });
-  content += '\n';
+  content += `\n${chalk.gray('Type /search <words> to find messages, pinboard posts and files.')}\n\n`;
 
   // Render content in the scrollable area
   toolbar.renderContent(content);
@@ -333,11 +502,15 @@ async function handleHome(state: { type: 'home'; session: Session }): Promise<Sc
   if (choiceRaw === null) {
     return { type: 'quit' };
   }
+  const search = parseSearchCommand(choiceRaw);
+  if (search) {
+    return search;
+  }
   const choice = choiceRaw.trim().toLowerCase();
   switch (choice) {
     case '1':
     case 'pinboard':
-      return { type: 'push', screen: { type: 'pinboard', limit: 10 } };
+      return { type: 'push', screen: { type: 'pinboard', limit: PINBOARD_PAGE_SIZE } };
     case '2':
     case 'teammates':
       return { type: 'push', screen: { type: 'teammates' } };
@@ -360,31 +533,61 @@ async function handleHome(state: { type: 'home'; session: Session }): Promise<Sc
   }
 }
 
-async function handlePinboard(state: { type: 'pinboard'; limit: number }): Promise<ScreenAction> {
-  const hint = '? [number]=open /refresh /back /home /quit';
+async function handlePinboard(
+  state: Extract<ScreenState, { type: 'pinboard' }>,
+): Promise<ScreenAction> {
+  const hint = '? [number]=open /more /sort /search /refresh /back /home /quit';
   toolbar.setHelpText(hint);
+  const sort = state.sort ?? 'newest';
 
-  toolbar.showSpinner('Loading pinboard');
-  try {
-    const posts = await fetchPinboardPosts(state.limit);
-    toolbar.clearSpinner();
-
-    let content = '\n';
+  const buildContent = (posts: PinboardPost[], hasMore: boolean, notice: string): string => {
+    const readStatus = state.readStatus ?? {};
+    let content = notice ? `\n${notice}\n` : '\n';
     if (!posts.length) {
       content += `${chalk.gray('No pinboard posts found.')}\n`;
     } else {
-      content += brandPrimaryBold('Pinboard') + '\n';
+      const unread = (['new', 'updated'] as const)
+        .map((status) => [status, posts.filter((post) => readStatus[post.id] === status).length])
+        .filter(([, count]) => count)
+        .map(([status, count]) => `${count} ${status}`);
+      content += `${brandPrimaryBold('Pinboard')} ${chalk.gray(
+        sort === 'priority' ? '(most urgent first)' : '(newest first)',
+      )}${unread.length ? ` ${chalk.green(unread.join(', '))}` : ''}\n`;
       posts.forEach((post, index) => {
         const timestamp = post.created_at ? formatDateTime(post.created_at) : 'Unknown date';
         const itemNumber = `${brandPrimary(String(index + 1))}.`;
-        content += `${itemNumber} ${chalk.bold(post.title)} ${chalk.gray(`(${timestamp})`)}${
-          post.priority ? chalk.gray(` [${String(post.priority)}]`) : ''
-        }\n`;
+        const tags = [formatPriority(post.priority), formatReadStatus(readStatus[post.id])]
+          .filter(Boolean)
+          .map((tag) => ` ${tag}`)
+          .join('');
+        content += `${itemNumber} ${chalk.bold(post.title)} ${chalk.gray(`(${timestamp})`)}${tags}\n`;
         if (post.excerpt) {
           content += `   ${chalk.gray(truncate(post.excerpt, 120))}\n`;
         }
       });
+      content += hasMore
+        ? `\n${chalk.gray(`Showing ${posts.length} posts. /more loads older ones.`)}\n`
+        : `\n${chalk.gray(`All ${posts.length} posts shown.`)}\n`;
     }
+    return content;
+  };
+
+  try {
+    const { data: loaded, notice } = await loadScreenData<PinboardPost[]>(
+      'Loading pinboard',
+      (options) => fetchPinboardPosts(state.limit, options),
+      (cached, cachedNotice) =>
+        renderScreen(
+          buildContent(sortPinboardPosts(cached, sort), cached.length >= state.limit, cachedNotice),
+          hint,
+        ),
+    );
+    const posts = sortPinboardPosts(loaded, sort);
+    const hasMore = loaded.length >= state.limit;
+    const recorded = await recordPostsSeen((await resolveAppConfig()).profile, loaded);
+    state.readStatus = { ...Object.fromEntries(recorded), ...state.readStatus };
+
+    const content = buildContent(posts, hasMore, notice);
     renderScreen(content, hint);
     const answerRaw = await toolbar.promptUser();
     if (answerRaw === null) {
@@ -404,6 +607,24 @@ async function handlePinboard(state: { type: 'pinboard'; limit: number }): Promi
     if (!answer || answer === '/refresh' || answer === '/r') {
       return { type: 'stay', screen: state };
     }
+    const search = parseSearchCommand(answerRaw);
+    if (search) {
+      return search;
+    }
+    if (answer === '/more' || answer === 'more') {
+      if (!hasMore) {
+        toolbar.showError('No older posts.');
+        renderScreen(content, hint);
+        return { type: 'stay', screen: state };
+      }
+      return { type: 'stay', screen: { ...state, limit: state.limit + PINBOARD_PAGE_SIZE } };
+    }
+    if (answer === '/sort' || answer === 'sort') {
+      return {
+        type: 'stay',
+        screen: { ...state, sort: sort === 'newest' ? 'priority' : 'newest' },
+      };
+    }
     const index = parseInt(answer, 10);
     if (Number.isNaN(index) || index < 1 || index > posts.length) {
       toolbar.showError(`Select a number between 1 and ${posts.length}.`);
@@ -412,14 +633,22 @@ async function handlePinboard(state: { type: 'pinboard'; limit: number }): Promi
     }
     const post = posts[index - 1];
 
-    toolbar.showSpinner('Loading post details');
-    const detail = await fetchPinboardPost(post.slug);
-    toolbar.clearSpinner();
+    let detail: PinboardPost;
+    try {
+      detail = await toolbar.runWithSpinner('Loading post details', (signal) =>
+        fetchPinboardPost(post.slug, { signal }),
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        throw error;
+      }
+      toolbar.showError('Cancelled');
+      return { type: 'stay', screen: state };
+    }
 
     return { type: 'push', screen: { type: 'pinboard-detail', post: detail } };
   } catch (error) {
-    toolbar.showError('Failed to load pinboard');
-    renderScreen(formatApiError(error) + '\n', hint);
+    showLoadError(error, 'Failed to load pinboard', hint);
     return { type: 'back' };
   } finally {
     toolbar.resetHelpText();
@@ -435,28 +664,7 @@ async function handlePinboardDetail(state: {
   toolbar.setHelpText(hint);
 
   try {
-    let content = '\n' + chalk.bold(post.title) + '\n';
-    if (post.author_display) {
-      content += chalk.gray(`By ${post.author_display}`) + '\n';
-    }
-    if (post.created_at) {
-      content += chalk.gray(formatDateTime(post.created_at)) + '\n';
-    }
-    content += '\n';
-    const body = post.content_md ?? post.excerpt ?? '(no content)';
-    content += body.trim() + '\n';
-    if (post.attachments?.length) {
-      content += '\nAttachments:\n';
-      post.attachments.forEach((attachment, index) => {
-        content += `  ${index + 1}. ${attachment.label ?? attachment.url} → ${attachment.url}\n`;
-      });
-    }
-    if (post.sources?.length) {
-      content += '\nSources:\n';
-      post.sources.forEach((source, index) => {
-        content += `  ${index + 1}. ${source.label ?? source.url} → ${source.url}\n`;
-      });
-    }
+    const content = '\n' + formatPinboardPost(post);
 
     renderScreen(content, hint);
     const answerRaw = await toolbar.promptUser();
@@ -476,36 +684,68 @@ async function handlePinboardDetail(state: {
   }
 }
 
-async function handleTeammates(_state: { type: 'teammates' }): Promise<ScreenAction> {
-  const hint = '? add <index|key> remove <index|key> /refresh /back /home /quit';
+async function handleTeammates(
+  state: Extract<ScreenState, { type: 'teammates' }>,
+): Promise<ScreenAction> {
+  const hint =
+    '? [number|key]=details add <index|key> remove <index|key> category|role <name|off> /refresh /back /home /quit';
   toolbar.setHelpText(hint);
 
-  toolbar.showSpinner('Loading teammates');
-  try {
-    const metadataResponse = await fetchAgentsMetadata();
-    toolbar.clearSpinner();
-    const agents = Object.values(metadataResponse.agents_metadata ?? {}).sort((a, b) => {
-      const nameA = (a.name || a.key || '').toLowerCase();
-      const nameB = (b.name || b.key || '').toLowerCase();
-      return nameA.localeCompare(nameB);
-    });
+  const filter = state.filter ?? {};
+  const stay = (changes: AgentFilter = {}): ScreenAction => ({
+    type: 'stay',
+    screen: { type: 'teammates', filter: { ...filter, ...changes } },
+  });
 
-    let content = '\n' + brandPrimaryBold('Teammates') + '\n';
+  const buildContent = (groups: AgentAccessGroup[], notice: string): string => {
+    const agents = groups.flatMap((group) => group.agents);
+    let content = `${notice ? `\n${notice}` : ''}\n${brandPrimaryBold('Teammates')}\n`;
+    const filters = [
+      filter.category ? `category ${filter.category}` : null,
+      filter.role ? `role ${filter.role}` : null,
+    ].filter(Boolean);
+    if (filters.length) {
+      content += `${chalk.gray(`Filtered by ${filters.join(', ')}`)}\n`;
+    }
     if (!agents.length) {
-      content += chalk.gray('No teammates available.\n');
-    } else {
-      agents.forEach((agent, index) => {
-        const marker = `${brandPrimary(String(index + 1))}.`;
+      content += chalk.gray(
+        filters.length ? '\nNo teammates match.\n' : 'No teammates available.\n',
+      );
+    }
+    let index = 0;
+    groups.forEach((group) => {
+      content += `\n${chalk.bold(`${group.label} (${group.agents.length})`)}\n`;
+      group.agents.forEach((agent) => {
+        index += 1;
+        const marker = `${brandPrimary(String(index))}.`;
         const status = agent.hired ? brandPrimary('Enabled') : chalk.gray('Disabled');
         const displayName = agent.name || agent.key;
-        content += `${marker} ${chalk.bold(displayName)} ${status}\n`;
+        const tags = [agent.category, agent.role].filter(Boolean).join(', ');
+        content += `${marker} ${chalk.bold(displayName)} ${status}${tags ? chalk.gray(` [${tags}]`) : ''}\n`;
         if (agent.description) {
           content += `   ${chalk.gray(agent.description)}\n`;
         }
         content += `   ${chalk.gray(`Key: ${agent.key}`)}\n`;
+        const reason = describeAgentAccess(agent, group.state);
+        if (reason) {
+          content += `   ${chalk.yellow(reason)}\n`;
+        }
         content += '\n';
       });
-    }
+    });
+    return content;
+  };
+
+  try {
+    const { data: metadataResponse, notice } = await loadScreenData<AgentsMetadataResponse>(
+      'Loading teammates',
+      (options) => fetchAgentsMetadata(options),
+      (cached, cachedNotice) =>
+        renderScreen(buildContent(groupAgentsByAccess(cached, filter), cachedNotice), hint),
+    );
+    const groups = groupAgentsByAccess(metadataResponse, filter);
+    const agents = groups.flatMap((group) => group.agents);
+    const content = buildContent(groups, notice);
 
     renderScreen(content, hint);
     const answerRaw = await toolbar.promptUser();
@@ -522,50 +762,159 @@ async function handleTeammates(_state: { type: 'teammates' }): Promise<ScreenAct
       return { type: 'home' };
     }
     if (!answer || lowered === '/refresh' || lowered === '/r') {
-      return { type: 'stay', screen: { type: 'teammates' } };
+      return stay();
     }
     if (isBack(lowered)) {
       return { type: 'back' };
     }
+    const search = parseSearchCommand(answer);
+    if (search) {
+      return search;
+    }
 
     const [command, ...rest] = lowered.split(/\s+/);
     const targetRaw = rest.join(' ').trim();
+    if (!rest.length) {
+      const selected = resolveAgentTarget(command, agents);
+      if (selected) {
+        return { type: 'push', screen: { type: 'teammate-detail', agentKey: selected.key } };
+      }
+    }
+    if (command === 'category' || command === 'role') {
+      const value = targetRaw && targetRaw !== 'off' ? targetRaw : undefined;
+      return stay({ [command]: value });
+    }
     if (!['add', 'remove'].includes(command)) {
       toolbar.showError('Unknown command.');
       renderScreen(content, hint);
-      return { type: 'stay', screen: { type: 'teammates' } };
+      return stay();
     }
 
     const entry = resolveAgentTarget(targetRaw, agents);
     if (!entry) {
       toolbar.showError('No matching agent found.');
       renderScreen(content, hint);
-      return { type: 'stay', screen: { type: 'teammates' } };
+      return stay();
     }
 
-    toolbar.showSpinner(`${command === 'add' ? 'Enabling' : 'Disabling'} ${entry.name}...`);
-    try {
-      const response = await manageAgent(entry.key, command === 'add' ? 'add' : 'remove');
-      if (!response.success) {
-        throw new Error(response.message || 'Request failed');
-      }
-      const displayName = entry.name || entry.key;
-      toolbar.showSuccess(`${displayName} ${command === 'add' ? 'enabled' : 'disabled'}.`);
-    } catch (error) {
-      toolbar.showError('Operation failed.');
+    if (!(await setAgentHired(entry, command === 'add'))) {
       renderScreen(content, hint);
     }
 
-    return { type: 'stay', screen: { type: 'teammates' } };
+    return stay();
   } catch (error) {
-    toolbar.showError('Failed to load teammates');
-    renderScreen(formatApiError(error) + '\n', hint);
+    showLoadError(error, 'Failed to load teammates', hint);
     return { type: 'back' };
   } finally {
     toolbar.resetHelpText();
   }
 }
 
+async function handleTeammateDetail(
+  state: Extract<ScreenState, { type: 'teammate-detail' }>,
+): Promise<ScreenAction> {
+  const hint = '? chat hire|dismiss /refresh /back /home /quit';
+  toolbar.setHelpText(hint);
+
+  const buildContent = (
+    agent: AgentMetadata,
+    metadata: AgentsMetadataResponse,
+    notice: string,
+  ): string => {
+    let content = `${notice ? `\n${notice}` : ''}\n${formatAgentDetail(agent, getAgentAccess(agent, metadata))}`;
+    const toggle = agent.hired ? 'dismiss' : 'hire';
+    content += `\n${chalk.gray(`Type "chat" to start a conversation or "${toggle}" to ${agent.hired ? 'disable' : 'enable'} this teammate.`)}\n`;
+    if (state.notice) {
+      content += `\n${chalk.yellow(state.notice)}\n`;
+    }
+    return content;
+  };
+
+  try {
+    const { data: metadataResponse, notice } = await loadScreenData<AgentsMetadataResponse>(
+      'Loading teammate',
+      (options) => fetchAgentsMetadata(options),
+      (cached, cachedNotice) => {
+        const cachedAgent = cached.agents_metadata?.[state.agentKey];
+        if (cachedAgent) {
+          renderScreen(buildContent(cachedAgent, cached, cachedNotice), hint);
+        }
+      },
+    );
+    const agent = metadataResponse.agents_metadata?.[state.agentKey];
+    if (!agent) {
+      toolbar.showError(`Agent ${state.agentKey} is no longer available.`);
+      return { type: 'back' };
+    }
+
+    const content = buildContent(agent, metadataResponse, notice);
+    state.notice = undefined;
+
+    renderScreen(content, hint);
+    const answerRaw = await toolbar.promptUser();
+    if (answerRaw === null) {
+      return { type: 'quit' };
+    }
+    const answer = answerRaw.trim().toLowerCase();
+    if (isQuit(answer)) {
+      return { type: 'quit' };
+    }
+    if (isHome(answer)) {
+      return { type: 'home' };
+    }
+    if (isBack(answer)) {
+      return { type: 'back' };
+    }
+
+    switch (answer) {
+      case '':
+      case '/refresh':
+      case '/r':
+        return { type: 'stay' };
+      case 'chat':
+      case 'c':
+        return await createNewThread(agent.key, hint, state);
+      case 'hire':
+      case 'dismiss':
+      case 'toggle':
+        if ((answer === 'hire' && agent.hired) || (answer === 'dismiss' && !agent.hired)) {
+          toolbar.showError(
+            `${agent.name || agent.key} is already ${agent.hired ? 'hired' : 'dismissed'}.`,
+          );
+          return { type: 'stay' };
+        }
+        await setAgentHired(agent, !agent.hired);
+        return { type: 'stay' };
+      default:
+        toolbar.showError('Unknown command.');
+        return { type: 'stay' };
+    }
+  } catch (error) {
+    showLoadError(error, 'Failed to load teammate', hint);
+    return { type: 'back' };
+  } finally {
+    toolbar.resetHelpText();
+  }
+}
+
+/**
+ * Hire (enable) or dismiss (disable) an agent, reporting the outcome in the toolbar.
+ */
+async function setAgentHired(agent: AgentMetadata, hire: boolean): Promise<boolean> {
+  toolbar.showSpinner(`${hire ? 'Enabling' : 'Disabling'} ${agent.name || agent.key}`);
+  try {
+    const response = await manageAgent(agent.key, hire ? 'add' : 'remove');
+    if (!response.success) {
+      throw new Error(response.message || 'Request failed');
+    }
+    toolbar.showSuccess(`${agent.name || agent.key} ${hire ? 'enabled' : 'disabled'}.`);
+    return true;
+  } catch (error) {
+    toolbar.showError('Operation failed.');
+    return false;
+  }
+}
+
 function resolveAgentTarget(target: string, entries: AgentMetadata[]): AgentMetadata | null {
   if (!target) {
     return null;
@@ -578,18 +927,15 @@ function resolveAgentTarget(target: string, entries: AgentMetadata[]): AgentMeta
   return entries.find((entry) => entry.key.toLowerCase() === normalized) ?? null;
 }
 
-async function handleMessages(_state: { type: 'messages' }): Promise<ScreenAction> {
+async function handleMessages(
+  state: Extract<ScreenState, { type: 'messages' }>,
+): Promise<ScreenAction> {
   const hint =
-    '? [number]=open new <agent_key> delete <number> clear <number> /refresh /back /home /quit';
+    '? [number]=open new <agent_key> delete <number> clear <number> /search /refresh /back /home /quit';
   toolbar.setHelpText(hint);
 
-  toolbar.showSpinner('Loading conversations');
-  try {
-    const threads = await fetchChatThreads();
-    toolbar.clearSpinner(); // Clear spinner completely after loading
-    debugLog(`Messages screen rendered ${threads.length} threads.`);
-
-    let content = '';
+  const buildContent = (threads: ChatThreadSummary[], notice: string): string => {
+    let content = notice ? `\n${notice}\n` : '';
     if (!threads.length) {
       content += `${chalk.gray('No conversations yet.')} Start one with "new <agent_key>".\n`;
     } else {
@@ -606,6 +952,20 @@ async function handleMessages(_state: { type: 'messages' }): Promise<ScreenActio
         content += `   ${chalk.gray(lastMessage)}\n`;
       });
     }
+    if (state.notice) {
+      content += `\n${chalk.yellow(state.notice)}\n`;
+    }
+    return content;
+  };
+
+  try {
+    const { data: threads, notice } = await loadScreenData<ChatThreadSummary[]>(
+      'Loading conversations',
+      (options) => fetchChatThreads(options),
+      (cached, cachedNotice) => renderScreen(buildContent(cached, cachedNotice), hint),
+    );
+    debugLog(`Messages screen rendered ${threads.length} threads.`);
+    const content = buildContent(threads, notice);
 
     renderScreen(content, hint);
     debugLog('Prompting for user input on Messages screen.');
@@ -635,6 +995,10 @@ async function handleMessages(_state: { type: 'messages' }): Promise<ScreenActio
     if (isBack(lowered)) {
       return { type: 'back' };
     }
+    const search = parseSearchCommand(answer);
+    if (search) {
+      return search;
+    }
 
     const [command, ...rest] = lowered.split(/\s+/);
     const restJoined = rest.join(' ').trim();
@@ -673,15 +1037,30 @@ async function handleMessages(_state: { type: 'messages' }): Promise<ScreenActio
         return { type: 'stay', screen: { type: 'messages' } };
     }
   } catch (error) {
-    toolbar.showError('Failed to load conversations');
-    renderScreen(formatApiError(error) + '\n', hint);
+    showLoadError(error, 'Failed to load conversations', hint);
     return { type: 'back' };
   } finally {
     toolbar.resetHelpText();
   }
 }
 
-async function createNewThread(agentKey: string, hint: string): Promise<ScreenAction> {
+/**
+ * Start a conversation with `agentKey` and open it. Agents the user cannot use are refused before
+ * anything is created; the reason is shown on `fallback`.
+ */
+async function createNewThread(
+  agentKey: string,
+  hint: string,
+  fallback: Extract<ScreenState, { type: 'messages' | 'teammate-detail' }> = { type: 'messages' },
+): Promise<ScreenAction> {
+  toolbar.showSpinner(`Checking access to ${agentKey}`);
+  try {
+    assertAgentUsable(await fetchAgentsMetadata(), agentKey);
+  } catch (error) {
+    toolbar.showError('Cannot start this conversation.');
+    return { type: 'stay', screen: { ...fallback, notice: describeError(error) } };
+  }
+
   toolbar.showSpinner(`Creating conversation with ${agentKey}...`);
   try {
     const thread = await createChatThread(agentKey);
@@ -693,7 +1072,7 @@ async function createNewThread(agentKey: string, hint: string): Promise<ScreenAc
   } catch (error) {
     toolbar.showError('Failed to create conversation.');
     renderScreen(formatApiError(error) + '\n', hint);
-    return { type: 'stay', screen: { type: 'messages' } };
+    return { type: 'stay', screen: fallback };
   }
 }
 
@@ -742,73 +1121,103 @@ async function handleMessageThread(
   let title = state.title;
   const seenKeys = new Set<string>();
   const maxHistory = 10;
-  const hint = '? type message /refresh /back /home /quit';
+  const hint =
+    '? type message /attach <path> /attachments /preview <n> /save <n> [dest] /refresh /back /home /quit';
   toolbar.setHelpText(hint);
+  let pendingAttachments: ChatMessageAttachment[] = [];
+  let subscription: ChatUpdateSubscription | null = null;
+  let replyTimer: NodeJS.Timeout | null = null;
+  let awaitingReply = false;
+
+  const stopWaitingForReply = (): void => {
+    if (replyTimer) {
+      clearTimeout(replyTimer);
+      replyTimer = null;
+    }
+    if (awaitingReply) {
+      awaitingReply = false;
+      toolbar.clearSpinner();
+    }
+  };
+
   const finalize = (action: ScreenAction): ScreenAction => {
+    subscription?.close();
+    stopWaitingForReply();
     toolbar.resetHelpText();
     return action;
   };
 
-  const loadThread = async (label: string): Promise<void> => {
-    toolbar.showSpinner(label);
+  // Set when the conversation shown came from the cache.
+  let staleNotice = '';
+
+  const loadThread = async (label: string, preview = false): Promise<void> => {
     try {
-      const thread = await fetchChatThread(state.threadId);
+      const { data: thread, notice } = await loadScreenData<ChatThread>(
+        label,
+        (options) => fetchChatThread(state.threadId, options),
+        preview
+          ? (cached, cachedNotice) =>
+              renderScreen(
+                `\n${cachedNotice}\n${chalk.bold(cached.title || title)}\n${cached.messages
+                  .slice(-maxHistory)
+                  .map((message) => formatChatMessage(message))
+                  .join('')}`,
+                hint,
+                { alignBottom: true },
+              )
+          : undefined,
+      );
       messages = thread.messages.slice();
       title = thread.title || title;
-      toolbar.clearSpinner();
+      staleNotice = notice;
     } catch (error) {
-      toolbar.clearSpinner();
-      toolbar.showError('Failed to load conversation.');
-      renderScreen(formatApiError(error) + '\n', hint);
+      showLoadError(error, 'Failed to load conversation.', hint);
       throw error;
     }
   };
 
   if (!messages.length || state.needsRefresh) {
     try {
-      await loadThread('Loading conversation');
+      await loadThread('Loading conversation', true);
     } catch {
       return finalize({ type: 'back' });
     }
   }
 
-  const printMessage = (message: ChatMessage, index: number): string => {
-    const key = getMessageKey(message, index);
+  const printMessage = (message: ChatMessage): string => {
+    const key = getMessageKey(message);
     if (seenKeys.has(key)) {
       return '';
     }
     seenKeys.add(key);
-    const author = message.author || message.role;
-    const timestamp = message.created_at ? formatDateTime(message.created_at) : 'Unknown';
-    const header = `${brandPrimaryBold(author)} ${chalk.gray(`(${timestamp})`)}:`;
-    let content = `${header}\n${message.content.trim()}\n`;
-    if (message.attachments?.length) {
-      message.attachments.forEach((attachment: ChatMessageAttachment) => {
-        content += `   📎 ${attachment.name ?? attachment.uri}\n`;
-      });
-    }
-    content += '\n';
-    return content;
+    return formatChatMessage(message);
   };
 
   const seedSeenKeys = (count: number): void => {
     for (let i = 0; i < count; i += 1) {
-      seenKeys.add(getMessageKey(messages[i], i));
+      seenKeys.add(getMessageKey(messages[i]));
     }
   };
 
   const printMessagesStartingAt = (startIndex: number): string => {
     let content = '';
     for (let i = startIndex; i < messages.length; i += 1) {
-      content += printMessage(messages[i], i);
+      content += printMessage(messages[i]);
     }
     return content;
   };
 
-  const initialStart = Math.max(messages.length - maxHistory, 0);
+  const focusIndex = state.focusMessageId
+    ? messages.findIndex((message) => message.id === state.focusMessageId)
+    : -1;
+  state.focusMessageId = undefined;
+  const initialStart =
+    focusIndex >= 0
+      ? Math.min(focusIndex, Math.max(messages.length - maxHistory, 0))
+      : Math.max(messages.length - maxHistory, 0);
   seedSeenKeys(initialStart);
 
-  let content = '\n' + chalk.bold(title) + '\n';
+  let content = `${staleNotice ? `\n${staleNotice}` : ''}\n${chalk.bold(title)}\n`;
   if (messages.length === 0) {
     content += chalk.gray('No messages yet. Start the conversation!\n');
   } else if (initialStart > 0) {
@@ -816,7 +1225,12 @@ async function handleMessageThread(
       `Showing last ${messages.length - initialStart} of ${messages.length} messages.\n`,
     );
   }
-  content += printMessagesStartingAt(initialStart);
+  for (let i = initialStart; i < messages.length; i += 1) {
+    if (i === focusIndex) {
+      content += `${chalk.yellow.bold('▶ Search match')}\n`;
+    }
+    content += printMessage(messages[i]);
+  }
   let conversationBuffer = content;
   renderScreen(conversationBuffer, hint, { alignBottom: true });
 
@@ -829,6 +1243,32 @@ async function handleMessageThread(
     renderScreen(conversationBuffer, hint, { alignBottom: true });
   };
 
+  // Adds messages that are not part of the conversation yet; returns how many were new.
+  const mergeMessages = (incoming: ChatMessage[]): number => {
+    const knownIds = new Set(messages.map((message) => message.id).filter(Boolean));
+    const fresh = incoming.filter((message) => !message.id || !knownIds.has(message.id));
+    if (!fresh.length) {
+      return 0;
+    }
+    const offset = messages.length;
+    messages.push(...fresh);
+    appendToConversation(printMessagesStartingAt(offset));
+    if (awaitingReply && fresh.some((message) => message.role !== 'user')) {
+      stopWaitingForReply();
+    }
+    return fresh.length;
+  };
+
+  // New messages stream into the conversation as they arrive, even while the prompt is active.
+  if (!isOfflineMode()) {
+    subscription = createChatUpdateTransport().subscribe(state.threadId, messages, {
+      onMessages: (incoming) => {
+        const added = mergeMessages(incoming);
+        debugLog(`Received ${incoming.length} update(s) for ${state.threadId}, ${added} new.`);
+      },
+    });
+  }
+
   const promptLine = async (): Promise<string | null> => toolbar.promptUser();
 
   let input = await promptLine();
@@ -861,12 +1301,28 @@ async function handleMessageThread(
       return finalize({ type: 'back' });
     }
 
+    const search = parseSearchCommand(trimmed);
+    if (search) {
+      if (search.type === 'stay') {
+        input = await promptLine();
+        continue;
+      }
+      state.messages = messages;
+      state.totalMessages = messages.length;
+      state.title = title;
+      state.needsRefresh = false;
+      return finalize(search);
+    }
+
     if (lowered === '/refresh' || lowered === '/r') {
       const previousCount = messages.length;
       try {
         await loadThread('Refreshing conversation...');
         const newContent = printMessagesStartingAt(previousCount);
-        if (!newContent.trim()) {
+        if (staleNotice) {
+          toolbar.showError('Could not refresh; showing the cached conversation.');
+          appendToConversation(newContent);
+        } else if (!newContent.trim()) {
           toolbar.showSuccess('No new messages.');
           renderScreen(conversationBuffer, hint, { alignBottom: true });
         } else {
@@ -880,33 +1336,140 @@ async function handleMessageThread(
       continue;
     }
 
+    if (lowered === '/attach' || lowered.startsWith('/attach ')) {
+      const target = trimmed.slice('/attach'.length).trim();
+      if (!target) {
+        if (pendingAttachments.length) {
+          const names = pendingAttachments.map((attachment) => attachment.name).join(', ');
+          toolbar.showSuccess(`Sending with your next message: ${names}`);
+        } else {
+          toolbar.showError('Specify a file, e.g. "/attach ~/report.csv".');
+        }
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+        input = await promptLine();
+        continue;
+      }
+      toolbar.showSpinner('Uploading attachment');
+      try {
+        const [attachment] = await uploadAttachments([target]);
+        pendingAttachments.push(attachment);
+        toolbar.clearSpinner();
+        toolbar.showSuccess(
+          `Attached ${describeAttachment(attachment)}. It will be sent with your next message.`,
+        );
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+      } catch (error) {
+        toolbar.clearSpinner();
+        toolbar.showError(`Failed to attach file: ${describeError(error)}`);
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+      }
+      input = await promptLine();
+      continue;
+    }
+
+    if (lowered === '/attachments') {
+      const attachments = collectThreadAttachments(messages);
+      if (!attachments.length) {
+        toolbar.showError('No attachments in this conversation.');
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+      } else {
+        appendToConversation(formatThreadAttachments(attachments));
+      }
+      input = await promptLine();
+      continue;
+    }
+
+    const [command, ...args] = trimmed.split(/\s+/);
+    if (command.toLowerCase() === '/preview' || command.toLowerCase() === '/save') {
+      const attachments = collectThreadAttachments(messages);
+      const index = Number(args[0]);
+      if (!Number.isInteger(index) || index < 1 || index > attachments.length) {
+        toolbar.showError(
+          attachments.length
+            ? `Pick an attachment between 1 and ${attachments.length} (see /attachments).`
+            : 'No attachments in this conversation.',
+        );
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+        input = await promptLine();
+        continue;
+      }
+      const { attachment } = attachments[index - 1];
+      if (command.toLowerCase() === '/preview') {
+        toolbar.showSpinner(`Loading ${getAttachmentName(attachment)}`);
+        try {
+          const preview = await renderAttachmentPreview(attachment);
+          toolbar.clearSpinner();
+          appendToConversation(`${preview}\n`);
+        } catch (error) {
+          toolbar.clearSpinner();
+          toolbar.showError(`Failed to preview attachment: ${describeError(error)}`);
+          renderScreen(conversationBuffer, hint, { alignBottom: true });
+        }
+        input = await promptLine();
+        continue;
+      }
+
+      try {
+        const destination = await resolveDownloadTarget(
+          getAttachmentName(attachment),
+          args.slice(1).join(' ') || undefined,
+        );
+        if (await pathExists(destination)) {
+          renderScreen(
+            `${conversationBuffer}${chalk.yellow(`Overwrite ${destination}?`)} ${chalk.gray('(y/N)')}\n`,
+            hint,
+            { alignBottom: true },
+          );
+          const confirmation = await promptLine();
+          if (confirmation === null) {
+            break;
+          }
+          if (!['y', 'yes'].includes(confirmation.trim().toLowerCase())) {
+            toolbar.showSuccess('Cancelled.');
+            renderScreen(conversationBuffer, hint, { alignBottom: true });
+            input = await promptLine();
+            continue;
+          }
+        }
+        toolbar.showSpinner(`Downloading ${getAttachmentName(attachment)}`);
+        const bytes = await saveDownload(await downloadAttachment(attachment), destination);
+        toolbar.clearSpinner();
+        toolbar.showSuccess(`Saved ${destination} (${formatBytes(bytes)}).`);
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+      } catch (error) {
+        toolbar.clearSpinner();
+        toolbar.showError(`Failed to save attachment: ${describeError(error)}`);
+        renderScreen(conversationBuffer, hint, { alignBottom: true });
+      }
+      input = await promptLine();
+      continue;
+    }
+
     toolbar.showSpinner('Sending message...');
     try {
-      const sent = await sendChatMessage(state.threadId, { content: trimmed });
+      const sent = await sendChatMessage(state.threadId, {
+        content: trimmed,
+        attachments: pendingAttachments.length ? pendingAttachments : undefined,
+      });
+      pendingAttachments = [];
       toolbar.clearSpinner();
       toolbar.showSuccess('Message sent.');
       await new Promise((resolve) => setTimeout(resolve, 750));
 
-      const offset = messages.length;
-      messages.push(sent);
-      const sentContent = printMessagesStartingAt(offset);
-      appendToConversation(sentContent);
+      mergeMessages([sent]);
+      const sentIndex = messages.findIndex((message) => message.id === sent.id);
+      if (messages.slice(sentIndex + 1).some((message) => message.role !== 'user')) {
+        input = await promptLine();
+        continue;
+      }
 
+      awaitingReply = true;
       toolbar.showSpinner('Waiting for replies');
-      try {
-        const baseline = messages.length;
-        const newMessages = await pollForAgentReplies(state.threadId, baseline, 8, 1200);
-        if (newMessages.length) {
-          const offsetReplies = messages.length;
-          messages.push(...newMessages);
-          const repliesContent = printMessagesStartingAt(offsetReplies);
-          appendToConversation(repliesContent);
-        }
-      } catch (error) {
-        debugLog(`Failed to retrieve agent replies: ${describeError(error)}`);
-      } finally {
-        toolbar.clearSpinner();
-      }
+      replyTimer = setTimeout(() => {
+        replyTimer = null;
+        stopWaitingForReply();
+        toolbar.showSuccess('Replies will appear here as soon as they arrive.');
+      }, REPLY_SPINNER_TIMEOUT_MS);
     } catch (error) {
       toolbar.clearSpinner();
       toolbar.showError('Failed to send message.');
@@ -926,126 +1489,662 @@ async function handleMessageThread(
   return finalize({ type: 'quit' });
 }
 
-async function handleFiles(state: { type: 'files'; limit: number }): Promise<ScreenAction> {
-  const hint = '? /refresh /back /home /quit';
+function formatThreadAttachments(attachments: ThreadAttachment[]): string {
+  let content = `${brandPrimaryBold('Attachments')}\n`;
+  attachments.forEach(({ message, attachment }, index) => {
+    const author = message.author || message.role;
+    const sentAt = message.created_at ? formatDateTime(message.created_at) : 'Unknown';
+    content += `${brandPrimary(String(index + 1))}. ${describeAttachment(attachment)} ${chalk.gray(`— ${author}, ${sentAt}`)}\n`;
+  });
+  return `${content}\n`;
+}
+
+async function handleFiles(state: Extract<ScreenState, { type: 'files' }>): Promise<ScreenAction> {
+  const hint =
+    '? [number]=open download|delete <number> upload <path> next prev sort <key> filter <glob> cd <dir> tree /back /home /quit';
   toolbar.setHelpText(hint);
 
-  toolbar.showSpinner('Loading files');
+  const query = state.query ?? {};
+  const page = state.page ?? 0;
+  const reload = (changes: Partial<typeof state> = {}): ScreenAction => ({
+    type: 'stay',
+    screen: { ...state, ...changes, cache: undefined },
+  });
+  const update = (changes: Partial<typeof state>): ScreenAction => ({
+    type: 'stay',
+    screen: { ...state, ...changes },
+  });
+
   try {
-    const listing = await fetchFiles(state.limit);
-    toolbar.clearSpinner();
+    const { files, total, hasMore } = await toolbar.runWithSpinner('Loading files', (signal) =>
+      loadFilesPage(state, signal),
+    );
 
-    let content = '';
-    if (!listing.files.length) {
-      content += `${chalk.gray('No files found.')}\n`;
+    const directory = normalizeDirectory(query.directory);
+    const treeView = state.view === 'tree';
+    const labelFile = (file: FileEntry, index: number): string =>
+      `${brandPrimary(String(index + 1))}. ${chalk.bold(treeView ? file.name : relativeTo(file, directory))} ${chalk.gray(`(${file.modified_display}, ${file.size_display})`)}`;
+
+    let content = '\n' + brandPrimaryBold('Files') + '\n';
+    if (state.cache?.stale) {
+      content += `${formatStaleNotice(describeCacheInfo(state.cache.stale))}\n`;
+    }
+    content += `${chalk.gray(describeFileView(state, total))}\n\n`;
+    if (!files.length) {
+      content += `${chalk.gray('No files found.')} Add one with "upload <path>".\n`;
+    } else if (treeView) {
+      content += renderFileTree(files, directory, labelFile);
     } else {
-      content += '\n' + brandPrimaryBold('Files') + '\n';
-      listing.files.forEach((file, index) => {
-        const itemNumber = `${brandPrimary(String(index + 1))}.`;
-        content += `${itemNumber} ${chalk.bold(file.name)} ${chalk.gray(`(${file.modified_display}, ${file.size_display})`)}\n`;
+      files.forEach((file, index) => {
+        content += `${labelFile(file, index)}\n`;
       });
     }
+    if (page > 0 || hasMore) {
+      const paging = [page > 0 ? '"prev"' : null, hasMore ? '"next"' : null].filter(Boolean);
+      content += `\n${chalk.gray(`Type ${paging.join(' or ')} for more.`)}\n`;
+    }
+
     renderScreen(content, hint);
     const answerRaw = await toolbar.promptUser();
     if (answerRaw === null) {
       return { type: 'quit' };
     }
-    const answer = answerRaw.trim().toLowerCase();
+    const answer = answerRaw.trim();
+    const lowered = answer.toLowerCase();
 
-    if (isQuit(answer)) {
+    if (isQuit(lowered)) {
       return { type: 'quit' };
     }
-    if (isHome(answer)) {
+    if (isHome(lowered)) {
       return { type: 'home' };
     }
-    if (isBack(answer)) {
+    if (lowered === '/refresh' || lowered === '/r') {
+      return reload();
+    }
+    if (!answer) {
+      return update({});
+    }
+    if (isBack(lowered)) {
       return { type: 'back' };
     }
-    return { type: 'stay', screen: state };
+    const search = parseSearchCommand(answer);
+    if (search) {
+      return search;
+    }
+
+    const [command, ...rest] = answer.split(/\s+/);
+    const normalizedCommand = Number.isInteger(Number(command)) ? 'open' : command.toLowerCase();
+    const args =
+      normalizedCommand === 'open' && command.toLowerCase() !== 'open' ? [command] : rest;
+    const argument = args.join(' ');
+
+    switch (normalizedCommand) {
+      case 'next':
+      case 'n':
+        if (!hasMore) {
+          toolbar.showError('Already on the last page.');
+          return update({});
+        }
+        return update({ page: page + 1 });
+      case 'prev':
+      case 'p':
+        if (page === 0) {
+          toolbar.showError('Already on the first page.');
+          return update({});
+        }
+        return update({ page: page - 1 });
+      case 'sort': {
+        if (!argument || argument.toLowerCase() === 'off') {
+          return update({ page: 0, query: { ...query, sort: undefined, reverse: undefined } });
+        }
+        const key = argument.toLowerCase() as FileSortKey;
+        if (!FILE_SORT_KEYS.includes(key)) {
+          toolbar.showError(`Sort by ${FILE_SORT_KEYS.join(', ')} or "off".`);
+          return update({});
+        }
+        // Sorting by the active key again flips the direction.
+        const reverse = query.sort === key ? !query.reverse : false;
+        return update({ page: 0, query: { ...query, sort: key, reverse } });
+      }
+      case 'filter':
+        return update({ page: 0, query: { ...query, filter: argument || undefined } });
+      case 'cd': {
+        const target = changeDirectory(directory, argument || '/');
+        const known = (state.cache?.complete ? state.cache.files : null)?.some((file) =>
+          isInDirectory(file, target),
+        );
+        if (known === false) {
+          toolbar.showError(`No folder named ${target}.`);
+          return update({});
+        }
+        return update({ page: 0, query: { ...query, directory: target || undefined } });
+      }
+      case 'tree':
+        return update({ page: 0, view: treeView ? 'list' : 'tree' });
+      case 'upload':
+        if (await uploadFromFilesScreen(argument, content, hint)) {
+          return reload();
+        }
+        return update({});
+    }
+
+    if (!['open', 'download', 'delete'].includes(normalizedCommand)) {
+      toolbar.showError('Unknown command.');
+      renderScreen(content, hint);
+      return update({});
+    }
+
+    const index = Number(args[0]);
+    if (!Number.isInteger(index) || index < 1 || index > files.length) {
+      toolbar.showError('Invalid file number.');
+      renderScreen(content, hint);
+      return update({});
+    }
+    const file = files[index - 1];
+
+    switch (normalizedCommand) {
+      case 'open':
+        await openFromFilesScreen(file, content, hint);
+        break;
+      case 'download':
+        await downloadFromFilesScreen(file, args.slice(1).join(' '), content, hint);
+        break;
+      case 'delete':
+        if (await deleteFromFilesScreen(file, content, hint)) {
+          return reload();
+        }
+        break;
+    }
+    return update({});
+  } catch (error) {
+    toolbar.clearSpinner();
+    showLoadError(error, 'Failed to load files.', hint);
+    return { type: 'back' };
+  } finally {
+    toolbar.resetHelpText();
+  }
+}
+
+/**
+ * Load the files for the current page. Plain listings fetch further API pages only as the user
+ * pages forward; sorting, filtering, folders and the tree view need the complete listing once.
+ */
+async function loadFilesPage(
+  state: Extract<ScreenState, { type: 'files' }>,
+  signal?: AbortSignal,
+): Promise<{ files: FileEntry[]; total: number; hasMore: boolean }> {
+  const query = state.query ?? {};
+  const start = (state.page ?? 0) * state.limit;
+  const end = start + state.limit;
+  const cache = (state.cache ??= { files: [], complete: false, total: 0 });
+
+  if (requiresFullListing(query) || state.view === 'tree') {
+    if (!cache.complete) {
+      cache.files = await fetchAllFiles(
+        100,
+        (loaded, total, listing) => {
+          cache.stale = getCacheInfo(listing) ?? cache.stale;
+          toolbar.updateSpinner(`Loading files (${loaded} of ${total})`);
+        },
+        { signal },
+      );
+      cache.complete = true;
+      cache.total = cache.files.length;
+    }
+    let entries = applyFileQuery(cache.files, query);
+    if (state.view === 'tree') {
+      entries = sortFilesForTree(entries, Boolean(query.sort));
+    }
+    return {
+      files: entries.slice(start, end),
+      total: entries.length,
+      hasMore: end < entries.length,
+    };
+  }
+
+  if (!cache.complete && cache.files.length < end) {
+    const listing = await fetchFiles(end, { signal });
+    cache.stale = getCacheInfo(listing) ?? cache.stale;
+    cache.files = listing.files;
+    cache.total = listing.total_count;
+    cache.complete = !listing.has_more;
+  }
+  return {
+    files: cache.files.slice(start, end),
+    total: cache.total,
+    hasMore: end < cache.files.length || !cache.complete,
+  };
+}
+
+function describeFileView(state: Extract<ScreenState, { type: 'files' }>, total: number): string {
+  const query = state.query ?? {};
+  const pages = Math.max(1, Math.ceil(total / state.limit));
+  const parts = [`/${normalizeDirectory(query.directory)}`];
+  if (query.filter) {
+    parts.push(`filter ${query.filter}`);
+  }
+  if (query.sort) {
+    parts.push(`sorted by ${query.sort}${query.reverse ? ' (reversed)' : ''}`);
+  }
+  if (state.view === 'tree') {
+    parts.push('tree view');
+  }
+  parts.push(
+    `page ${(state.page ?? 0) + 1} of ${pages} (${total} ${total === 1 ? 'file' : 'files'})`,
+  );
+  return parts.join(' · ');
+}
+
+async function confirmAction(question: string, content: string, hint: string): Promise<boolean> {
+  renderScreen(`${content}\n${chalk.yellow(question)} ${chalk.gray('(y/N)')}\n`, hint);
+  const answer = await toolbar.promptUser();
+  const confirmed = ['y', 'yes'].includes(answer?.trim().toLowerCase() ?? '');
+  if (!confirmed) {
+    toolbar.showSuccess('Cancelled.');
+  }
+  return confirmed;
+}
+
+async function fetchFileTo(file: FileEntry, destination: string): Promise<number> {
+  toolbar.showSpinner(`Downloading ${file.name} (${file.size_display})`);
+  try {
+    const response = await downloadFile(file);
+    return await saveDownload(response, destination);
+  } finally {
+    toolbar.clearSpinner();
+  }
+}
+
+async function openFromFilesScreen(file: FileEntry, content: string, hint: string): Promise<void> {
+  try {
+    const directory = await mkdtemp(path.join(tmpdir(), 'tmates-'));
+    const destination = path.join(directory, getFileName(file));
+    await fetchFileTo(file, destination);
+    openExternal(destination);
+    toolbar.showSuccess(`Opened ${file.name}.`);
+    renderScreen(`${content}\n${chalk.gray(`Saved a copy to ${destination}`)}\n`, hint);
+  } catch (error) {
+    toolbar.showError(`Failed to open ${file.name}.`);
+    renderScreen(formatApiError(error) + '\n', hint);
+  }
+}
+
+async function downloadFromFilesScreen(
+  file: FileEntry,
+  target: string,
+  content: string,
+  hint: string,
+): Promise<void> {
+  try {
+    const destination = await resolveDownloadTarget(getFileName(file), target || undefined);
+    if (
+      (await pathExists(destination)) &&
+      !(await confirmAction(`Overwrite ${destination}?`, content, hint))
+    ) {
+      return;
+    }
+    const bytes = await fetchFileTo(file, destination);
+    toolbar.showSuccess(`Saved ${file.name} (${formatBytes(bytes)}).`);
+    renderScreen(`${content}\n${chalk.gray(`Saved to ${destination}`)}\n`, hint);
+  } catch (error) {
+    toolbar.showError(`Failed to download ${file.name}.`);
+    renderScreen(formatApiError(error) + '\n', hint);
+  }
+}
+
+async function deleteFromFilesScreen(
+  file: FileEntry,
+  content: string,
+  hint: string,
+): Promise<boolean> {
+  if (!(await confirmAction(`Delete ${file.relative_path}?`, content, hint))) {
+    return false;
+  }
+  toolbar.showSpinner(`Deleting ${file.name}`);
+  try {
+    const response = await deleteFile(file.relative_path);
+    if (!response.success) {
+      throw new Error(response.message || 'Request failed');
+    }
+    toolbar.clearSpinner();
+    toolbar.showSuccess(`${file.name} deleted.`);
+    return true;
   } catch (error) {
     toolbar.clearSpinner();
-    toolbar.showError('Failed to load files.');
+    toolbar.showError('Operation failed.');
     renderScreen(formatApiError(error) + '\n', hint);
+    return false;
+  }
+}
+
+async function uploadFromFilesScreen(
+  target: string,
+  content: string,
+  hint: string,
+): Promise<boolean> {
+  if (!target) {
+    toolbar.showError('Specify a local path, e.g. "upload ~/report.pdf".');
+    renderScreen(content, hint);
+    return false;
+  }
+  try {
+    const [upload] = await prepareUploads([target]);
+    if (
+      !(await confirmAction(`Upload ${upload.path} (${formatBytes(upload.size)})?`, content, hint))
+    ) {
+      return false;
+    }
+    toolbar.showSpinner(`Uploading ${upload.name}`);
+    await uploadFiles([upload]);
+    toolbar.clearSpinner();
+    toolbar.showSuccess(`${upload.name} uploaded.`);
+    return true;
+  } catch (error) {
+    toolbar.clearSpinner();
+    toolbar.showError('Upload failed.');
+    renderScreen(formatApiError(error) + '\n', hint);
+    return false;
+  }
+}
+
+/**
+ * Results of `/search`. The index is brought up to date first; any key skips that and searches
+ * what is indexed already. Picking a hit opens its thread, post or folder.
+ */
+async function handleSearch(
+  state: Extract<ScreenState, { type: 'search' }>,
+): Promise<ScreenAction> {
+  const hint = '? [number]=open /search <words> /refresh /back /home /quit';
+  toolbar.setHelpText(hint);
+
+  try {
+    if (!state.hits) {
+      const { profile } = await resolveAppConfig();
+      const result = await toolbar.runWithSpinner('Updating search index', (signal) =>
+        syncSearchIndex(profile, {
+          signal,
+          onProgress: (label) => toolbar.updateSpinner(label),
+        }),
+      );
+      state.hits = searchIndex(result.index, state.query, { limit: SEARCH_RESULT_LIMIT });
+      state.notice = result.cancelled
+        ? 'Index update skipped; recent changes may be missing.'
+        : result.failures.join('\n') || undefined;
+    }
+    const hits = state.hits;
+
+    let content = `\n${brandPrimaryBold('Search')} ${chalk.gray(`"${state.query}"`)}\n`;
+    if (state.notice) {
+      content += `${chalk.yellow(state.notice)}\n`;
+    }
+    content += '\n';
+    if (!hits.length) {
+      content += `${chalk.gray('No matches.')}\n`;
+    }
+    hits.forEach((hit, index) => {
+      const { document } = hit;
+      const details = [
+        document.kind,
+        document.author,
+        document.date ? formatDateTime(document.date) : null,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      content += `${brandPrimary(String(index + 1))}. ${chalk.bold(document.title)} ${chalk.gray(`(${details})`)}\n`;
+      content += `   ${formatSnippet(hit)}\n`;
+      content += `   ${chalk.gray(describeSearchLocation(document))}\n\n`;
+    });
+
+    renderScreen(content, hint);
+    const answerRaw = await toolbar.promptUser();
+    if (answerRaw === null) {
+      return { type: 'quit' };
+    }
+    const answer = answerRaw.trim();
+    const lowered = answer.toLowerCase();
+    if (isQuit(lowered)) {
+      return { type: 'quit' };
+    }
+    if (isHome(lowered)) {
+      return { type: 'home' };
+    }
+    if (isBack(lowered)) {
+      return { type: 'back' };
+    }
+    if (!answer || lowered === '/refresh' || lowered === '/r') {
+      return { type: 'stay', screen: { type: 'search', query: state.query } };
+    }
+    const search = parseSearchCommand(answer);
+    if (search) {
+      return search.type === 'push' ? { ...search, type: 'replace' } : search;
+    }
+
+    const index = Number(answer);
+    if (!Number.isInteger(index) || index < 1 || index > hits.length) {
+      toolbar.showError(
+        hits.length ? `Select a number between 1 and ${hits.length}.` : 'Unknown command.',
+      );
+      return { type: 'stay' };
+    }
+    return await openSearchHit(hits[index - 1]);
+  } catch (error) {
+    showLoadError(error, 'Search failed', hint);
     return { type: 'back' };
   } finally {
     toolbar.resetHelpText();
   }
 }
 
-async function handleSettings(_state: { type: 'settings' }): Promise<ScreenAction> {
-  const hint = '? /back /home /quit';
+async function openSearchHit(hit: SearchHit): Promise<ScreenAction> {
+  const { document } = hit;
+  switch (document.kind) {
+    case 'message':
+      return {
+        type: 'push',
+        screen: {
+          type: 'message-thread',
+          threadId: document.threadId as string,
+          title: document.title,
+          focusMessageId: document.messageId,
+        },
+      };
+    case 'post': {
+      let post: PinboardPost;
+      try {
+        post = await toolbar.runWithSpinner('Loading post details', (signal) =>
+          fetchPinboardPost(document.slug as string, { signal }),
+        );
+      } catch (error) {
+        toolbar.showError(isAbortError(error) ? 'Cancelled' : describeError(error));
+        return { type: 'stay' };
+      }
+      return { type: 'push', screen: { type: 'pinboard-detail', post } };
+    }
+    case 'file': {
+      const filePath = document.path as string;
+      const directory = path.posix.dirname(filePath);
+      return {
+        type: 'push',
+        screen: {
+          type: 'files',
+          limit: 25,
+          query: {
+            directory: directory === '.' ? undefined : directory,
+            filter: path.posix.basename(filePath),
+          },
+        },
+      };
+    }
+  }
+}
+
+/**
+ * `/search <words>` opens the search results from the home and list screens; null for other input.
+ */
+function parseSearchCommand(input: string): ScreenAction | null {
+  const match = /^\/search(?:\s+(.*))?$/i.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+  const query = match[1]?.trim();
+  if (!query) {
+    toolbar.showError('Type what to look for, e.g. "/search deploy".');
+    return { type: 'stay' };
+  }
+  return { type: 'push', screen: { type: 'search', query } };
+}
+
+async function handleSettings(
+  state: Extract<ScreenState, { type: 'settings' }>,
+): Promise<ScreenAction> {
+  const hint = '? [number]=toggle/edit [number] <value> /refresh /back /home /quit';
   toolbar.setHelpText(hint);
 
-  toolbar.showSpinner('Loading settings');
   try {
-    const [profile, preferences] = await Promise.all([fetchUserProfile(), fetchMobileSettings()]);
-    toolbar.clearSpinner();
+    if (!state.profile || !state.preferences) {
+      [state.profile, state.preferences] = await toolbar.runWithSpinner(
+        'Loading settings',
+        (signal) => Promise.all([fetchUserProfile({ signal }), fetchMobileSettings({ signal })]),
+      );
+    }
+    const { profile, preferences } = state;
+
+    const profileFields: Array<{
+      key: 'name' | 'avatarUrl';
+      label: string;
+      value?: string | null;
+    }> = [
+      { key: 'name', label: 'Display name', value: profile.display_name },
+      { key: 'avatarUrl', label: 'Avatar URL', value: profile.avatar_url },
+    ];
+    const number = (index: number): string => brandPrimary(String(index).padStart(2));
 
     let content = '';
     content += '\n' + brandPrimaryBold('Profile') + '\n';
-    content += `Name: ${profile.display_name ?? chalk.gray('Not set')}\n`;
-    content += `Email: ${profile.email ?? chalk.gray('Unknown')}\n`;
-    content += `Role: ${profile.role ?? chalk.gray('Unknown')}\n`;
+    profileFields.forEach((field, index) => {
+      content += `${number(index + 1)}. ${field.label}: ${formatSettingValue(field.value)}\n`;
+    });
+    content += `    Email: ${profile.email ?? chalk.gray('Unknown')}\n`;
+    content += `    Role: ${profile.role ?? chalk.gray('Unknown')}\n`;
 
     content += '\n' + brandPrimaryBold('Mobile Settings') + '\n';
-    Object.entries(preferences).forEach(([key, value]) => {
+    MOBILE_SETTING_KEYS.forEach((key, index) => {
       const label = key.replace(/_/g, ' ');
-      content += `- ${label}: ${formatSettingValue(value)}\n`;
+      content += `${number(profileFields.length + index + 1)}. ${label}: ${formatSettingValue(preferences[key])}\n`;
     });
+    content += `\n${chalk.gray('Type a number to toggle a setting or edit a field.')}\n`;
 
     renderScreen(content, hint);
     const answerRaw = await toolbar.promptUser();
     if (answerRaw === null) {
       return { type: 'quit' };
     }
-    const answer = answerRaw.trim().toLowerCase();
-    if (isQuit(answer)) {
+    const answer = answerRaw.trim();
+    const lowered = answer.toLowerCase();
+    if (isQuit(lowered)) {
       return { type: 'quit' };
     }
-    if (isHome(answer)) {
+    if (isHome(lowered)) {
       return { type: 'home' };
     }
-    return { type: 'back' };
+    if (lowered === '/refresh' || lowered === '/r') {
+      return { type: 'stay', screen: { type: 'settings' } };
+    }
+    if (isBack(lowered)) {
+      return { type: 'back' };
+    }
+    if (!answer) {
+      return { type: 'stay' };
+    }
+
+    const [selection, ...rest] = answer.split(/\s+/);
+    const index = Number(selection);
+    const total = profileFields.length + MOBILE_SETTING_KEYS.length;
+    if (!Number.isInteger(index) || index < 1 || index > total) {
+      toolbar.showError(`Choose a number between 1 and ${total}.`);
+      return { type: 'stay' };
+    }
+    const inlineValue = answer.slice(selection.length).trim();
+
+    if (index <= profileFields.length) {
+      const field = profileFields[index - 1];
+      let value: string | null = inlineValue || null;
+      if (!rest.length) {
+        renderScreen(
+          `${content}\n${chalk.yellow(`New ${field.label.toLowerCase()}:`)} ${chalk.gray('(/clear to remove, empty to keep)')}\n`,
+          hint,
+        );
+        value = (await toolbar.promptUser())?.trim() ?? '';
+        if (!value) {
+          toolbar.showSuccess('Unchanged.');
+          return { type: 'stay' };
+        }
+      }
+      const changes = toUserProfileChanges({
+        [field.key]: value?.toLowerCase() === '/clear' ? '' : (value ?? ''),
+      });
+      state.profile = await saveProfileChanges(changes);
+      return { type: 'stay' };
+    }
+
+    const key = MOBILE_SETTING_KEYS[index - profileFields.length - 1];
+    const changes = inlineValue
+      ? parseMobileSettingValue(key, inlineValue)
+      : nextMobileSettingValue(preferences, key);
+    state.preferences = await saveMobileSettingChanges(changes);
+    return { type: 'stay' };
   } catch (error) {
     toolbar.clearSpinner();
-    toolbar.showError('Failed to load settings.');
-    renderScreen(formatApiError(error) + '\n', hint);
-    return { type: 'back' };
+    if (!state.profile) {
+      showLoadError(error, 'Failed to load settings.', hint);
+      return { type: 'back' };
+    }
+    toolbar.showError(describeError(error));
+    return { type: 'stay' };
   } finally {
     toolbar.resetHelpText();
   }
 }
 
-function formatSettingValue(value: unknown): string {
-  if (typeof value === 'boolean') {
-    return value ? brandPrimary('Enabled') : chalk.gray('Disabled');
-  }
-  if (value === null || value === undefined) {
-    return chalk.gray('Not set');
+async function saveProfileChanges(changes: UpdateUserProfileInput): Promise<UserProfile> {
+  toolbar.showSpinner('Saving profile');
+  try {
+    const updated = await updateUserProfile(changes);
+    toolbar.clearSpinner();
+    toolbar.showSuccess('Profile updated.');
+    return updated;
+  } catch (error) {
+    toolbar.clearSpinner();
+    throw error;
   }
-  return String(value);
 }
 
-function formatDateTime(input: string): string {
-  const date = new Date(input);
-  if (Number.isNaN(date.getTime())) {
-    return input;
+async function saveMobileSettingChanges(
+  changes: UpdateMobileSettingsInput,
+): Promise<MobileSettings> {
+  toolbar.showSpinner('Saving setting');
+  try {
+    const updated = await updateMobileSettings(changes);
+    toolbar.clearSpinner();
+    const [[key, value]] = Object.entries(changes);
+    toolbar.showSuccess(
+      `${key.replace(/_/g, ' ')}: ${typeof value === 'boolean' ? (value ? 'enabled' : 'disabled') : String(value)}.`,
+    );
+    return updated;
+  } catch (error) {
+    toolbar.clearSpinner();
+    throw error;
   }
-  return date.toLocaleString();
 }
 
-function truncate(text: string, maxLength: number): string {
-  if (text.length <= maxLength) {
-    return text;
+function formatSettingValue(value: unknown): string {
+  if (typeof value === 'boolean') {
+    return value ? brandPrimary('Enabled') : chalk.gray('Disabled');
   }
-  return text.slice(0, maxLength - 1) + '…';
-}
-
-function describeError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+  if (value === null || value === undefined) {
+    return chalk.gray('Not set');
   }
-  return String(error);
+  return String(value);
 }
 
 function isQuit(value: string): boolean {
@@ -1059,37 +2158,3 @@ function isBack(value: string): boolean {
 function isHome(value: string): boolean {
   return ['/home'].includes(value);
 }
-
-async function pollForAgentReplies(
-  threadId: string,
-  currentCount: number,
-  attempts: number,
-  delayMs = 1500,
-): Promise<ChatMessage[]> {
-  let remaining = Math.max(attempts, 0);
-  let messages: ChatMessage[] = [];
-  while (remaining > 0) {
-    remaining -= 1;
-    await new Promise((resolve) => setTimeout(resolve, delayMs));
-    try {
-      const thread = await fetchChatThread(threadId);
-      if (thread.messages.length > currentCount) {
-        messages = thread.messages.slice(currentCount);
-        break;
-      }
-    } catch (error) {
-      debugLog(`pollForAgentReplies failed: ${describeError(error)}`);
-      break;
-    }
-  }
-  return messages;
-}
-
-function getMessageKey(message: ChatMessage, fallbackIndex: number): string {
-  if (message.id) {
-    return message.id;
-  }
-  const created = message.created_at ?? 'unknown';
-  const contentHash = message.content ? message.content.slice(0, 30) : 'content';
-  return `${created}:${fallbackIndex}:${contentHash}`;
-}
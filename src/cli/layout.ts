@@ -14,6 +14,7 @@ export class FixedBottomToolbar {
   private spinner: Ora | NodeJS.Timeout | null = null;
   private isActive = false;
   private loadingText: string | null = null;
+  private loadingHint: string | null = null;
   private readonly promptText = '> ';
   private readonly promptPrefix = brandPrimary('> ');
   private readonly defaultHelpText = '? /quit /back /home';
@@ -90,7 +91,7 @@ export class FixedBottomToolbar {
   /**
    * Show a loading spinner in the top area of toolbar
    */
-  showSpinner(text: string): void {
+  showSpinner(text: string, hint?: string): void {
     if (!output.isTTY) {
       output.write(`${text}...\n`);
       return;
@@ -100,6 +101,7 @@ export class FixedBottomToolbar {
     this.clearStatusResetTimer();
     this.clearStatusOverride();
     this.loadingText = text;
+    this.loadingHint = hint ?? null;
 
     // Start animated spinner that updates the toolbar
     const spinnerFrames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
@@ -114,9 +116,7 @@ export class FixedBottomToolbar {
 
       // Update spinner line at bottom of screen
       output.write(`\x1b[${terminalHeight - 2}H\x1b[2K`);
-      output.write(
-        `${chalk.cyan(spinnerFrames[frameIndex % spinnerFrames.length])} ${chalk.gray(text + '...')}`,
-      );
+      output.write(this.formatLoadingStatus(spinnerFrames[frameIndex % spinnerFrames.length]));
 
       // Ensure prompt line is visible
       if (!this.promptActive) {
@@ -133,6 +133,52 @@ export class FixedBottomToolbar {
     this.restorePromptCursor();
   }
 
+  /**
+   * Run `task` behind the spinner. In a terminal any keypress (Ctrl+C included) aborts the signal
+   * handed to the task, so a slow request can be cancelled without leaving the app. The spinner is
+   * cleared when the task settles.
+   */
+  async runWithSpinner<T>(text: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const listen =
+      output.isTTY && input.isTTY && typeof input.setRawMode === 'function' && !this.promptActive;
+    const cancel = (): void => {
+      // Keys typed into a prompt opened meanwhile (e.g. to sign in again) are not a cancellation.
+      if (!this.promptActive) {
+        controller.abort();
+      }
+    };
+
+    if (listen) {
+      input.setRawMode(true);
+      input.on('data', cancel);
+      input.resume();
+    }
+    this.showSpinner(text, listen ? 'any key cancels' : undefined);
+
+    try {
+      return await task(controller.signal);
+    } finally {
+      if (listen) {
+        input.removeListener('data', cancel);
+        input.setRawMode(false);
+        input.pause();
+      }
+      this.clearSpinner();
+    }
+  }
+
+  /**
+   * Change the text of the running spinner, e.g. to report progress.
+   */
+  updateSpinner(text: string): void {
+    if (!output.isTTY) {
+      output.write(`${text}...\n`);
+      return;
+    }
+    this.loadingText = text;
+  }
+
   /**
    * Hide the current spinner but keep loading text for toolbar display
    */
@@ -161,6 +207,7 @@ export class FixedBottomToolbar {
   clearSpinner(): void {
     this.hideSpinner();
     this.loadingText = null;
+    this.loadingHint = null;
     this.renderReadyStatus();
   }
 
@@ -506,7 +553,7 @@ export class FixedBottomToolbar {
       return;
     }
     if (this.loadingText) {
-      output.write(`${chalk.cyan('⠋')} ${chalk.gray(this.loadingText + '...')}`);
+      output.write(this.formatLoadingStatus('⠋'));
     } else if (this.statusOverrideText) {
       output.write(this.statusOverrideText);
     } else {
@@ -514,6 +561,11 @@ export class FixedBottomToolbar {
     }
   }
 
+  private formatLoadingStatus(frame: string): string {
+    const hint = this.loadingHint ? chalk.dim(` (${this.loadingHint})`) : '';
+    return `${chalk.cyan(frame)} ${chalk.gray(`${this.loadingText ?? ''}...`)}${hint}`;
+  }
+
   private writeStatus(text: string): void {
     if (!output.isTTY) {
       output.write(`${text}\n`);
@@ -0,0 +1,634 @@
+import chalk from 'chalk';
+
+import { highlightCode } from './syntax-highlight';
+import { brandPrimary, brandPrimaryBold } from './theme';
+
+export type MarkdownOptions = {
+  /** Columns available for the output; defaults to the terminal width (capped at 100). */
+  width?: number;
+};
+
+type InlineStyle = {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+};
+
+type InlineRun = {
+  text: string;
+  style: InlineStyle;
+};
+
+type BlockContext = {
+  width: number;
+  /** Separate blocks without blank lines (list items). */
+  tight?: boolean;
+  listDepth: number;
+};
+
+type TableAlignment = 'left' | 'center' | 'right';
+
+const MAX_WIDTH = 100;
+const MIN_WIDTH = 20;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const BULLETS = ['•', '◦', '▪'];
+const ESC = '\x1b';
+const BEL = '\x07';
+/** SGR colour codes and OSC 8 hyperlink sequences. */
+const ESCAPE_SEQUENCE = `${ESC}\\[[0-9;]*m|${ESC}\\]8;[^${BEL}${ESC}]*(?:${BEL}|${ESC}\\\\)`;
+const ANSI_PATTERN = new RegExp(ESCAPE_SEQUENCE, 'g');
+const HYPERLINK_END = `${ESC}]8;;${ESC}\\`;
+const WIDE_CHARACTER = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]|\p{Extended_Pictographic}/u;
+
+/**
+ * Render Markdown for the terminal: headings, emphasis, lists, tables, block quotes, fenced code
+ * with syntax highlighting and OSC 8 hyperlinks. Output is wrapped to `width` and falls back to
+ * plain text when colours are disabled (`NO_COLOR`, non-TTY output).
+ */
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): string {
+  const width = Math.max(
+    MIN_WIDTH,
+    options.width ?? Math.min(process.stdout.columns || 80, MAX_WIDTH),
+  );
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const rendered = renderBlocks(lines, { width, listDepth: 0 });
+  return rendered.length ? `${rendered.join('\n')}\n` : '';
+}
+
+/**
+ * Width of `text` in terminal columns, ignoring escape sequences and counting wide characters
+ * (CJK, emoji) as two.
+ */
+export function visibleWidth(text: string): number {
+  let width = 0;
+  for (const char of text.replace(ANSI_PATTERN, '')) {
+    width += WIDE_CHARACTER.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+function renderBlocks(lines: string[], context: BlockContext): string[] {
+  const blocks: string[][] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = line.match(/^(\s{0,3})(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trimStart().startsWith(marker)) {
+        const current = lines[index];
+        const leading = current.length - current.trimStart().length;
+        body.push(current.slice(Math.min(indent.length, leading)));
+        index += 1;
+      }
+      index += 1;
+      blocks.push(renderCodeBlock(body, language));
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      blocks.push(renderHeading(heading[2], heading[1].length, context.width));
+      index += 1;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push([chalk.gray('─'.repeat(context.width))]);
+      index += 1;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && /^\s{0,3}>/.test(lines[index])) {
+        quoted.push(lines[index].replace(/^\s{0,3}> ?/, ''));
+        index += 1;
+      }
+      const inner = renderBlocks(quoted, { ...context, width: context.width - 2 });
+      blocks.push(inner.map((entry) => `${chalk.gray('│')} ${chalk.italic(entry)}`));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [rendered, next] = renderList(lines, index, context);
+      blocks.push(rendered);
+      index = next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const rows: string[] = [lines[index]];
+      const alignments = parseAlignments(lines[index + 1]);
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        rows.push(lines[index]);
+        index += 1;
+      }
+      blocks.push(renderTable(rows.map(splitTableRow), alignments, context.width));
+      continue;
+    }
+
+    if (/^ {4}/.test(line) && !context.tight) {
+      const body: string[] = [];
+      while (index < lines.length && (/^ {4}/.test(lines[index]) || !lines[index].trim())) {
+        body.push(lines[index].slice(4));
+        index += 1;
+      }
+      while (body.length && !body[body.length - 1].trim()) {
+        body.pop();
+      }
+      blocks.push(renderCodeBlock(body, ''));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    do {
+      paragraph.push(lines[index]);
+      index += 1;
+    } while (index < lines.length && lines[index].trim() && !startsBlock(lines, index));
+    blocks.push(renderParagraph(paragraph, context.width));
+  }
+
+  return blocks.flatMap((block, position) => (position && !context.tight ? ['', ...block] : block));
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    /^\s{0,3}(`{3,}|~{3,}|#{1,6}\s|>)/.test(line) ||
+    /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line) ||
+    /^\s*([-*+]|\d{1,9}[.)])\s+\S/.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function renderHeading(text: string, level: number, width: number): string[] {
+  const runs = parseInline(text, { bold: true });
+  const lines = wrapRuns(runs, width);
+  if (chalk.level === 0) {
+    if (level > 2) {
+      return lines;
+    }
+    const underline = (level === 1 ? '=' : '-').repeat(
+      Math.min(width, Math.max(...lines.map(visibleWidth))),
+    );
+    return [...lines, underline];
+  }
+  if (level === 1) {
+    return lines.map((line) => brandPrimaryBold(chalk.underline(line)));
+  }
+  if (level === 2) {
+    return lines.map((line) => brandPrimaryBold(line));
+  }
+  return lines.map((line) => chalk.bold(line));
+}
+
+function renderParagraph(lines: string[], width: number): string[] {
+  // Two trailing spaces or a trailing backslash force a line break.
+  const segments: string[][] = [[]];
+  lines.forEach((line) => {
+    const hardBreak = / {2,}$/.test(line) || /\\$/.test(line);
+    segments[segments.length - 1].push(line.trim().replace(/\\$/, ''));
+    if (hardBreak) {
+      segments.push([]);
+    }
+  });
+  return segments
+    .filter((segment) => segment.length)
+    .flatMap((segment) => wrapRuns(parseInline(segment.join(' ')), width));
+}
+
+function renderCodeBlock(lines: string[], language: string): string[] {
+  const highlighted = highlightCode(lines.join('\n'), language).split('\n');
+  const header = chalk.gray(language ? `┌ ${language}` : '┌');
+  return [header, ...highlighted.map((line) => `${chalk.gray('│')} ${line}`), chalk.gray('└')];
+}
+
+function renderList(lines: string[], start: number, context: BlockContext): [string[], number] {
+  const first = lines[start].match(LIST_ITEM);
+  const baseIndent = first ? first[1].length : 0;
+  const ordered = Boolean(first && /\d/.test(first[2]));
+  let counter = ordered && first ? parseInt(first[2], 10) : 0;
+  const output: string[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    if (!lines[index].trim()) {
+      const next = lines[index + 1]?.match(LIST_ITEM);
+      if (next && next[1].length === baseIndent) {
+        index += 1;
+        continue;
+      }
+      break;
+    }
+    const item = lines[index].match(LIST_ITEM);
+    if (!item || item[1].length !== baseIndent || /\d/.test(item[2]) !== ordered) {
+      break;
+    }
+
+    const contentIndent = item[1].length + item[2].length + Math.max(1, item[3].length);
+    const body = [item[4]];
+    index += 1;
+    while (index < lines.length) {
+      const current = lines[index];
+      const leading = current.length - current.trimStart().length;
+      if (!current.trim()) {
+        const next = lines[index + 1];
+        if (next?.trim() && next.length - next.trimStart().length > baseIndent) {
+          body.push('');
+          index += 1;
+          continue;
+        }
+        break;
+      }
+      if (leading > baseIndent) {
+        body.push(current.slice(Math.min(contentIndent, leading)));
+      } else if (LIST_ITEM.test(current) || startsBlock(lines, index)) {
+        break;
+      } else {
+        body.push(current.trim());
+      }
+      index += 1;
+    }
+
+    let marker = ordered ? `${counter}.` : BULLETS[Math.min(context.listDepth, BULLETS.length - 1)];
+    counter += 1;
+    const task = body[0].match(/^\[([ xX])\]\s+/);
+    if (task) {
+      marker = task[1] === ' ' ? '☐' : '☑';
+      body[0] = body[0].slice(task[0].length);
+    }
+
+    const indent = visibleWidth(marker) + 1;
+    const rendered = renderBlocks(body, {
+      width: context.width - indent,
+      tight: true,
+      listDepth: context.listDepth + 1,
+    });
+    rendered.forEach((line, position) => {
+      output.push(
+        position === 0 ? `${brandPrimary(marker)} ${line}` : `${' '.repeat(indent)}${line}`,
+      );
+    });
+    if (!rendered.length) {
+      output.push(brandPrimary(marker));
+    }
+  }
+
+  return [output, index];
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].includes('|') &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes('-') &&
+    TABLE_SEPARATOR.test(lines[index + 1])
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseAlignments(separator: string): TableAlignment[] {
+  return splitTableRow(separator).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : 'left';
+  });
+}
+
+function renderTable(rows: string[][], alignments: TableAlignment[], width: number): string[] {
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const cells = rows.map((row, rowIndex) =>
+    Array.from({ length: columnCount }, (_, column) =>
+      parseInline(row[column] ?? '', rowIndex === 0 ? { bold: true } : {}),
+    ),
+  );
+
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(1, ...cells.map((row) => visibleWidth(renderRuns(row[column])))),
+  );
+  const available = width - (columnCount * 3 + 1);
+  while (widths.reduce((sum, value) => sum + value, 0) > available) {
+    const widest = widths.indexOf(Math.max(...widths));
+    if (widths[widest] <= 3) {
+      break;
+    }
+    widths[widest] -= 1;
+  }
+
+  const border = (left: string, middle: string, right: string): string =>
+    chalk.gray(`${left}${widths.map((value) => '─'.repeat(value + 2)).join(middle)}${right}`);
+  const output = [border('┌', '┬', '┐')];
+  cells.forEach((row, rowIndex) => {
+    const wrapped = row.map((runs, column) => wrapRuns(runs, widths[column]));
+    const height = Math.max(1, ...wrapped.map((lines) => lines.length));
+    for (let lineIndex = 0; lineIndex < height; lineIndex += 1) {
+      const columns = wrapped.map((lines, column) =>
+        align(lines[lineIndex] ?? '', widths[column], alignments[column] ?? 'left'),
+      );
+      output.push(`${chalk.gray('│')} ${columns.join(` ${chalk.gray('│')} `)} ${chalk.gray('│')}`);
+    }
+    if (rowIndex === 0) {
+      output.push(border('├', '┼', '┤'));
+    }
+  });
+  output.push(border('└', '┴', '┘'));
+  return output;
+}
+
+function align(text: string, width: number, alignment: TableAlignment): string {
+  const padding = Math.max(0, width - visibleWidth(text));
+  if (alignment === 'right') {
+    return ' '.repeat(padding) + text;
+  }
+  if (alignment === 'center') {
+    const left = Math.floor(padding / 2);
+    return ' '.repeat(left) + text + ' '.repeat(padding - left);
+  }
+  return text + ' '.repeat(padding);
+}
+
+/**
+ * Split inline Markdown into styled runs. Handles code spans, strong/emphasis, strikethrough,
+ * links, images, autolinks, bare URLs and backslash escapes.
+ */
+function parseInline(text: string, style: InlineStyle = {}): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let plain = '';
+  const flush = (): void => {
+    if (plain) {
+      runs.push({ text: plain, style });
+      plain = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\' && /[!-/:-@[-`{-~]/.test(text[index + 1] ?? '')) {
+      plain += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)?.[0] ?? '`';
+      const end = text.indexOf(ticks, index + ticks.length);
+      if (end !== -1) {
+        flush();
+        const code = text.slice(index + ticks.length, end).replace(/^ (.+) $/, '$1');
+        runs.push({
+          text: chalk.level === 0 ? `\`${code}\`` : code,
+          style: { ...style, code: true },
+        });
+        index = end + ticks.length;
+        continue;
+      }
+    }
+
+    const link = rest.match(
+      /^(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    );
+    if (link) {
+      flush();
+      const [whole, bang, label, href] = link;
+      if (bang) {
+        runs.push({ text: `🖼 ${label || 'image'}`, style: { ...style, italic: true, href } });
+      } else {
+        runs.push(...parseInline(label || href, { ...style, href }));
+      }
+      index += whole.length;
+      continue;
+    }
+
+    const autolink = rest.match(/^<((?:https?|mailto):[^\s>]+)>/);
+    if (autolink) {
+      flush();
+      runs.push({
+        text: autolink[1].replace(/^mailto:/, ''),
+        style: { ...style, href: autolink[1] },
+      });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const url =
+      !style.href && (index === 0 || /[\s(]/.test(text[index - 1]))
+        ? rest.match(/^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/)
+        : null;
+    if (url) {
+      flush();
+      runs.push({ text: url[0], style: { ...style, href: url[0] } });
+      index += url[0].length;
+      continue;
+    }
+
+    const delimiter = rest.match(/^(\*\*|__|~~|\*|_)/)?.[0];
+    if (delimiter && /\S/.test(text[index + delimiter.length] ?? '')) {
+      const intraword = delimiter[0] === '_' && index > 0 && /\w/.test(text[index - 1]);
+      const end = intraword ? -1 : findClosingDelimiter(text, delimiter, index + delimiter.length);
+      if (end !== -1) {
+        flush();
+        const inner = text.slice(index + delimiter.length, end);
+        const nested: InlineStyle =
+          delimiter === '~~'
+            ? { ...style, strike: true }
+            : delimiter.length === 2
+              ? { ...style, bold: true }
+              : { ...style, italic: true };
+        runs.push(...parseInline(inner, nested));
+        index = end + delimiter.length;
+        continue;
+      }
+    }
+
+    plain += char;
+    index += 1;
+  }
+  flush();
+  return runs;
+}
+
+function findClosingDelimiter(text: string, delimiter: string, from: number): number {
+  let search = from;
+  while (search < text.length) {
+    const found = text.indexOf(delimiter, search);
+    if (found === -1) {
+      return -1;
+    }
+    const before = text[found - 1];
+    const after = text[found + delimiter.length];
+    const doubled = delimiter.length === 1 && (after === delimiter || before === delimiter);
+    const wordAfter = delimiter[0] === '_' && after !== undefined && /\w/.test(after);
+    if (found > from && before !== ' ' && !doubled && !wordAfter) {
+      return found;
+    }
+    search = found + (doubled ? 2 : 1);
+  }
+  return -1;
+}
+
+function styleText(text: string, style: InlineStyle): string {
+  let result = text;
+  if (style.code) {
+    result = chalk.cyan(result);
+  }
+  if (style.bold) {
+    result = chalk.bold(result);
+  }
+  if (style.italic) {
+    result = chalk.italic(result);
+  }
+  if (style.strike) {
+    result = chalk.strikethrough(result);
+  }
+  if (style.href) {
+    result = brandPrimary(chalk.underline(result));
+    if (supportsHyperlinks()) {
+      result = `${ESC}]8;;${style.href}${ESC}\\${result}${HYPERLINK_END}`;
+    }
+  }
+  return result;
+}
+
+function renderRuns(runs: InlineRun[]): string {
+  return runs.map((run) => styleText(run.text, run.style)).join('');
+}
+
+/**
+ * Word-wrap styled runs to `width` columns. Styles are applied per word so that every output line
+ * is self-contained. Links that cannot be rendered as hyperlinks get their URL appended.
+ */
+function wrapRuns(runs: InlineRun[], width: number): string[] {
+  const expanded = supportsHyperlinks()
+    ? runs
+    : runs.flatMap((run, index) => {
+        const href = run.style.href;
+        const lastOfLink = href && runs[index + 1]?.style.href !== href;
+        const label = runs
+          .filter((candidate) => candidate.style.href === href)
+          .map((candidate) => candidate.text)
+          .join('');
+        return lastOfLink && label !== href && !href.startsWith('mailto:')
+          ? [run, { text: ` (${href})`, style: {} }]
+          : [run];
+      });
+
+  type Word = { text: string; width: number; spaceBefore: boolean };
+  const words: Word[] = [];
+  let pendingSpace = false;
+  let current: Word | null = null;
+  expanded.forEach((run) => {
+    run.text.split(/(\s+)/).forEach((piece) => {
+      if (!piece) {
+        return;
+      }
+      if (/^\s+$/.test(piece)) {
+        pendingSpace = true;
+        current = null;
+        return;
+      }
+      const styled = styleText(piece, run.style);
+      if (current && !pendingSpace) {
+        current.text += styled;
+        current.width += visibleWidth(piece);
+      } else {
+        current = { text: styled, width: visibleWidth(piece), spaceBefore: pendingSpace };
+        words.push(current);
+      }
+      pendingSpace = false;
+    });
+  });
+
+  const lines: string[] = [];
+  let line = '';
+  let lineWidth = 0;
+  words.forEach((word) => {
+    const gap = lineWidth && word.spaceBefore ? 1 : 0;
+    if (lineWidth && lineWidth + gap + word.width > width) {
+      lines.push(line);
+      line = '';
+      lineWidth = 0;
+    }
+    if (!lineWidth && word.width > width) {
+      hardWrap(word.text, width).forEach((chunk, position, chunks) => {
+        if (position < chunks.length - 1) {
+          lines.push(chunk);
+        } else {
+          line = chunk;
+          lineWidth = visibleWidth(chunk);
+        }
+      });
+      return;
+    }
+    line += (lineWidth && word.spaceBefore ? ' ' : '') + word.text;
+    lineWidth += (lineWidth && word.spaceBefore ? 1 : 0) + word.width;
+  });
+  if (line || !lines.length) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Break a single over-long word into `width`-column chunks, carrying escape sequences along so that
+ * each chunk keeps its styling.
+ */
+function hardWrap(text: string, width: number): string[] {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkWidth = 0;
+  let openSequences = '';
+  const tokens = text.split(new RegExp(`(${ESCAPE_SEQUENCE})`));
+  tokens.forEach((token) => {
+    if (!token) {
+      return;
+    }
+    if (token.startsWith(ESC)) {
+      chunk += token;
+      openSequences = token === `${ESC}[0m` ? '' : openSequences + token;
+      return;
+    }
+    for (const char of token) {
+      const charWidth = WIDE_CHARACTER.test(char) ? 2 : 1;
+      if (chunkWidth + charWidth > width) {
+        chunks.push(openSequences ? `${chunk}${HYPERLINK_END}${ESC}[0m` : chunk);
+        chunk = openSequences;
+        chunkWidth = 0;
+      }
+      chunk += char;
+      chunkWidth += charWidth;
+    }
+  });
+  chunks.push(chunk);
+  return chunk.length ? chunks : chunks.slice(0, -1);
+}
+
+function supportsHyperlinks(): boolean {
+  const forced = process.env.FORCE_HYPERLINK;
+  if (forced !== undefined) {
+    return forced !== '0' && forced !== 'false';
+  }
+  return chalk.level > 0 && Boolean(process.stdout.isTTY) && process.env.TERM !== 'dumb';
+}
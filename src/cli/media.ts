@@ -0,0 +1,102 @@
+import path from 'path';
+
+export type ImageDimensions = {
+  width: number;
+  height: number;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+};
+
+export function detectMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Read the pixel size from the header of a PNG, GIF, JPEG, WebP or BMP image. Returns null for other
+ * formats or truncated data.
+ */
+export function readImageDimensions(data: Buffer): ImageDimensions | null {
+  if (
+    data.length >= 24 &&
+    data.readUInt32BE(0) === 0x89504e47 &&
+    data.readUInt32BE(12) === 0x49484452
+  ) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 10 && data.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 26 && data.toString('ascii', 0, 2) === 'BM') {
+    return { width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+  }
+  if (
+    data.length >= 30 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return readWebpDimensions(data);
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegDimensions(data);
+  }
+  return null;
+}
+
+function readWebpDimensions(data: Buffer): ImageDimensions | null {
+  switch (data.toString('ascii', 12, 16)) {
+    case 'VP8X':
+      return { width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    case 'VP8 ':
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    default:
+      return null;
+  }
+}
+
+function readJpegDimensions(data: Buffer): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    // SOF0–SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import ora from 'ora';
+import type { Ora } from 'ora';
+import { InvalidArgumentError } from 'commander';
+import { stringify as toYaml } from 'yaml';
+
+export type OutputFormat = 'text' | 'json' | 'yaml' | 'ndjson' | 'table';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'yaml', 'ndjson', 'table'];
+
+export type OutputColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+};
+
+export type ListOutputOptions<T> = {
+  columns: OutputColumn<T>[];
+  /** Human readable rendering; defaults to a table built from `columns`. */
+  text?: (rows: T[]) => string;
+};
+
+export type RecordOutputOptions<T> = {
+  /** Rows for the two-column key/value table; defaults to the record's own keys. */
+  fields?: OutputColumn<T>[];
+  /** Human readable rendering; defaults to the key/value table. */
+  text?: (record: T) => string;
+};
+
+let activeFormat: OutputFormat = 'text';
+
+export function parseOutputFormat(value: string): OutputFormat {
+  const normalized = value.trim().toLowerCase();
+  if (!OUTPUT_FORMATS.includes(normalized as OutputFormat)) {
+    throw new InvalidArgumentError(`Expected one of ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+  return normalized as OutputFormat;
+}
+
+export function setOutputFormat(format: OutputFormat): void {
+  activeFormat = format;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return activeFormat;
+}
+
+/**
+ * True when stdout carries machine-readable data, so progress and notices must stay off it.
+ */
+export function isStructuredOutput(): boolean {
+  return activeFormat === 'json' || activeFormat === 'yaml' || activeFormat === 'ndjson';
+}
+
+/**
+ * Start an ora spinner on stderr that stays silent while structured output is active.
+ */
+export function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: isStructuredOutput() }).start();
+}
+
+/**
+ * Write human-readable progress (e.g. a plan before it is applied) to stdout. Nothing is written
+ * while structured output is active, so the final record stays the only document.
+ */
+export function writeText(content: string): void {
+  if (!isStructuredOutput()) {
+    writeStdout(content);
+  }
+}
+
+export function writeList<T>(rows: T[], options: ListOutputOptions<T>): void {
+  switch (activeFormat) {
+    case 'json':
+      writeStdout(`${JSON.stringify(rows, null, 2)}\n`);
+      return;
+    case 'yaml':
+      writeStdout(toYaml(rows));
+      return;
+    case 'ndjson':
+      writeStdout(rows.map((row) => `${JSON.stringify(row)}\n`).join(''));
+      return;
+    case 'table':
+      writeStdout(`${renderTable(rows, options.columns)}\n`);
+      return;
+    case 'text':
+      writeStdout(options.text ? options.text(rows) : `${renderTable(rows, options.columns)}\n`);
+      return;
+  }
+}
+
+export function writeRecord<T extends object>(
+  record: T,
+  options: RecordOutputOptions<T> = {},
+): void {
+  switch (activeFormat) {
+    case 'json':
+      writeStdout(`${JSON.stringify(record, null, 2)}\n`);
+      return;
+    case 'yaml':
+      writeStdout(toYaml(record));
+      return;
+    case 'ndjson':
+      writeStdout(`${JSON.stringify(record)}\n`);
+      return;
+    case 'table':
+      writeStdout(`${renderKeyValueTable(record, options.fields)}\n`);
+      return;
+    case 'text':
+      writeStdout(
+        options.text ? options.text(record) : `${renderKeyValueTable(record, options.fields)}\n`,
+      );
+      return;
+  }
+}
+
+function renderTable<T>(rows: T[], columns: OutputColumn<T>[]): string {
+  const table = new Table({
+    head: columns.map((column) => chalk.bold(column.header)),
+    style: { head: [], border: ['gray'] },
+    wordWrap: true,
+  });
+  rows.forEach((row) => {
+    table.push(columns.map((column) => formatCell(column.value(row))));
+  });
+  return table.toString();
+}
+
+function renderKeyValueTable<T extends object>(record: T, fields?: OutputColumn<T>[]): string {
+  const table = new Table({ style: { head: [], border: ['gray'] }, wordWrap: true });
+  const entries: Array<[string, unknown]> = fields
+    ? fields.map((field) => [field.header, field.value(record)])
+    : Object.entries(record);
+  entries.forEach(([label, value]) => {
+    table.push({ [chalk.bold(label)]: formatCell(value) });
+  });
+  return table.toString();
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return chalk.gray('—');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function writeStdout(content: string): void {
+  process.stdout.write(content);
+}
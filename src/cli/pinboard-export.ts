@@ -0,0 +1,204 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml, stringify as toYaml } from 'yaml';
+
+import { fetchPinboardPost } from '../api/pinboard';
+import type { PinboardPost } from '../api/pinboard';
+import { downloadFromUrl } from '../api/files';
+import { saveDownload } from './file-transfer';
+import { describeError } from './format';
+import { getPriorityLevel } from './pinboard-query';
+
+/** Folder next to the Markdown files that holds one sub-folder of downloaded assets per post. */
+const ASSETS_DIR_NAME = 'assets';
+
+export type ExportStatus = 'written' | 'unchanged' | 'failed';
+
+export type ExportResult = {
+  slug: string;
+  status: ExportStatus;
+  file: string;
+  assets: number;
+  error?: string;
+};
+
+type ExportedAsset = {
+  url: string;
+  label: string;
+  /** Path relative to the Markdown file. */
+  link: string;
+};
+
+/**
+ * Write each post to `<dir>/<slug>.md` with YAML front matter, downloading its cover and attachments
+ * into `<dir>/assets/<slug>/`. A post whose file already carries its current `updated_at` is left
+ * alone unless `force` is set; the full post is only fetched for the ones that are (re)written.
+ */
+export async function exportPinboardPosts(
+  posts: PinboardPost[],
+  dir: string,
+  options: { force?: boolean } = {},
+  onProgress?: (done: number, total: number) => void,
+): Promise<ExportResult[]> {
+  await mkdir(dir, { recursive: true });
+  const results: ExportResult[] = [];
+  for (const post of posts) {
+    const name = toFileName(post.slug);
+    const file = path.join(dir, `${name}.md`);
+    const result: ExportResult = { slug: post.slug, status: 'unchanged', file, assets: 0 };
+    try {
+      if (
+        options.force ||
+        !post.updated_at ||
+        (await readExportedVersion(file)) !== post.updated_at
+      ) {
+        const detail = await fetchPinboardPost(post.slug);
+        const assets = await downloadAssets(detail, dir, name);
+        await writeAtomically(file, renderMarkdown(detail, assets));
+        result.status = 'written';
+        result.assets = assets.length;
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = describeError(error);
+    }
+    results.push(result);
+    onProgress?.(results.length, posts.length);
+  }
+  return results;
+}
+
+/**
+ * The `updated_at` recorded in the front matter of an earlier export, or null when there is none.
+ */
+async function readExportedVersion(file: string): Promise<string | null> {
+  let source: string;
+  try {
+    source = await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/.exec(source);
+  if (!frontMatter) {
+    return null;
+  }
+  try {
+    const data = parseYaml(frontMatter[1]) as { updated_at?: unknown } | null;
+    return typeof data?.updated_at === 'string' ? data.updated_at : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download the cover and attachments into a fresh `assets/<name>/` folder, so assets a post no
+ * longer references do not linger. Downloads go to a staging folder first; the previous assets are
+ * only replaced once all of them arrived.
+ */
+async function downloadAssets(
+  post: PinboardPost,
+  dir: string,
+  name: string,
+): Promise<ExportedAsset[]> {
+  const assetsDir = path.join(dir, ASSETS_DIR_NAME, name);
+  const stagingDir = `${assetsDir}.part`;
+  await rm(stagingDir, { recursive: true, force: true });
+
+  const sources = [
+    ...(post.cover_url ? [{ url: post.cover_url, label: 'Cover' }] : []),
+    ...post.attachments.map((attachment) => ({
+      url: attachment.url,
+      label: attachment.label || getUrlFileName(attachment.url),
+    })),
+  ];
+  const used = new Set<string>();
+  const assets: ExportedAsset[] = [];
+  for (const source of sources) {
+    const fileName = dedupeFileName(toFileName(getUrlFileName(source.url)), used);
+    try {
+      await saveDownload(await downloadFromUrl(source.url), path.join(stagingDir, fileName));
+    } catch (error) {
+      await rm(stagingDir, { recursive: true, force: true });
+      throw new Error(`Could not download ${source.url}: ${describeError(error)}`);
+    }
+    assets.push({
+      ...source,
+      link: [ASSETS_DIR_NAME, name, fileName].map(encodeURIComponent).join('/'),
+    });
+  }
+  await rm(assetsDir, { recursive: true, force: true });
+  if (assets.length) {
+    await rename(stagingDir, assetsDir);
+  }
+  return assets;
+}
+
+function renderMarkdown(post: PinboardPost, assets: ExportedAsset[]): string {
+  const frontMatter = {
+    title: post.title,
+    author_agent_key: post.author_agent_key ?? null,
+    priority: getPriorityLevel(post.priority),
+    created_at: post.created_at ?? null,
+    updated_at: post.updated_at ?? null,
+    sources: post.sources.map((source) =>
+      source.label ? { label: source.label, url: source.url } : { url: source.url },
+    ),
+  };
+
+  let body = post.content_md?.trim() || post.excerpt?.trim() || '';
+  assets.forEach((asset) => {
+    body = body.split(asset.url).join(asset.link);
+  });
+
+  const sections = [`---\n${toYaml(frontMatter).trimEnd()}\n---`];
+  const cover = post.cover_url ? assets.find((asset) => asset.url === post.cover_url) : undefined;
+  if (cover) {
+    sections.push(`![${cover.label}](${cover.link})`);
+  }
+  if (body) {
+    sections.push(body);
+  }
+  const attachments = assets.filter((asset) => asset !== cover);
+  if (attachments.length) {
+    sections.push(
+      `## Attachments\n\n${attachments
+        .map((asset) => `- [${asset.label}](${asset.link})`)
+        .join('\n')}`,
+    );
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+async function writeAtomically(file: string, content: string): Promise<void> {
+  const partial = `${file}.part`;
+  await writeFile(partial, content);
+  await rename(partial, file);
+}
+
+function getUrlFileName(url: string): string {
+  try {
+    const base = path.posix.basename(new URL(url, 'http://localhost').pathname);
+    return decodeURIComponent(base) || 'asset';
+  } catch {
+    return 'asset';
+  }
+}
+
+/** Slugs and asset names come from the server; keep them to one safe path segment. */
+function toFileName(value: string): string {
+  const cleaned = value.replace(/[^\w.-]+/g, '-').replace(/^[.-]+/, '');
+  return cleaned || 'untitled';
+}
+
+function dedupeFileName(fileName: string, used: Set<string>): string {
+  const { name, ext } = path.parse(fileName);
+  let candidate = fileName;
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter += 1) {
+    candidate = `${name}-${counter}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
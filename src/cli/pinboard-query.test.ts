@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PinboardPost, PinboardPriority } from '../api/pinboard';
+import {
+  getPriorityLevel,
+  matchesPinboardQuery,
+  parsePinboardSortKey,
+  parsePriorityList,
+  parseSince,
+  sortPinboardPosts,
+} from './pinboard-query';
+
+function post(overrides: Partial<PinboardPost>): PinboardPost {
+  return {
+    id: overrides.slug ?? 'p',
+    title: 'Post',
+    slug: 'p',
+    priority: 'normal',
+    created_at: '2026-10-01T10:00:00Z',
+    attachments: [],
+    sources: [],
+    ...overrides,
+  };
+}
+
+/** The API sends priorities as whatever the author wrote, including numeric strings. */
+function fromApi(value: string): PinboardPriority {
+  return value as PinboardPriority;
+}
+
+describe('getPriorityLevel', () => {
+  it('puts named and numeric priorities on one scale', () => {
+    expect(getPriorityLevel(fromApi('URGENT'))).toBe('urgent');
+    expect(getPriorityLevel(2)).toBe('high');
+    expect(getPriorityLevel(fromApi(' 0 '))).toBe('low');
+    expect(getPriorityLevel(9)).toBe('urgent');
+    expect(getPriorityLevel(-1)).toBe('low');
+  });
+
+  it('treats a missing or unknown priority as normal', () => {
+    expect(getPriorityLevel(null)).toBe('normal');
+    expect(getPriorityLevel(fromApi(''))).toBe('normal');
+    expect(getPriorityLevel(fromApi('whenever'))).toBe('normal');
+  });
+});
+
+describe('parsePriorityList', () => {
+  it('accepts names and numbers and drops duplicates', () => {
+    expect(parsePriorityList('High, urgent,3,,0')).toEqual(['high', 'urgent', 'low']);
+  });
+
+  it('rejects an unknown priority', () => {
+    expect(() => parsePriorityList('high,asap')).toThrow(
+      'Unknown priority "asap". Expected low, normal, high, urgent or 0–3.',
+    );
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => parsePriorityList(',')).toThrow('Expected at least one priority.');
+  });
+});
+
+describe('parseSince', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+
+  it('counts durations back from now', () => {
+    expect(parseSince('24h', now).toISOString()).toBe('2026-10-18T12:00:00.000Z');
+    expect(parseSince('7D', now).toISOString()).toBe('2026-10-12T12:00:00.000Z');
+    expect(parseSince('30m', now).toISOString()).toBe('2026-10-19T11:30:00.000Z');
+    expect(parseSince('2w', now).toISOString()).toBe('2026-10-05T12:00:00.000Z');
+  });
+
+  it('accepts dates and timestamps', () => {
+    expect(parseSince('2026-05-01', now).toISOString()).toBe('2026-05-01T00:00:00.000Z');
+    expect(parseSince('2026-05-01T08:30:00Z', now).toISOString()).toBe('2026-05-01T08:30:00.000Z');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseSince('yesterday', now)).toThrow('received "yesterday"');
+    expect(() => parseSince('7y', now)).toThrow('received "7y"');
+  });
+});
+
+describe('parsePinboardSortKey', () => {
+  it('accepts the known keys in any case', () => {
+    expect(parsePinboardSortKey(' Priority ')).toBe('priority');
+  });
+
+  it('rejects other keys', () => {
+    expect(() => parsePinboardSortKey('oldest')).toThrow('Expected one of newest, priority.');
+  });
+});
+
+describe('matchesPinboardQuery', () => {
+  const candidate = post({
+    priority: 3,
+    author_agent_key: 'scout',
+    author_display: 'Scout Bot',
+    created_at: '2026-10-10T00:00:00Z',
+  });
+
+  it('matches numeric priorities against named levels', () => {
+    expect(matchesPinboardQuery(candidate, { priorities: ['urgent'] })).toBe(true);
+    expect(matchesPinboardQuery(candidate, { priorities: ['high'] })).toBe(false);
+  });
+
+  it('matches the author by agent key or display name', () => {
+    expect(matchesPinboardQuery(candidate, { author: 'SCOUT' })).toBe(true);
+    expect(matchesPinboardQuery(candidate, { author: 'scout bot' })).toBe(true);
+    expect(matchesPinboardQuery(candidate, { author: 'scou' })).toBe(false);
+  });
+
+  it('keeps posts created at or after the since date', () => {
+    expect(matchesPinboardQuery(candidate, { since: new Date('2026-10-10T00:00:00Z') })).toBe(true);
+    expect(matchesPinboardQuery(candidate, { since: new Date('2026-10-11T00:00:00Z') })).toBe(
+      false,
+    );
+  });
+});
+
+describe('sortPinboardPosts', () => {
+  const posts = [
+    post({ slug: 'old-high', priority: 'high', created_at: '2026-10-01T00:00:00Z' }),
+    post({ slug: 'new-normal', priority: 1, created_at: '2026-10-05T00:00:00Z' }),
+    post({ slug: 'urgent', priority: fromApi('3'), created_at: '2026-10-02T00:00:00Z' }),
+    post({ slug: 'new-high', priority: 2, created_at: '2026-10-03T00:00:00Z' }),
+  ];
+
+  it('sorts by creation time, newest first', () => {
+    expect(sortPinboardPosts(posts, 'newest').map((entry) => entry.slug)).toEqual([
+      'new-normal',
+      'new-high',
+      'urgent',
+      'old-high',
+    ]);
+  });
+
+  it('interleaves numeric and named priorities, most urgent first', () => {
+    expect(sortPinboardPosts(posts, 'priority').map((entry) => entry.slug)).toEqual([
+      'urgent',
+      'new-high',
+      'old-high',
+      'new-normal',
+    ]);
+  });
+
+  it('leaves the input in place', () => {
+    sortPinboardPosts(posts, 'priority');
+    expect(posts[0].slug).toBe('old-high');
+  });
+});
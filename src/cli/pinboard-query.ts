@@ -0,0 +1,181 @@
+import chalk from 'chalk';
+import { InvalidArgumentError } from 'commander';
+
+import type { PinboardPost, PinboardPriority } from '../api/pinboard';
+import type { PinboardReadStatus } from '../storage/pinboard-state-store';
+
+export type PinboardLevel = 'low' | 'normal' | 'high' | 'urgent';
+
+/** Named levels from least to most urgent; a level's index is its rank. */
+export const PINBOARD_LEVELS: PinboardLevel[] = ['low', 'normal', 'high', 'urgent'];
+
+export type PinboardSortKey = 'newest' | 'priority';
+
+export const PINBOARD_SORT_KEYS: PinboardSortKey[] = ['newest', 'priority'];
+
+export type PinboardQuery = {
+  priorities?: PinboardLevel[];
+  /** Agent key or display name, compared case-insensitively. */
+  author?: string;
+  since?: Date;
+  sort?: PinboardSortKey;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Rank on one scale for both shapes of `PinboardPriority`: named levels by their index in
+ * `PINBOARD_LEVELS`, numbers (also numeric strings) as the same 0–3 scale, clamped. Anything
+ * unrecognised counts as normal.
+ */
+export function getPriorityRank(priority: PinboardPriority | null | undefined): number {
+  if (typeof priority === 'string') {
+    const named = PINBOARD_LEVELS.indexOf(priority.trim().toLowerCase() as PinboardLevel);
+    if (named >= 0) {
+      return named;
+    }
+  }
+  const numeric =
+    typeof priority === 'number'
+      ? priority
+      : typeof priority === 'string' && priority.trim()
+        ? Number(priority)
+        : Number.NaN;
+  if (Number.isFinite(numeric)) {
+    return Math.min(Math.max(Math.round(numeric), 0), PINBOARD_LEVELS.length - 1);
+  }
+  return PINBOARD_LEVELS.indexOf('normal');
+}
+
+export function getPriorityLevel(priority: PinboardPriority | null | undefined): PinboardLevel {
+  return PINBOARD_LEVELS[getPriorityRank(priority)];
+}
+
+/**
+ * The priority as a short coloured tag; normal priority is not worth a tag.
+ */
+export function formatPriority(priority: PinboardPriority | null | undefined): string {
+  const level = getPriorityLevel(priority);
+  switch (level) {
+    case 'urgent':
+      return chalk.red.bold(`[${level}]`);
+    case 'high':
+      return chalk.yellow(`[${level}]`);
+    case 'low':
+      return chalk.dim(`[${level}]`);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Marker for posts that are new or changed since they were last listed; seen posts get none.
+ */
+export function formatReadStatus(status: PinboardReadStatus | undefined): string {
+  switch (status) {
+    case 'new':
+      return chalk.green('● new');
+    case 'updated':
+      return chalk.cyan('● updated');
+    default:
+      return '';
+  }
+}
+
+export function parsePinboardSortKey(value: string): PinboardSortKey {
+  const normalized = value.trim().toLowerCase();
+  if (!PINBOARD_SORT_KEYS.includes(normalized as PinboardSortKey)) {
+    throw new InvalidArgumentError(`Expected one of ${PINBOARD_SORT_KEYS.join(', ')}.`);
+  }
+  return normalized as PinboardSortKey;
+}
+
+/**
+ * Parse `high,urgent`. Numbers on the 0–3 scale are accepted too.
+ */
+export function parsePriorityList(value: string): PinboardLevel[] {
+  const levels = value
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      if (PINBOARD_LEVELS.includes(entry as PinboardLevel)) {
+        return entry as PinboardLevel;
+      }
+      if (/^\d+$/.test(entry)) {
+        return getPriorityLevel(Number(entry));
+      }
+      throw new InvalidArgumentError(
+        `Unknown priority "${entry}". Expected ${PINBOARD_LEVELS.join(', ')} or 0–3.`,
+      );
+    });
+  if (!levels.length) {
+    throw new InvalidArgumentError('Expected at least one priority.');
+  }
+  return [...new Set(levels)];
+}
+
+/**
+ * Parse a date (`2024-05-01`, ISO timestamps) or a duration back from now (`30m`, `24h`, `7d`,
+ * `2w`).
+ */
+export function parseSince(value: string, now = Date.now()): Date {
+  const trimmed = value.trim();
+  const duration = /^(\d+)\s*([mhdw])$/i.exec(trimmed);
+  if (duration) {
+    return new Date(now - Number(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()]);
+  }
+  const parsed = Date.parse(trimmed);
+  if (!/\d/.test(trimmed) || Number.isNaN(parsed)) {
+    throw new InvalidArgumentError(
+      `Expected a date such as 2024-05-01 or a duration such as 24h or 7d, received "${value}".`,
+    );
+  }
+  return new Date(parsed);
+}
+
+export function getPostTime(post: PinboardPost): number {
+  const parsed = Date.parse(post.created_at ?? post.updated_at ?? '');
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+export function hasPinboardFilters(query: PinboardQuery): boolean {
+  return Boolean(query.priorities?.length || query.author || query.since);
+}
+
+export function matchesPinboardQuery(post: PinboardPost, query: PinboardQuery): boolean {
+  if (query.priorities?.length && !query.priorities.includes(getPriorityLevel(post.priority))) {
+    return false;
+  }
+  if (query.author) {
+    const author = query.author.trim().toLowerCase();
+    const candidates = [post.author_agent_key, post.author_display].map((value) =>
+      value?.toLowerCase(),
+    );
+    if (!candidates.includes(author)) {
+      return false;
+    }
+  }
+  return !query.since || getPostTime(post) >= query.since.getTime();
+}
+
+/**
+ * `newest` keeps posts by creation time; `priority` puts the most urgent first and breaks ties by
+ * creation time, so numeric and named priorities interleave.
+ */
+export function sortPinboardPosts(posts: PinboardPost[], key: PinboardSortKey): PinboardPost[] {
+  return [...posts].sort((left, right) => {
+    if (key === 'priority') {
+      const byPriority = getPriorityRank(right.priority) - getPriorityRank(left.priority);
+      if (byPriority) {
+        return byPriority;
+      }
+    }
+    return getPostTime(right) - getPostTime(left);
+  });
+}
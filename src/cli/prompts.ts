@@ -36,3 +36,66 @@ export async function promptForOtp(initial?: string): Promise<string> {
     rl.close();
   }
 }
+
+/**
+ * Ask for the URL a remote browser was redirected to after signing in. Resolves to null once
+ * `signal` aborts, e.g. because the loopback server received the callback first.
+ */
+export async function promptForCallbackUrl(signal: AbortSignal): Promise<string | null> {
+  const rl = createInterface({ input, output });
+  try {
+    return (await rl.question('Callback URL: ', { signal })).trim();
+  } catch (error) {
+    if (signal.aborted) {
+      return null;
+    }
+    throw error;
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Read a passphrase without echoing it. The prompt goes to stderr so structured output on stdout
+ * stays clean.
+ */
+export async function promptForPassphrase(label: string): Promise<string> {
+  if (!input.isTTY || typeof input.setRawMode !== 'function') {
+    throw new Error(
+      'A passphrase is required but there is no terminal to ask for it. Set TMATES_CLI_KEY, or TMATES_CREDENTIAL_STORE=plaintext to keep the session unencrypted.',
+    );
+  }
+
+  process.stderr.write(label);
+  input.setRawMode(true);
+  input.resume();
+  return new Promise<string>((resolve, reject) => {
+    let value = '';
+    const finish = (): void => {
+      input.removeListener('data', onData);
+      input.setRawMode(false);
+      input.pause();
+      process.stderr.write('\n');
+    };
+    const onData = (chunk: Buffer): void => {
+      for (const char of chunk.toString('utf-8')) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new Error('Cancelled.'));
+          return;
+        }
+        if (char === '\u007f' || char === '\b') {
+          value = [...value].slice(0, -1).join('');
+        } else if (char >= ' ') {
+          value += char;
+        }
+      }
+    };
+    input.on('data', onData);
+  });
+}
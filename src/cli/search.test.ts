@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSearchIndex } from '../storage/search-index-store';
+import type { SearchDocument, SearchIndex } from '../storage/search-index-store';
+import { parseSearchKinds, searchIndex } from './search';
+
+function document(overrides: Partial<SearchDocument>): SearchDocument {
+  return { kind: 'post', title: '', text: '', author: null, date: null, ...overrides };
+}
+
+function indexOf(...documents: SearchDocument[]): SearchIndex {
+  return { ...createSearchIndex(), documents };
+}
+
+describe('searchIndex', () => {
+  it('only returns documents that contain every word', () => {
+    const index = indexOf(
+      document({ slug: 'both', text: 'Deploy the release today' }),
+      document({ slug: 'one', text: 'Deploy tomorrow' }),
+    );
+
+    const hits = searchIndex(index, 'deploy release');
+
+    expect(hits.map((hit) => hit.document.slug)).toEqual(['both']);
+  });
+
+  it('ranks title matches above body matches', () => {
+    const index = indexOf(
+      document({ slug: 'body', title: 'Notes', text: 'The budget for Q3' }),
+      document({ slug: 'title', title: 'Budget', text: 'Numbers for Q3' }),
+      document({ slug: 'other', title: 'Other', text: 'Unrelated' }),
+    );
+
+    const hits = searchIndex(index, 'budget');
+
+    expect(hits.map((hit) => hit.document.slug)).toEqual(['title', 'body']);
+  });
+
+  it('matches word prefixes, but less strongly than whole words', () => {
+    const index = indexOf(
+      document({ slug: 'prefix', text: 'The deployment went fine' }),
+      document({ slug: 'exact', text: 'We deploy on Fridays' }),
+      document({ slug: 'inside', text: 'Redeploy after lunch' }),
+    );
+
+    const hits = searchIndex(index, 'Deploy');
+
+    expect(hits.map((hit) => hit.document.slug)).toEqual(['exact', 'prefix']);
+  });
+
+  it('breaks ties by date, newest first', () => {
+    const index = indexOf(
+      document({ slug: 'old', text: 'Standup notes', date: '2026-01-01T00:00:00Z' }),
+      document({ slug: 'new', text: 'Standup notes', date: '2026-02-01T00:00:00Z' }),
+      document({ slug: 'undated', text: 'Standup notes' }),
+    );
+
+    const hits = searchIndex(index, 'standup');
+
+    expect(hits.map((hit) => hit.document.slug)).toEqual(['new', 'old', 'undated']);
+  });
+
+  it('filters by kind and applies the limit', () => {
+    const index = indexOf(
+      document({ kind: 'message', threadId: 't1', messageId: 'm1', text: 'Invoice sent' }),
+      document({ kind: 'file', path: 'invoice.pdf', title: 'invoice.pdf', text: 'invoice.pdf' }),
+      document({ kind: 'message', threadId: 't1', messageId: 'm2', text: 'Invoice paid' }),
+    );
+
+    expect(searchIndex(index, 'invoice', { kinds: ['message'] })).toHaveLength(2);
+    expect(searchIndex(index, 'invoice', { kinds: ['file'], limit: 5 })).toHaveLength(1);
+    expect(searchIndex(index, 'invoice', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns nothing for a query without words', () => {
+    expect(searchIndex(indexOf(document({ text: 'Anything' })), ' -- ')).toEqual([]);
+  });
+
+  it('highlights the matched words in the snippet', () => {
+    const index = indexOf(document({ title: 'Plan', text: 'Deploy  the\ndeployment now' }));
+
+    const [hit] = searchIndex(index, 'deploy');
+
+    expect(hit.snippet).toBe('Deploy the deployment now');
+    expect(hit.highlights.map(([start, end]) => hit.snippet.slice(start, end))).toEqual([
+      'Deploy',
+      'deployment',
+    ]);
+  });
+
+  it('shortens long text around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20);
+    const index = indexOf(document({ text: `${filler}the milestone moved ${filler}` }));
+
+    const [hit] = searchIndex(index, 'milestone');
+
+    expect(hit.snippet.startsWith('…')).toBe(true);
+    expect(hit.snippet.endsWith('…')).toBe(true);
+    expect(hit.snippet).toContain('the milestone moved');
+    expect(hit.snippet.length).toBeLessThanOrEqual(162);
+  });
+});
+
+describe('parseSearchKinds', () => {
+  it('accepts aliases and drops duplicates', () => {
+    expect(parseSearchKinds('chat, Posts,messages,files')).toEqual(['message', 'post', 'file']);
+  });
+
+  it('rejects an unknown type', () => {
+    expect(() => parseSearchKinds('post,wiki')).toThrow(
+      'Unknown type "wiki". Expected message, post, file.',
+    );
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => parseSearchKinds(' , ')).toThrow('Expected at least one type.');
+  });
+});
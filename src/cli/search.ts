@@ -0,0 +1,405 @@
+import chalk from 'chalk';
+import { InvalidArgumentError } from 'commander';
+
+import { fetchAllFiles } from '../api/files';
+import type { FileEntry } from '../api/files';
+import { isAbortError } from '../api/http-client';
+import { fetchChatThread, fetchChatThreads } from '../api/messages';
+import type { ChatThread } from '../api/messages';
+import { scanPinboardPosts } from '../api/pinboard';
+import type { PinboardPost } from '../api/pinboard';
+import { loadSearchIndex, saveSearchIndex } from '../storage/search-index-store';
+import type {
+  SearchDocument,
+  SearchDocumentKind,
+  SearchIndex,
+} from '../storage/search-index-store';
+import { debugLog } from './debug';
+import { describeError } from './format';
+
+export const SEARCH_KINDS: SearchDocumentKind[] = ['message', 'post', 'file'];
+
+/** Posts a sync looks through for changes, newest first. */
+const POST_SCAN_LIMIT = 500;
+
+/** Files a sync lists; the listing is read in full each time, so it is capped too. */
+const FILE_SCAN_LIMIT = 2000;
+
+/** Characters of context shown around the first match. */
+const SNIPPET_LENGTH = 160;
+
+/** Title matches count this many times as much as body matches. */
+const TITLE_WEIGHT = 3;
+
+/** A word the term only starts ("deploy" in "deployment") counts this much of an exact match. */
+const PREFIX_WEIGHT = 0.5;
+
+export type SearchSyncResult = {
+  index: SearchIndex;
+  /** Threads and posts re-indexed and files listed by this sync. */
+  indexed: { threads: number; posts: number; files: number };
+  /** Resources that could not be refreshed; what was indexed before is kept. */
+  failures: string[];
+  /** The sync was cancelled; what it had indexed so far is kept. */
+  cancelled: boolean;
+};
+
+export type SearchHit = {
+  document: SearchDocument;
+  score: number;
+  /** Whitespace-collapsed excerpt around the first match. */
+  snippet: string;
+  /** `[start, end)` offsets of the matched words in `snippet`. */
+  highlights: Array<[number, number]>;
+};
+
+export type SearchOptions = {
+  kinds?: SearchDocumentKind[];
+  limit?: number;
+};
+
+/**
+ * Bring the profile's index up to date. Only threads whose `last_activity` moved and posts whose
+ * `updated_at` changed are fetched again; pinboard scanning stops at the first page without
+ * changes. Requests go through the response cache, so `--offline` indexes what is cached.
+ */
+export async function syncSearchIndex(
+  profile: string,
+  options: { signal?: AbortSignal; onProgress?: (label: string) => void } = {},
+): Promise<SearchSyncResult> {
+  const index = await loadSearchIndex(profile);
+  const result: SearchSyncResult = {
+    index,
+    indexed: { threads: 0, posts: 0, files: 0 },
+    failures: [],
+    cancelled: false,
+  };
+  const steps: Array<[keyof SearchSyncResult['indexed'], string, () => Promise<number>]> = [
+    ['threads', 'conversations', () => syncThreads(index, options)],
+    ['posts', 'pinboard', () => syncPosts(index, options)],
+    ['files', 'files', () => syncFiles(index, options)],
+  ];
+  for (const [key, label, run] of steps) {
+    try {
+      result.indexed[key] = await run();
+    } catch (error) {
+      if (isAbortError(error)) {
+        result.cancelled = true;
+        break;
+      }
+      result.failures.push(`Could not index ${label}: ${describeError(error)}`);
+    }
+  }
+  if (!result.cancelled && !result.failures.length) {
+    index.syncedAt = new Date().toISOString();
+  }
+  await saveSearchIndex(profile, index);
+  return result;
+}
+
+/**
+ * Documents matching every word of `query`, best first. Words match document words they start, so
+ * "deploy" finds "deployment", if less strongly than "deploy". Scores follow BM25 without length
+ * normalisation: rarer words weigh more, repeats add less and less, title matches count triple and
+ * the exact phrase gets a boost.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) {
+    return [];
+  }
+  const kinds = options.kinds?.length ? options.kinds : SEARCH_KINDS;
+  const documents = index.documents.filter((document) => kinds.includes(document.kind));
+  const patterns = terms.map((term) => ({ term, pattern: buildWordPattern([term]) }));
+
+  const matches = documents
+    .map((document) => ({
+      document,
+      counts: patterns.map(({ term, pattern }) => ({
+        title: weighMatches(term, pattern, document.title),
+        text: weighMatches(term, pattern, document.text),
+      })),
+    }))
+    .filter(({ counts }) => counts.every((count) => count.title + count.text > 0));
+
+  const phrase = normalizeWhitespace(query).toLowerCase();
+  const hits = matches.map(({ document, counts }) => {
+    let score = counts.reduce((sum, count) => {
+      const frequency = TITLE_WEIGHT * count.title + count.text;
+      return sum + (frequency * 2.2) / (frequency + 1.2);
+    }, 0);
+    // Every match contains every term, so rarity is measured against all documents searched.
+    score *= Math.log(1 + (documents.length - matches.length + 0.5) / (matches.length + 0.5));
+    if (
+      terms.length > 1 &&
+      normalizeWhitespace(`${document.title} ${document.text}`).toLowerCase().includes(phrase)
+    ) {
+      score *= 1.5;
+    }
+    return { document, score, ...buildSnippet(document, terms) };
+  });
+
+  hits.sort(
+    (left, right) =>
+      right.score - left.score ||
+      (right.document.date ?? '').localeCompare(left.document.date ?? ''),
+  );
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
+
+/** The snippet with its matched words highlighted. */
+export function formatSnippet(hit: SearchHit): string {
+  let content = '';
+  let position = 0;
+  hit.highlights.forEach(([start, end]) => {
+    content += chalk.gray(hit.snippet.slice(position, start));
+    content += chalk.yellow.bold(hit.snippet.slice(start, end));
+    position = end;
+  });
+  return content + chalk.gray(hit.snippet.slice(position));
+}
+
+/** Where a hit lives: thread and message id, post slug or file path. */
+export function describeSearchLocation(document: SearchDocument): string {
+  switch (document.kind) {
+    case 'message':
+      return `chat ${document.threadId} #${document.messageId}`;
+    case 'post':
+      return `pinboard ${document.slug}`;
+    case 'file':
+      return `files ${document.path}`;
+  }
+}
+
+export function parseSearchKinds(value: string): SearchDocumentKind[] {
+  const aliases: Record<string, SearchDocumentKind> = {
+    message: 'message',
+    messages: 'message',
+    chat: 'message',
+    post: 'post',
+    posts: 'post',
+    pinboard: 'post',
+    file: 'file',
+    files: 'file',
+  };
+  const kinds = value
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const kind = aliases[entry];
+      if (!kind) {
+        throw new InvalidArgumentError(
+          `Unknown type "${entry}". Expected ${SEARCH_KINDS.join(', ')}.`,
+        );
+      }
+      return kind;
+    });
+  if (!kinds.length) {
+    throw new InvalidArgumentError('Expected at least one type.');
+  }
+  return [...new Set(kinds)];
+}
+
+async function syncThreads(
+  index: SearchIndex,
+  options: { signal?: AbortSignal; onProgress?: (label: string) => void },
+): Promise<number> {
+  options.onProgress?.('Indexing conversations');
+  const threads = await fetchChatThreads({ signal: options.signal });
+  const listed = new Set(threads.map((thread) => thread.id));
+  Object.keys(index.threads)
+    .filter((id) => !listed.has(id))
+    .forEach((id) => {
+      delete index.threads[id];
+      removeDocuments(index, (document) => document.threadId === id);
+    });
+
+  const changed = threads.filter(
+    (thread) =>
+      !(thread.id in index.threads) || index.threads[thread.id] !== (thread.last_activity ?? null),
+  );
+  let indexed = 0;
+  for (const summary of changed) {
+    options.onProgress?.(`Indexing conversations (${indexed + 1} of ${changed.length})`);
+    let thread: ChatThread;
+    try {
+      thread = await fetchChatThread(summary.id, { signal: options.signal });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Keep what was indexed for this thread, e.g. when it is not cached while offline.
+      debugLog(`Skipping thread ${summary.id} while indexing: ${describeError(error)}`);
+      continue;
+    }
+    removeDocuments(index, (document) => document.threadId === summary.id);
+    index.documents.push(...toMessageDocuments(thread));
+    index.threads[summary.id] = summary.last_activity ?? null;
+    indexed += 1;
+  }
+  return indexed;
+}
+
+async function syncPosts(
+  index: SearchIndex,
+  options: { signal?: AbortSignal; onProgress?: (label: string) => void },
+): Promise<number> {
+  options.onProgress?.('Indexing pinboard');
+  const seen = new Set<string>();
+  let complete = true;
+  let indexed = 0;
+  await scanPinboardPosts(
+    (posts, scanned) => {
+      const changed = posts.filter(
+        (post) =>
+          !(post.slug in index.posts) || index.posts[post.slug] !== (post.updated_at ?? null),
+      );
+      posts.forEach((post) => seen.add(post.slug));
+      changed.forEach((post) => {
+        removeDocuments(
+          index,
+          (document) => document.kind === 'post' && document.slug === post.slug,
+        );
+        index.documents.push(toPostDocument(post));
+        index.posts[post.slug] = post.updated_at ?? null;
+      });
+      indexed += changed.length;
+      options.onProgress?.(`Indexing pinboard (${scanned} posts)`);
+      const stop = !changed.length || scanned >= POST_SCAN_LIMIT;
+      complete &&= !stop;
+      return stop;
+    },
+    { signal: options.signal },
+  );
+  // Only a scan that reached the oldest post knows which posts were removed.
+  if (complete) {
+    Object.keys(index.posts)
+      .filter((slug) => !seen.has(slug))
+      .forEach((slug) => {
+        delete index.posts[slug];
+        removeDocuments(index, (document) => document.kind === 'post' && document.slug === slug);
+      });
+  }
+  return indexed;
+}
+
+async function syncFiles(
+  index: SearchIndex,
+  options: { signal?: AbortSignal; onProgress?: (label: string) => void },
+): Promise<number> {
+  options.onProgress?.('Indexing files');
+  const files = await fetchAllFiles(
+    100,
+    (loaded, total) =>
+      options.onProgress?.(`Indexing files (${loaded} of ${Math.min(total, FILE_SCAN_LIMIT)})`),
+    { signal: options.signal, maxFiles: FILE_SCAN_LIMIT },
+  );
+  removeDocuments(index, (document) => document.kind === 'file');
+  index.documents.push(...files.map(toFileDocument));
+  return files.length;
+}
+
+function toMessageDocuments(thread: ChatThread): SearchDocument[] {
+  const title = thread.title || thread.agent_keys.join(', ');
+  return thread.messages
+    .filter((message) => message.content?.trim())
+    .map((message) => ({
+      kind: 'message',
+      title,
+      text: message.content,
+      author: message.author ?? message.role,
+      date: message.created_at ?? null,
+      threadId: thread.id,
+      messageId: message.id,
+    }));
+}
+
+function toPostDocument(post: PinboardPost): SearchDocument {
+  return {
+    kind: 'post',
+    title: post.title,
+    text: [post.excerpt, post.content_md].filter(Boolean).join('\n\n'),
+    author: post.author_display ?? post.author_agent_key ?? null,
+    date: post.updated_at ?? post.created_at ?? null,
+    slug: post.slug,
+  };
+}
+
+function toFileDocument(file: FileEntry): SearchDocument {
+  return {
+    kind: 'file',
+    title: file.name,
+    text: file.relative_path,
+    author: null,
+    date: file.modified_iso ?? null,
+    path: file.relative_path,
+  };
+}
+
+function removeDocuments(
+  index: SearchIndex,
+  predicate: (document: SearchDocument) => boolean,
+): void {
+  index.documents = index.documents.filter((document) => !predicate(document));
+}
+
+function buildSnippet(
+  document: SearchDocument,
+  terms: string[],
+): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const pattern = buildWordPattern(terms);
+  const text = normalizeWhitespace(document.text);
+  const source = text.search(pattern) >= 0 ? text : normalizeWhitespace(document.title);
+  const first = Math.max(0, source.search(pattern));
+
+  // Start a little before the first match, but show as much as fits when the text is short.
+  let start = Math.max(
+    0,
+    Math.min(first - Math.floor(SNIPPET_LENGTH / 4), source.length - SNIPPET_LENGTH),
+  );
+  let end = Math.min(source.length, start + SNIPPET_LENGTH);
+  // Cut at word boundaries where the excerpt does not reach the ends.
+  if (start > 0) {
+    const space = source.indexOf(' ', start);
+    start = space >= 0 && space < first ? space + 1 : start;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(' ', end);
+    end = space > first ? space : end;
+  }
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${source.slice(start, end)}${end < source.length ? '…' : ''}`;
+
+  const highlights: Array<[number, number]> = [];
+  for (const match of snippet.matchAll(pattern)) {
+    highlights.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+  }
+  return { snippet, highlights };
+}
+
+function tokenize(value: string): string[] {
+  return value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Whole words starting with one of `terms`. */
+function buildWordPattern(terms: string[]): RegExp {
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+function weighMatches(term: string, pattern: RegExp, value: string): number {
+  let weight = 0;
+  for (const match of value.matchAll(pattern)) {
+    weight += match[0].length === term.length ? 1 : PREFIX_WEIGHT;
+  }
+  return weight;
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
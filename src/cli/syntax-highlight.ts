@@ -0,0 +1,228 @@
+import chalk from 'chalk';
+
+type LanguageSpec = {
+  keywords: string[];
+  literals?: string[];
+  lineComments?: string[];
+  blockComment?: [string, string];
+  /** Quote characters; a backtick string may span lines. */
+  quotes?: string[];
+  /** Highlight `key:` at the start of a line (YAML) or `"key":` (JSON). */
+  keys?: 'yaml' | 'json';
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    keywords: words(`
+      async await break case catch class const continue default delete do else export extends
+      finally for from function if import in instanceof interface let new of return static switch
+      this throw try type typeof var void while yield enum implements private protected public
+      readonly as keyof
+    `),
+    literals: words('true false null undefined NaN Infinity'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+  },
+  python: {
+    keywords: words(`
+      and as assert async await break class continue def del elif else except finally for from
+      global if import in is lambda nonlocal not or pass raise return try while with yield
+    `),
+    literals: words('True False None'),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  shell: {
+    keywords: words(`
+      if then else elif fi for while until do done case esac in function return export local echo
+      exit set unset source
+    `),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  go: {
+    keywords: words(`
+      break case chan const continue default defer else fallthrough for func go goto if import
+      interface map package range return select struct switch type var
+    `),
+    literals: words('true false nil iota'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+  },
+  rust: {
+    keywords: words(`
+      as async await break const continue crate else enum extern fn for if impl in let loop match
+      mod move mut pub ref return self Self static struct super trait type unsafe use where while
+    `),
+    literals: words('true false None Some Ok Err'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+  },
+  c: {
+    keywords: words(`
+      abstract auto break case catch char class const continue default do double else enum extends
+      extern final float for if implements import int interface long namespace new package private
+      protected public return short signed sizeof static struct switch template this throw try
+      typedef union unsigned using var void volatile while
+    `),
+    literals: words('true false null NULL nullptr'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: words(`
+      select from where and or not insert into values update set delete create table alter drop
+      join left right inner outer on group by order having limit as distinct union with case when
+      then else end is in like between asc desc
+    `),
+    literals: words('null true false'),
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+  json: {
+    keywords: [],
+    literals: words('true false null'),
+    quotes: ['"'],
+    keys: 'json',
+  },
+  yaml: {
+    keywords: [],
+    literals: words('true false null yes no'),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keys: 'yaml',
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  golang: 'go',
+  rs: 'rust',
+  cpp: 'c',
+  'c++': 'c',
+  h: 'c',
+  java: 'c',
+  kotlin: 'c',
+  cs: 'c',
+  csharp: 'c',
+  swift: 'c',
+  postgres: 'sql',
+  postgresql: 'sql',
+  jsonc: 'json',
+  yml: 'yaml',
+};
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Colour source code for the terminal. Unknown languages are returned unchanged; so is everything
+ * when colours are disabled.
+ */
+export function highlightCode(code: string, language: string | undefined): string {
+  const name = language?.trim().toLowerCase() ?? '';
+  const spec = LANGUAGES[ALIASES[name] ?? name];
+  if (!spec || chalk.level === 0) {
+    return code;
+  }
+
+  const key = ALIASES[name] ?? name;
+  const pattern = compiled.get(key) ?? compilePattern(spec);
+  compiled.set(key, pattern);
+  const keywords = new Set(
+    key === 'sql' ? spec.keywords.flatMap((word) => [word, word.toUpperCase()]) : spec.keywords,
+  );
+  const literals = new Set(spec.literals ?? []);
+
+  let result = '';
+  let lastIndex = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    if (!match[0]) {
+      pattern.lastIndex += 1;
+      continue;
+    }
+    result += code.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+    const groups = match.groups ?? {};
+    if (groups.comment) {
+      result += chalk.gray(groups.comment);
+    } else if (groups.key) {
+      result += chalk.cyan(groups.key);
+    } else if (groups.string) {
+      result += chalk.green(groups.string);
+    } else if (groups.number) {
+      result += chalk.yellow(groups.number);
+    } else if (groups.word) {
+      const word = groups.word;
+      if (keywords.has(word)) {
+        result += chalk.magenta(word);
+      } else if (literals.has(word)) {
+        result += chalk.yellow(word);
+      } else if (code[lastIndex] === '(') {
+        result += chalk.blue(word);
+      } else {
+        result += word;
+      }
+    } else {
+      result += match[0];
+    }
+  }
+  return result + code.slice(lastIndex);
+}
+
+function compilePattern(spec: LanguageSpec): RegExp {
+  const alternatives: string[] = [];
+  const comments: string[] = [];
+  if (spec.blockComment) {
+    const [open, close] = spec.blockComment.map(escapeRegExp);
+    comments.push(`${open}[\\s\\S]*?(?:${close}|$)`);
+  }
+  (spec.lineComments ?? []).forEach((marker) => {
+    comments.push(`${escapeRegExp(marker)}.*`);
+  });
+  if (comments.length) {
+    alternatives.push(`(?<comment>${comments.join('|')})`);
+  }
+  if (spec.keys === 'json') {
+    alternatives.push('(?<key>"(?:[^"\\\\\\n]|\\\\.)*"(?=\\s*:))');
+  } else if (spec.keys === 'yaml') {
+    alternatives.push('(?<key>^\\s*(?:- )?[\\w.-]+(?=\\s*:(?:\\s|$)))');
+  }
+  const quotes = (spec.quotes ?? []).map((quote) => {
+    const q = escapeRegExp(quote);
+    const body = quote === '`' ? `[^\\\\${q}]` : `[^\\\\${q}\\n]`;
+    return `${q}(?:${body}|\\\\.)*${q}`;
+  });
+  if (quotes.length) {
+    alternatives.push(`(?<string>${quotes.join('|')})`);
+  }
+  alternatives.push(
+    '(?<number>\\b(?:0[xX][\\da-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)',
+  );
+  alternatives.push('(?<word>[A-Za-z_$][\\w$]*)');
+  return new RegExp(alternatives.join('|'), 'gm');
+}
+
+function words(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
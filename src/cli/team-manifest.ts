@@ -0,0 +1,116 @@
+import { InvalidArgumentError } from 'commander';
+import path from 'path';
+import { parse as parseYaml, stringify as toYaml } from 'yaml';
+
+import type { AgentMetadata, AgentsMetadataResponse } from '../api/teammates';
+
+export type ManifestFormat = 'json' | 'yaml';
+
+/**
+ * Desired set of hired agents, as read by `tmates agents apply` and written by `tmates agents
+ * export`.
+ */
+export type TeamManifest = {
+  version: 1;
+  agents: string[];
+};
+
+export type TeamPlan = {
+  add: string[];
+  remove: string[];
+  unchanged: string[];
+};
+
+export function detectManifestFormat(fileName: string | undefined): ManifestFormat {
+  return fileName && path.extname(fileName).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+export function parseManifestFormat(value: string): ManifestFormat {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'json') {
+    return 'json';
+  }
+  if (normalized === 'yaml' || normalized === 'yml') {
+    return 'yaml';
+  }
+  throw new InvalidArgumentError('Expected json or yaml.');
+}
+
+/**
+ * Parse a manifest. Besides `{ version: 1, agents: [...] }` a bare list of keys is accepted, and
+ * entries may be `{ key: "adam" }` objects. YAML is a superset of JSON, so JSON files parse too.
+ */
+export function parseTeamManifest(source: string, label: string): TeamManifest {
+  let data: unknown;
+  try {
+    data = parseYaml(source);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${label}: ${reason}`);
+  }
+
+  const document = Array.isArray(data) ? { agents: data } : data;
+  if (!document || typeof document !== 'object' || !('agents' in document)) {
+    throw new Error(`${label} must contain an "agents" list.`);
+  }
+  const { version, agents } = document as { version?: unknown; agents: unknown };
+  if (version !== undefined && version !== 1) {
+    throw new Error(`${label} has unsupported version ${String(version)}; expected 1.`);
+  }
+  if (!Array.isArray(agents)) {
+    throw new Error(`"agents" in ${label} must be a list of agent keys.`);
+  }
+
+  const keys = agents.map((entry: unknown, index) => {
+    const key =
+      entry && typeof entry === 'object' ? (entry as { key?: unknown }).key : (entry as unknown);
+    if (typeof key !== 'string' || !key.trim()) {
+      throw new Error(`Entry ${index + 1} in ${label} is not an agent key.`);
+    }
+    return key.trim();
+  });
+  return { version: 1, agents: [...new Set(keys)] };
+}
+
+export function serializeTeamManifest(manifest: TeamManifest, format: ManifestFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(manifest, null, 2)}\n`;
+  }
+  return `# Tmates team manifest: the agents hired for your account.\n${toYaml(manifest)}`;
+}
+
+export function isAgentHired(agent: AgentMetadata): boolean {
+  return Boolean(agent.hired);
+}
+
+export function buildTeamManifest(response: AgentsMetadataResponse): TeamManifest {
+  const agents = Object.values(response.agents_metadata ?? {})
+    .filter(isAgentHired)
+    .map((agent) => agent.key)
+    .sort();
+  return { version: 1, agents };
+}
+
+/**
+ * Diff the manifest against the hired agents. Keys the platform does not know are rejected up
+ * front so that a typo never turns into a partial apply.
+ */
+export function planTeamChanges(
+  manifest: TeamManifest,
+  response: AgentsMetadataResponse,
+): TeamPlan {
+  const metadata = response.agents_metadata ?? {};
+  const unknown = manifest.agents.filter((key) => !metadata[key]);
+  if (unknown.length) {
+    throw new Error(
+      `Unknown agent ${unknown.length === 1 ? 'key' : 'keys'}: ${unknown.join(', ')}. Run \`tmates agents list\` to see available agents.`,
+    );
+  }
+  const desired = new Set(manifest.agents);
+  const current = Object.values(metadata).filter(isAgentHired);
+  return {
+    add: manifest.agents.filter((key) => !isAgentHired(metadata[key])),
+    remove: current.filter((agent) => !desired.has(agent.key)).map((agent) => agent.key),
+    unchanged: current.filter((agent) => desired.has(agent.key)).map((agent) => agent.key),
+  };
+}
@@ -0,0 +1,59 @@
+import { stdout as output } from 'process';
+
+/**
+ * Inline image protocols the CLI can emit. Sixel is not listed: it needs the image decoded to
+ * pixels, which the kitty and iTerm2 protocols do in the terminal itself.
+ */
+export type GraphicsProtocol = 'kitty' | 'iterm';
+
+const KITTY_CHUNK_SIZE = 4096;
+
+/**
+ * Pick the inline image protocol of the current terminal. `TMATES_IMAGE_PROTOCOL` (`kitty`,
+ * `iterm` or `none`) overrides detection.
+ */
+export function detectGraphicsProtocol(): GraphicsProtocol | null {
+  const override = process.env.TMATES_IMAGE_PROTOCOL?.trim().toLowerCase();
+  if (override === 'kitty' || override === 'iterm') {
+    return override;
+  }
+  if (override === 'none' || !output.isTTY) {
+    return null;
+  }
+  const term = process.env.TERM ?? '';
+  const program = process.env.TERM_PROGRAM ?? '';
+  if (process.env.KITTY_WINDOW_ID || term === 'xterm-kitty' || program === 'ghostty') {
+    return 'kitty';
+  }
+  if (program === 'iTerm.app' || program === 'WezTerm' || process.env.LC_TERMINAL === 'iTerm2') {
+    return 'iterm';
+  }
+  return null;
+}
+
+/**
+ * Build the escape sequence that draws `data` inline, `columns` cells wide. Returns null when the
+ * protocol cannot display the format (kitty only accepts PNG without decoding on our side).
+ */
+export function encodeInlineImage(
+  data: Buffer,
+  mimeType: string,
+  protocol: GraphicsProtocol,
+  columns: number,
+): string | null {
+  const encoded = data.toString('base64');
+  if (protocol === 'iterm') {
+    return `\x1b]1337;File=inline=1;size=${data.length};width=${columns};preserveAspectRatio=1:${encoded}\x07`;
+  }
+  if (mimeType !== 'image/png') {
+    return null;
+  }
+  let sequence = '';
+  for (let offset = 0; offset < encoded.length; offset += KITTY_CHUNK_SIZE) {
+    const chunk = encoded.slice(offset, offset + KITTY_CHUNK_SIZE);
+    const more = offset + KITTY_CHUNK_SIZE < encoded.length ? 1 : 0;
+    const control = offset === 0 ? `a=T,f=100,c=${columns},m=${more}` : `m=${more}`;
+    sequence += `\x1b_G${control};${chunk}\x1b\\`;
+  }
+  return sequence;
+}
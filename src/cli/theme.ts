@@ -6,3 +6,15 @@ const secondaryHex = '#93c5fd';
 export const brandPrimary = chalk.hex(primaryHex);
 export const brandPrimaryBold = (value: string): string => chalk.hex(primaryHex).bold(value);
 export const brandSecondaryBold = (value: string): string => chalk.hex(secondaryHex).bold(value);
+
+/**
+ * Bold style in an agent's own colour (`#rgb` or `#rrggbb`), falling back to the Tmates primary.
+ */
+export function accentBold(hex: string | null | undefined): (value: string) => string {
+  const normalized = hex?.trim();
+  if (!normalized || !/^#?([\da-f]{3}|[\da-f]{6})$/i.test(normalized)) {
+    return brandPrimaryBold;
+  }
+  const color = chalk.hex(normalized.startsWith('#') ? normalized : `#${normalized}`);
+  return (value) => color.bold(value);
+}
@@ -0,0 +1,132 @@
+import type { UpdateUserProfileInput } from '../api/profile';
+import type { MobileSettings, UpdateMobileSettingsInput } from '../api/settings';
+import { normalizeHttpUrl } from '../config/validation';
+
+export type MobileSettingKey = keyof MobileSettings;
+
+export type ThemePreference = MobileSettings['theme_preference'];
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+
+type SettingKind<K extends MobileSettingKey> = MobileSettings[K] extends boolean
+  ? { kind: 'boolean' }
+  : { kind: 'choice'; choices: readonly MobileSettings[K][] };
+
+type MobileSettingDefinitions = {
+  [K in MobileSettingKey]: SettingKind<K> & { description: string };
+};
+
+/**
+ * Every field of {@link MobileSettings}, in display order. The mapped type makes a new field in the
+ * API type a compile error here until it is described.
+ */
+const DEFINITIONS: MobileSettingDefinitions = {
+  allow_notifications: { kind: 'boolean', description: 'Push notifications on mobile devices' },
+  mentions: { kind: 'boolean', description: 'Notify when an agent mentions you' },
+  direct_messages: { kind: 'boolean', description: 'Notify about direct messages' },
+  team_messages: { kind: 'boolean', description: 'Notify about team conversations' },
+  usage_analytics: { kind: 'boolean', description: 'Share anonymous usage analytics' },
+  crash_reports: { kind: 'boolean', description: 'Send crash reports' },
+  theme_preference: {
+    kind: 'choice',
+    choices: THEME_PREFERENCES,
+    description: 'App theme: system, light or dark',
+  },
+};
+
+export const MOBILE_SETTING_KEYS = Object.keys(DEFINITIONS) as MobileSettingKey[];
+
+const TRUE_VALUES = ['true', 'on', 'yes', 'enabled', 'enable', '1'];
+const FALSE_VALUES = ['false', 'off', 'no', 'disabled', 'disable', '0'];
+
+export function describeMobileSetting(key: MobileSettingKey): string {
+  return DEFINITIONS[key].description;
+}
+
+export function isBooleanSetting(key: MobileSettingKey): boolean {
+  return DEFINITIONS[key].kind === 'boolean';
+}
+
+/**
+ * Resolve a key as typed by the user; `direct-messages` and `Direct_Messages` both match
+ * `direct_messages`.
+ */
+export function parseMobileSettingKey(value: string): MobileSettingKey {
+  const normalized = value.trim().toLowerCase().replace(/-/g, '_');
+  if (!MOBILE_SETTING_KEYS.includes(normalized as MobileSettingKey)) {
+    throw new Error(
+      `Unknown setting "${value}". Expected one of: ${MOBILE_SETTING_KEYS.join(', ')}.`,
+    );
+  }
+  return normalized as MobileSettingKey;
+}
+
+/**
+ * Validate `value` for `key` and build the PATCH payload. Booleans accept true/false, on/off,
+ * yes/no and 1/0.
+ */
+export function parseMobileSettingValue(
+  key: MobileSettingKey,
+  value: string,
+): UpdateMobileSettingsInput {
+  const normalized = value.trim().toLowerCase();
+  const definition = DEFINITIONS[key];
+  if (definition.kind === 'boolean') {
+    if (TRUE_VALUES.includes(normalized)) {
+      return { [key]: true };
+    }
+    if (FALSE_VALUES.includes(normalized)) {
+      return { [key]: false };
+    }
+    throw new Error(`Invalid value "${value}" for ${key}. Expected true or false.`);
+  }
+  const choice = definition.choices.find((entry) => entry === normalized);
+  if (!choice) {
+    throw new Error(
+      `Invalid value "${value}" for ${key}. Expected one of: ${definition.choices.join(', ')}.`,
+    );
+  }
+  return { [key]: choice };
+}
+
+/**
+ * The change made by selecting a setting on the Settings screen: booleans flip, the theme moves to
+ * the next preference.
+ */
+export function nextMobileSettingValue(
+  settings: MobileSettings,
+  key: MobileSettingKey,
+): UpdateMobileSettingsInput {
+  if (key === 'theme_preference') {
+    const index = THEME_PREFERENCES.indexOf(settings.theme_preference);
+    return { theme_preference: THEME_PREFERENCES[(index + 1) % THEME_PREFERENCES.length] };
+  }
+  return { [key]: !settings[key] };
+}
+
+/**
+ * Validate display name and avatar changes (`profile set`, Settings screen); an empty string clears
+ * the field.
+ */
+export function toUserProfileChanges(options: {
+  name?: string;
+  avatarUrl?: string;
+}): UpdateUserProfileInput {
+  const changes: UpdateUserProfileInput = {};
+  if (options.name !== undefined) {
+    const name = options.name.trim();
+    if (name.length > 80) {
+      throw new Error('Display name must be at most 80 characters.');
+    }
+    changes.display_name = name || null;
+  }
+  if (options.avatarUrl !== undefined) {
+    changes.avatar_url = options.avatarUrl.trim()
+      ? normalizeHttpUrl(options.avatarUrl, 'Avatar URL')
+      : null;
+  }
+  if (!Object.keys(changes).length) {
+    throw new Error('Nothing to update. Pass --name and/or --avatar-url.');
+  }
+  return changes;
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resolveAppConfig, resolveConfigValues } from './app-config';
+
+const ENDPOINT_VARIABLES = [
+  'TMATES_SUPABASE_URL',
+  'EXPO_PUBLIC_SUPABASE_URL',
+  'SUPABASE_URL',
+  'SUPABASE_URL_DEFAULT',
+  'TMATES_SUPABASE_ANON_KEY',
+  'EXPO_PUBLIC_SUPABASE_ANON_KEY',
+  'SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'TMATES_API_BASE_URL',
+  'EXPO_PUBLIC_API_URL',
+  'API_BASE_URL',
+];
+
+describe('resolveConfigValues', () => {
+  beforeEach(() => {
+    ENDPOINT_VARIABLES.forEach((name) => vi.stubEnv(name, ''));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers the profile settings over the environment', () => {
+    vi.stubEnv('TMATES_SUPABASE_ANON_KEY', 'env-key');
+    vi.stubEnv('TMATES_API_BASE_URL', 'https://env.example.com');
+
+    const resolved = resolveConfigValues('staging', {
+      customSupabaseAnonKey: 'profile-key',
+      customApiBaseUrl: 'https://staging.example.com/',
+    });
+
+    expect(resolved.supabaseAnonKey).toEqual({ value: 'profile-key', source: 'settings:staging' });
+    expect(resolved.apiBaseUrl).toEqual({
+      value: 'https://staging.example.com',
+      source: 'settings:staging',
+    });
+  });
+
+  it('falls back through the environment variables in order', () => {
+    vi.stubEnv('SUPABASE_URL', 'https://plain.example.com');
+    vi.stubEnv('EXPO_PUBLIC_SUPABASE_URL', ' https://expo.example.com/ ');
+
+    const resolved = resolveConfigValues('default', {});
+
+    expect(resolved.supabaseUrl).toEqual({
+      value: 'https://expo.example.com',
+      source: 'EXPO_PUBLIC_SUPABASE_URL',
+    });
+    expect(resolved.supabaseAnonKey).toEqual({ value: '', source: null });
+  });
+});
+
+describe('resolveAppConfig', () => {
+  let home: string;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(join(tmpdir(), 'tmates-config-'));
+    vi.stubEnv('TMATES_CLI_HOME', home);
+    ENDPOINT_VARIABLES.forEach((name) => vi.stubEnv(name, ''));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  it("uses a named profile's own endpoints and anon key", async () => {
+    await fs.writeFile(
+      join(home, 'settings.json'),
+      JSON.stringify({
+        customSupabaseAnonKey: 'default-key',
+        profiles: {
+          staging: {
+            customSupabaseUrl: 'https://staging.supabase.co',
+            customSupabaseAnonKey: 'staging-key',
+            customApiBaseUrl: 'https://api.staging.example.com',
+          },
+        },
+      }),
+    );
+    vi.stubEnv('TMATES_PROFILE', 'staging');
+
+    const config = await resolveAppConfig(true);
+
+    expect(config).toMatchObject({
+      profile: 'staging',
+      supabaseUrl: 'https://staging.supabase.co',
+      supabaseAnonKey: 'staging-key',
+      apiBaseUrl: 'https://api.staging.example.com',
+    });
+  });
+
+  it('rejects a profile that does not exist', async () => {
+    vi.stubEnv('TMATES_PROFILE', 'missing');
+
+    await expect(resolveAppConfig(true)).rejects.toThrow('Profile "missing" does not exist.');
+  });
+});
@@ -1,10 +1,31 @@
-import { loadSettings, PersistedSettings } from '../storage/settings-store';
+import {
+  DEFAULT_PROFILE,
+  getProfileSettings,
+  isValidProfileName,
+  loadSettings,
+} from '../storage/settings-store';
+import type { PersistedSettings, ProfileSettings } from '../storage/settings-store';
 import { loadEnvironment } from './environment';
 
+export type ConfigField = 'supabaseUrl' | 'supabaseAnonKey' | 'apiBaseUrl';
+
+/**
+ * Where a resolved value came from: `settings:<profile>` for the persisted settings file, the name
+ * of the environment variable otherwise, or `null` when nothing provided it.
+ */
+export type ConfigSource = string | null;
+
+export type ResolvedConfigValue = {
+  value: string;
+  source: ConfigSource;
+};
+
 export type AppConfig = {
+  profile: string;
   supabaseUrl: string;
   supabaseAnonKey: string;
   apiBaseUrl: string;
+  sources: Record<ConfigField, ConfigSource>;
 };
 
 let cachedConfig: AppConfig | null = null;
@@ -30,6 +51,56 @@ function coalesce(...values: (string | undefined)[]): string {
   return '';
 }
 
+function coalesceWithSource(candidates: Array<[string, string | undefined]>): ResolvedConfigValue {
+  for (const [source, value] of candidates) {
+    if (value && value.trim()) {
+      return { value: value.trim(), source };
+    }
+  }
+  return { value: '', source: null };
+}
+
+/**
+ * Resolve each endpoint through its coalesce chain: the profile's persisted settings win over
+ * `TMATES_*`, which win over the `EXPO_PUBLIC_*` and plain `SUPABASE_*`/`API_*` variables.
+ */
+export function resolveConfigValues(
+  profile: string,
+  profileSettings: ProfileSettings,
+): Record<ConfigField, ResolvedConfigValue> {
+  const env = process.env;
+  const fromSettings = `settings:${profile}`;
+
+  const supabaseUrl = coalesceWithSource([
+    [fromSettings, profileSettings.customSupabaseUrl],
+    ['TMATES_SUPABASE_URL', env.TMATES_SUPABASE_URL],
+    ['EXPO_PUBLIC_SUPABASE_URL', env.EXPO_PUBLIC_SUPABASE_URL],
+    ['SUPABASE_URL', env.SUPABASE_URL],
+    ['SUPABASE_URL_DEFAULT', env.SUPABASE_URL_DEFAULT],
+  ]);
+
+  const supabaseAnonKey = coalesceWithSource([
+    [fromSettings, profileSettings.customSupabaseAnonKey],
+    ['TMATES_SUPABASE_ANON_KEY', env.TMATES_SUPABASE_ANON_KEY],
+    ['EXPO_PUBLIC_SUPABASE_ANON_KEY', env.EXPO_PUBLIC_SUPABASE_ANON_KEY],
+    ['SUPABASE_ANON_KEY', env.SUPABASE_ANON_KEY],
+    ['SUPABASE_SERVICE_ROLE_KEY', env.SUPABASE_SERVICE_ROLE_KEY],
+  ]);
+
+  const apiBaseUrl = coalesceWithSource([
+    [fromSettings, profileSettings.customApiBaseUrl],
+    ['TMATES_API_BASE_URL', env.TMATES_API_BASE_URL],
+    ['EXPO_PUBLIC_API_URL', env.EXPO_PUBLIC_API_URL],
+    ['API_BASE_URL', env.API_BASE_URL],
+  ]);
+
+  return {
+    supabaseUrl: { ...supabaseUrl, value: normalizeUrl(supabaseUrl.value) },
+    supabaseAnonKey,
+    apiBaseUrl: { ...apiBaseUrl, value: normalizeUrl(apiBaseUrl.value) },
+  };
+}
+
 export async function resolveAppConfig(forceReload = false): Promise<AppConfig> {
   if (!forceReload && cachedConfig) {
     return cachedConfig;
@@ -38,55 +109,61 @@ export async function resolveAppConfig(forceReload = false): Promise<AppConfig>
   loadEnvironment();
   cachedSettings = await loadSettings();
 
-  const env = process.env;
-  const supabaseUrl = normalizeUrl(
-    coalesce(
-      cachedSettings.customSupabaseUrl,
-      env.TMATES_SUPABASE_URL,
-      env.EXPO_PUBLIC_SUPABASE_URL,
-      env.SUPABASE_URL,
-      env.SUPABASE_URL_DEFAULT,
-    ),
-  );
-
-  const supabaseAnonKey = coalesce(
-    cachedSettings.customSupabaseAnonKey,
-    env.TMATES_SUPABASE_ANON_KEY,
-    env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
-    env.SUPABASE_ANON_KEY,
-    env.SUPABASE_SERVICE_ROLE_KEY,
-  );
-
-  const apiBaseUrl = normalizeUrl(
-    coalesce(
-      cachedSettings.customApiBaseUrl,
-      env.TMATES_API_BASE_URL,
-      env.EXPO_PUBLIC_API_URL,
-      env.API_BASE_URL,
-    ),
-  );
-
-  if (!supabaseUrl || !supabaseAnonKey) {
+  const profile = resolveProfileName(cachedSettings);
+  const profileSettings = getProfileSettings(cachedSettings, profile);
+  if (!profileSettings) {
+    throw new Error(
+      `Profile "${profile}" does not exist. Run \`tmates profile list\` to see the available profiles.`,
+    );
+  }
+
+  const resolved = resolveConfigValues(profile, profileSettings);
+  const supabaseUrl = resolved.supabaseUrl.value;
+  const supabaseAnonKey = resolved.supabaseAnonKey.value;
+  const apiBaseUrl = resolved.apiBaseUrl.value;
+
+  // A static access token (`--token`, TMATES_TOKEN) talks to the API without Supabase.
+  if ((!supabaseUrl || !supabaseAnonKey) && !process.env.TMATES_TOKEN?.trim()) {
     console.warn(
-      'Supabase credentials are not fully configured. Provide TMATES_SUPABASE_URL and TMATES_SUPABASE_ANON_KEY environment variables or set custom values via the CLI settings.',
+      'Supabase credentials are not fully configured. Provide TMATES_SUPABASE_URL and TMATES_SUPABASE_ANON_KEY environment variables or set them with `tmates config set`.',
     );
   }
 
   if (!apiBaseUrl) {
     console.warn(
-      'API base URL is not configured. Provide TMATES_API_BASE_URL or configure a custom API endpoint via the CLI settings.',
+      'API base URL is not configured. Provide TMATES_API_BASE_URL or run `tmates config set api-base-url <url>`.',
     );
   }
 
   cachedConfig = {
+    profile,
     supabaseUrl,
     supabaseAnonKey,
     apiBaseUrl,
+    sources: {
+      supabaseUrl: resolved.supabaseUrl.source,
+      supabaseAnonKey: resolved.supabaseAnonKey.source,
+      apiBaseUrl: resolved.apiBaseUrl.source,
+    },
   };
 
   return cachedConfig;
 }
 
+/**
+ * The profile selected by `TMATES_PROFILE` (also set by the global `--profile` flag), falling back to
+ * the one chosen with `tmates profile use`.
+ */
+export function resolveProfileName(settings: PersistedSettings): string {
+  const name = coalesce(process.env.TMATES_PROFILE, settings.activeProfile) || DEFAULT_PROFILE;
+  if (!isValidProfileName(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, digits, "-" and "_" (up to 64 characters).`,
+    );
+  }
+  return name;
+}
+
 export function getCachedSettings(): PersistedSettings | null {
   return cachedSettings;
 }
@@ -0,0 +1,54 @@
+import type { ProfileSettings } from '../storage/settings-store';
+import type { ConfigField } from './app-config';
+import { normalizeEndpointUrl, normalizeSupabaseAnonKey } from './validation';
+
+export type ConfigKeyDefinition = {
+  key: string;
+  description: string;
+  setting: keyof ProfileSettings;
+  field: ConfigField;
+  secret: boolean;
+  normalize: (value: string) => string;
+};
+
+/**
+ * Keys accepted by `tmates config`, mapped to the persisted profile setting they write and the
+ * resolved `AppConfig` field they feed.
+ */
+export const CONFIG_KEYS: ConfigKeyDefinition[] = [
+  {
+    key: 'api-base-url',
+    description: 'Tmates Platform API base URL',
+    setting: 'customApiBaseUrl',
+    field: 'apiBaseUrl',
+    secret: false,
+    normalize: (value) => normalizeEndpointUrl(value, 'API base URL'),
+  },
+  {
+    key: 'supabase-url',
+    description: 'Supabase project URL',
+    setting: 'customSupabaseUrl',
+    field: 'supabaseUrl',
+    secret: false,
+    normalize: (value) => normalizeEndpointUrl(value, 'Supabase URL'),
+  },
+  {
+    key: 'supabase-anon-key',
+    description: 'Supabase anonymous (publishable) key',
+    setting: 'customSupabaseAnonKey',
+    field: 'supabaseAnonKey',
+    secret: true,
+    normalize: normalizeSupabaseAnonKey,
+  },
+];
+
+export function findConfigKey(key: string): ConfigKeyDefinition {
+  const normalized = key.trim().toLowerCase();
+  const definition = CONFIG_KEYS.find((entry) => entry.key === normalized);
+  if (!definition) {
+    throw new Error(
+      `Unknown config key "${key}". Expected one of: ${CONFIG_KEYS.map((entry) => entry.key).join(', ')}.`,
+    );
+  }
+  return definition;
+}
@@ -34,3 +34,11 @@ export function loadEnvironment(options: EnvironmentOptions = {}): void {
 
   loaded = true;
 }
+
+/**
+ * Set by the global `--offline` flag (or `TMATES_OFFLINE=1`): only cached data is shown and nothing
+ * is sent to the API.
+ */
+export function isOfflineMode(): boolean {
+  return ['1', 'true'].includes(process.env.TMATES_OFFLINE?.trim().toLowerCase() ?? '');
+}
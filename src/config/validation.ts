@@ -0,0 +1,66 @@
+/**
+ * Validate an endpoint URL entered by the user and return it without a trailing slash.
+ */
+export function normalizeEndpointUrl(value: string, label: string): string {
+  const trimmed = normalizeHttpUrl(value, label);
+  return trimmed.endsWith('/') ? trimmed.slice(0, -1) : trimmed;
+}
+
+export function normalizeHttpUrl(value: string, label: string): string {
+  const trimmed = value.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`${label} must be an absolute URL, received "${value}".`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(`${label} must use http or https, received "${parsed.protocol}".`);
+  }
+  return trimmed;
+}
+
+/**
+ * Accept Supabase publishable keys and anon JWTs. Service role keys bypass row level security and
+ * must never be stored by a client, so they are rejected explicitly.
+ */
+export function normalizeSupabaseAnonKey(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('sb_publishable_')) {
+    return trimmed;
+  }
+  if (trimmed.startsWith('sb_secret_')) {
+    throw new Error(
+      'Refusing to store a Supabase secret key. Use the anon/publishable key instead.',
+    );
+  }
+
+  const segments = trimmed.split('.');
+  if (segments.length !== 3 || segments.some((segment) => !/^[A-Za-z0-9_-]+$/.test(segment))) {
+    throw new Error('Supabase anon key must be a JWT or an `sb_publishable_` key.');
+  }
+
+  let role: unknown;
+  try {
+    role = JSON.parse(Buffer.from(segments[1], 'base64url').toString('utf-8'))?.role;
+  } catch {
+    throw new Error('Supabase anon key is not a valid JWT.');
+  }
+  if (role === 'service_role') {
+    throw new Error('Refusing to store a Supabase service role key. Use the anon key instead.');
+  }
+  return trimmed;
+}
+
+/**
+ * Mask a secret for display, keeping just enough of both ends to tell keys apart.
+ */
+export function redactSecret(value: string): string {
+  if (!value) {
+    return value;
+  }
+  if (value.length <= 12) {
+    return '*'.repeat(value.length);
+  }
+  return `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
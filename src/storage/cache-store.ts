@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { getCacheDirectory, getCacheRoot } from './paths';
+
+const FILE_MODE = 0o600;
+
+export type CacheEntry<T> = {
+  /** Request path and query the entry was stored for, e.g. `/pinboard?limit=10`. */
+  key: string;
+  savedAt: string;
+  data: T;
+};
+
+export type CacheStats = {
+  profile: string;
+  entries: number;
+  bytes: number;
+  oldest: string | null;
+  newest: string | null;
+  /** Entry count per API resource (`pinboard`, `chats`, `agents`, `files`). */
+  resources: Record<string, number>;
+};
+
+export async function readCacheEntry<T>(
+  profile: string,
+  key: string,
+): Promise<CacheEntry<T> | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getEntryPath(profile, key), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return entry?.key === key && entry.savedAt ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCacheEntry<T>(profile: string, key: string, data: T): Promise<void> {
+  const path = getEntryPath(profile, key);
+  const entry: CacheEntry<T> = { key, savedAt: new Date().toISOString(), data };
+  const partial = `${path}.part`;
+  await fs.writeFile(partial, JSON.stringify(entry), { mode: FILE_MODE });
+  await fs.rename(partial, path);
+}
+
+/**
+ * Delete the profile's cache. Returns the number of entries removed.
+ */
+export async function clearCache(profile: string): Promise<number> {
+  const { entries } = await getCacheStats(profile);
+  await fs.rm(join(getCacheRoot(), profile), { recursive: true, force: true });
+  return entries;
+}
+
+/** Profiles that have a cache directory. */
+export async function listCachedProfiles(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(getCacheRoot(), { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export async function getCacheStats(profile: string): Promise<CacheStats> {
+  const stats: CacheStats = {
+    profile,
+    entries: 0,
+    bytes: 0,
+    oldest: null,
+    newest: null,
+    resources: {},
+  };
+  const directory = join(getCacheRoot(), profile);
+  let names: string[];
+  try {
+    names = (await fs.readdir(directory)).filter((name) => name.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return stats;
+    }
+    throw error;
+  }
+  for (const name of names) {
+    const path = join(directory, name);
+    const [info, raw] = await Promise.all([fs.stat(path), fs.readFile(path, 'utf-8')]);
+    let entry: Pick<CacheEntry<unknown>, 'key' | 'savedAt'>;
+    try {
+      entry = JSON.parse(raw) as CacheEntry<unknown>;
+    } catch {
+      continue;
+    }
+    stats.entries += 1;
+    stats.bytes += info.size;
+    const resource = entry.key.split(/[/?]/).filter(Boolean)[0] ?? 'other';
+    stats.resources[resource] = (stats.resources[resource] ?? 0) + 1;
+    if (!stats.oldest || entry.savedAt < stats.oldest) {
+      stats.oldest = entry.savedAt;
+    }
+    if (!stats.newest || entry.savedAt > stats.newest) {
+      stats.newest = entry.savedAt;
+    }
+  }
+  return stats;
+}
+
+/** Keys hold ids and query strings, so entries are stored under a hash of the key. */
+function getEntryPath(profile: string, key: string): string {
+  const name = createHash('sha256').update(key).digest('hex').slice(0, 32);
+  return join(getCacheDirectory(profile), `${name}.json`);
+}
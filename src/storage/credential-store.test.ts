@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetCredentialStore, resolveCredentialStore } from './credential-store';
+import { keyringStore } from './keyring-store';
+
+vi.mock('./keyring-store', () => ({
+  keyringStore: { name: 'keyring', label: 'keyring', isAvailable: vi.fn() },
+}));
+
+describe('resolveCredentialStore', () => {
+  let home: string;
+  const stdinIsTTY = process.stdin.isTTY;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(join(tmpdir(), 'tmates-credentials-'));
+    vi.stubEnv('TMATES_CLI_HOME', home);
+    vi.stubEnv('TMATES_CLI_KEY', '');
+    vi.stubEnv('TMATES_CREDENTIAL_STORE', '');
+    vi.mocked(keyringStore.isAvailable).mockResolvedValue(false);
+    process.stdin.isTTY = false;
+    resetCredentialStore();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    process.stdin.isTTY = stdinIsTTY;
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  it('prefers the keyring when it is available', async () => {
+    vi.mocked(keyringStore.isAvailable).mockResolvedValue(true);
+
+    await expect(resolveCredentialStore()).resolves.toMatchObject({
+      store: { name: 'keyring' },
+      source: 'auto',
+    });
+  });
+
+  it('uses the encrypted file when it can be unlocked', async () => {
+    vi.stubEnv('TMATES_CLI_KEY', 'key');
+
+    await expect(resolveCredentialStore()).resolves.toMatchObject({
+      store: { name: 'encrypted-file' },
+      source: 'auto',
+    });
+  });
+
+  it('falls back to plaintext without a keyring, terminal or key', async () => {
+    await expect(resolveCredentialStore()).resolves.toMatchObject({
+      store: { name: 'plaintext' },
+      source: 'fallback',
+    });
+  });
+
+  it('keeps existing encrypted sessions in the encrypted file', async () => {
+    await fs.mkdir(join(home, 'sessions'));
+    await fs.writeFile(join(home, 'sessions', 'default.enc'), '{}');
+
+    await expect(resolveCredentialStore()).resolves.toMatchObject({
+      store: { name: 'encrypted-file' },
+      source: 'auto',
+    });
+  });
+
+  it('rejects an unknown TMATES_CREDENTIAL_STORE', async () => {
+    vi.stubEnv('TMATES_CREDENTIAL_STORE', 'vault');
+
+    await expect(resolveCredentialStore()).rejects.toThrow(
+      'TMATES_CREDENTIAL_STORE must be one of keyring, encrypted-file, plaintext; received "vault".',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { chmodSync, promises as fs } from 'fs';
+import { getSessionFilePath, getSessionsDirectory } from './paths';
+import { loadSettings } from './settings-store';
+import { encryptedFileStore } from './encrypted-store';
+import { keyringStore } from './keyring-store';
+
+const FILE_MODE = 0o600;
+
+export type CredentialStoreName = 'keyring' | 'encrypted-file' | 'plaintext';
+
+export const CREDENTIAL_STORE_NAMES: CredentialStoreName[] = [
+  'keyring',
+  'encrypted-file',
+  'plaintext',
+];
+
+/**
+ * Where session tokens are kept. Values are opaque strings (the serialized stored session) keyed by
+ * profile name.
+ */
+export type CredentialStore = {
+  name: CredentialStoreName;
+  label: string;
+  /** Human-readable location of a profile's entry, for `tmates status`. */
+  describeLocation(profile: string): string;
+  isAvailable(): Promise<boolean>;
+  read(profile: string): Promise<string | null>;
+  write(profile: string, value: string): Promise<void>;
+  remove(profile: string): Promise<void>;
+  has(profile: string): Promise<boolean>;
+};
+
+/**
+ * `fallback`: nothing was configured and the encrypted file could not be unlocked non-interactively
+ * (no keyring, no terminal and no `TMATES_CLI_KEY`), so sessions are kept in plaintext.
+ */
+export type CredentialStoreSource = 'env' | 'settings' | 'auto' | 'fallback';
+
+export type ResolvedCredentialStore = {
+  store: CredentialStore;
+  source: CredentialStoreSource;
+};
+
+export const plaintextStore: CredentialStore = {
+  name: 'plaintext',
+  label: 'plaintext file',
+  describeLocation: (profile) => getSessionFilePath(profile),
+  isAvailable: async () => true,
+  async read(profile) {
+    try {
+      return await fs.readFile(getSessionFilePath(profile), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async write(profile, value) {
+    await fs.mkdir(getSessionsDirectory(), { recursive: true, mode: 0o700 });
+    const filePath = getSessionFilePath(profile);
+    await fs.writeFile(filePath, value, { mode: FILE_MODE });
+    try {
+      chmodSync(filePath, FILE_MODE);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+  async remove(profile) {
+    try {
+      await fs.unlink(getSessionFilePath(profile));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+  async has(profile) {
+    return (await plaintextStore.read(profile)) !== null;
+  },
+};
+
+let resolved: ResolvedCredentialStore | null = null;
+
+export function getCredentialStore(name: CredentialStoreName): CredentialStore {
+  switch (name) {
+    case 'keyring':
+      return keyringStore;
+    case 'encrypted-file':
+      return encryptedFileStore;
+    case 'plaintext':
+      return plaintextStore;
+  }
+}
+
+export function isCredentialStoreName(value: string): value is CredentialStoreName {
+  return CREDENTIAL_STORE_NAMES.includes(value as CredentialStoreName);
+}
+
+/**
+ * The keyring when the Secret Service can be reached, otherwise the encrypted file. Plaintext is
+ * never picked automatically.
+ */
+export async function detectCredentialStore(): Promise<CredentialStore> {
+  return (await keyringStore.isAvailable()) ? keyringStore : encryptedFileStore;
+}
+
+/**
+ * The store selected by `TMATES_CREDENTIAL_STORE`, then by `tmates auth migrate-storage` (kept in
+ * settings.json), then detected. An explicitly chosen keyring that cannot be reached is an error
+ * rather than a silent downgrade.
+ */
+export async function resolveCredentialStore(): Promise<ResolvedCredentialStore> {
+  if (resolved) {
+    return resolved;
+  }
+
+  const fromEnv = process.env.TMATES_CREDENTIAL_STORE?.trim().toLowerCase();
+  let configured: CredentialStoreName | undefined;
+  if (fromEnv) {
+    if (!isCredentialStoreName(fromEnv)) {
+      throw new Error(
+        `TMATES_CREDENTIAL_STORE must be one of ${CREDENTIAL_STORE_NAMES.join(', ')}; received "${fromEnv}".`,
+      );
+    }
+    configured = fromEnv;
+  } else {
+    configured = (await loadSettings()).credentialStore;
+  }
+  if (!configured) {
+    const detected = await detectCredentialStore();
+    resolved =
+      detected === encryptedFileStore && !(await canUnlockEncryptedStore())
+        ? { store: plaintextStore, source: 'fallback' }
+        : { store: detected, source: 'auto' };
+    return resolved;
+  }
+
+  const store = getCredentialStore(configured);
+  if (!(await store.isAvailable())) {
+    throw new Error(
+      `The ${store.label} is not available on this system. Install libsecret's \`secret-tool\` or switch stores with \`tmates auth migrate-storage --to encrypted-file\`.`,
+    );
+  }
+  resolved = { store, source: fromEnv ? 'env' : 'settings' };
+  return resolved;
+}
+
+/**
+ * Whether the encrypted file can be used without failing on a passphrase prompt. Existing encrypted
+ * sessions keep the store, so that scripts get a clear error instead of a missing session.
+ */
+async function canUnlockEncryptedStore(): Promise<boolean> {
+  if (process.env.TMATES_CLI_KEY || process.stdin.isTTY) {
+    return true;
+  }
+  const files = await fs.readdir(getSessionsDirectory());
+  return files.some((file) => file.endsWith('.enc'));
+}
+
+/**
+ * Forget the resolved store, after the selection was changed.
+ */
+export function resetCredentialStore(): void {
+  resolved = null;
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { encryptedFileStore, setPassphraseProvider } from './encrypted-store';
+
+describe('encryptedFileStore', () => {
+  let home: string;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(join(tmpdir(), 'tmates-encrypted-'));
+    vi.stubEnv('TMATES_CLI_HOME', home);
+    vi.stubEnv('TMATES_CLI_KEY', 'correct horse');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    setPassphraseProvider(null);
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  it('reads back what it wrote, without keeping it in plain text', async () => {
+    await encryptedFileStore.write('default', '{"session":"secret-token"}');
+
+    await expect(encryptedFileStore.read('default')).resolves.toBe('{"session":"secret-token"}');
+    const raw = await fs.readFile(join(home, 'sessions', 'default.enc'), 'utf-8');
+    expect(raw).not.toContain('secret-token');
+    expect(JSON.parse(raw)).toMatchObject({ version: 1, cipher: 'aes-256-gcm', kdf: 'scrypt' });
+    expect((await fs.stat(join(home, 'sessions', 'default.enc'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects a key that does not unlock the file', async () => {
+    await encryptedFileStore.write('default', 'value');
+    vi.stubEnv('TMATES_CLI_KEY', 'wrong');
+
+    await expect(encryptedFileStore.read('default')).rejects.toThrow(
+      'TMATES_CLI_KEY does not unlock the stored session.',
+    );
+  });
+
+  it('asks for a passphrase when no key is set', async () => {
+    vi.stubEnv('TMATES_CLI_KEY', '');
+    const provider = vi.fn().mockResolvedValue('typed passphrase');
+    setPassphraseProvider(provider);
+
+    await encryptedFileStore.write('work', 'value');
+    await expect(encryptedFileStore.read('work')).resolves.toBe('value');
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(provider).toHaveBeenCalledWith({ profile: 'work', confirm: true });
+  });
+
+  it('returns null and removes nothing when there is no file', async () => {
+    await expect(encryptedFileStore.read('missing')).resolves.toBeNull();
+    await expect(encryptedFileStore.remove('missing')).resolves.toBeUndefined();
+    await expect(encryptedFileStore.has('missing')).resolves.toBe(false);
+  });
+});
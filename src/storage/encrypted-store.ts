@@ -0,0 +1,196 @@
+import { chmodSync, promises as fs } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import type { CredentialStore } from './credential-store';
+import { getEncryptedSessionPath, getSessionsDirectory } from './paths';
+
+const FILE_MODE = 0o600;
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 14, r: 8, p: 1 };
+const MAX_UNLOCK_ATTEMPTS = 3;
+
+type EncryptedEnvelope = {
+  version: 1;
+  cipher: typeof CIPHER;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+export type PassphraseRequest = {
+  profile: string;
+  /** True when a new file is about to be created, so the passphrase should be entered twice. */
+  confirm: boolean;
+};
+
+export type PassphraseProvider = (request: PassphraseRequest) => Promise<string>;
+
+let passphraseProvider: PassphraseProvider | null = null;
+let cachedPassphrase: string | null = null;
+let pendingPassphrase: Promise<string> | null = null;
+
+/**
+ * Session file encrypted with AES-256-GCM under a key derived with scrypt from `TMATES_CLI_KEY` or,
+ * failing that, a passphrase asked for once per process.
+ */
+export const encryptedFileStore: CredentialStore = {
+  name: 'encrypted-file',
+  label: 'encrypted file',
+  describeLocation: (profile) => getEncryptedSessionPath(profile),
+  isAvailable: async () => true,
+  async read(profile) {
+    const envelope = await readEnvelope(profile);
+    if (!envelope) {
+      return null;
+    }
+    const passphrase = await getPassphrase({ profile, confirm: false });
+    try {
+      return await decrypt(envelope, passphrase);
+    } catch {
+      if (process.env.TMATES_CLI_KEY) {
+        throw new Error('TMATES_CLI_KEY does not unlock the stored session.');
+      }
+      cachedPassphrase = null;
+      throw new Error('Wrong passphrase for the stored session.');
+    }
+  },
+  async write(profile, value) {
+    const exists = (await readEnvelope(profile)) !== null;
+    const passphrase = await getPassphrase({ profile, confirm: !exists });
+    await fs.mkdir(getSessionsDirectory(), { recursive: true, mode: 0o700 });
+    const filePath = getEncryptedSessionPath(profile);
+    await fs.writeFile(filePath, JSON.stringify(await encrypt(value, passphrase), null, 2), {
+      mode: FILE_MODE,
+    });
+    chmodSync(filePath, FILE_MODE);
+  },
+  async remove(profile) {
+    try {
+      await fs.unlink(getEncryptedSessionPath(profile));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+  async has(profile) {
+    return (await readEnvelope(profile)) !== null;
+  },
+};
+
+/**
+ * Register how to ask for the passphrase when `TMATES_CLI_KEY` is not set.
+ */
+export function setPassphraseProvider(provider: PassphraseProvider | null): void {
+  passphraseProvider = provider;
+}
+
+/**
+ * Ask for the passphrase up front, before a spinner or full-screen UI would get in the way of the
+ * prompt. An existing file is decrypted to check the passphrase, with a few attempts; without a file
+ * a new passphrase is only asked for when `create` is set.
+ */
+export async function unlockEncryptedStore(profile: string, create = false): Promise<void> {
+  if (process.env.TMATES_CLI_KEY || cachedPassphrase !== null) {
+    return;
+  }
+  const envelope = await readEnvelope(profile);
+  if (!envelope) {
+    if (create) {
+      await getPassphrase({ profile, confirm: true });
+    }
+    return;
+  }
+  for (let attempt = 1; ; attempt += 1) {
+    const passphrase = await getPassphrase({ profile, confirm: false });
+    try {
+      await decrypt(envelope, passphrase);
+      return;
+    } catch {
+      cachedPassphrase = null;
+      if (attempt >= MAX_UNLOCK_ATTEMPTS) {
+        throw new Error('Wrong passphrase for the stored session.');
+      }
+      process.stderr.write('Wrong passphrase, try again.\n');
+    }
+  }
+}
+
+async function getPassphrase(request: PassphraseRequest): Promise<string> {
+  const fromEnv = process.env.TMATES_CLI_KEY;
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (cachedPassphrase !== null) {
+    return cachedPassphrase;
+  }
+  if (!passphraseProvider) {
+    throw new Error('The session store is encrypted. Set TMATES_CLI_KEY to unlock it.');
+  }
+  pendingPassphrase ??= passphraseProvider(request).finally(() => {
+    pendingPassphrase = null;
+  });
+  const passphrase = await pendingPassphrase;
+  if (!passphrase) {
+    throw new Error('A passphrase is required to use the encrypted session store.');
+  }
+  cachedPassphrase = passphrase;
+  return passphrase;
+}
+
+async function readEnvelope(profile: string): Promise<EncryptedEnvelope | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getEncryptedSessionPath(profile), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  const envelope = JSON.parse(raw) as Partial<EncryptedEnvelope>;
+  if (envelope.version !== 1 || envelope.cipher !== CIPHER || envelope.kdf !== 'scrypt') {
+    throw new Error(`Unsupported encrypted session file: ${getEncryptedSessionPath(profile)}`);
+  }
+  return envelope as EncryptedEnvelope;
+}
+
+async function encrypt(value: string, passphrase: string): Promise<EncryptedEnvelope> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, await deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return {
+    version: 1,
+    cipher: CIPHER,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+async function decrypt(envelope: EncryptedEnvelope, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, Buffer.from(envelope.salt, 'base64'));
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
@@ -0,0 +1,104 @@
+import { spawn } from 'child_process';
+import type { CredentialStore } from './credential-store';
+import { getConfigDirectory } from './paths';
+
+const SERVICE = 'tmates-cli';
+/** Unlocking the keyring may show a desktop prompt, so allow for a human to answer it. */
+const COMMAND_TIMEOUT_MS = 60_000;
+
+type CommandResult = {
+  code: number;
+  stdout: string;
+  stderr: string;
+};
+
+let available: Promise<boolean> | null = null;
+
+/**
+ * Secret Service (GNOME Keyring, KWallet) access through libsecret's `secret-tool`. Entries are keyed
+ * by profile and by the CLI's config directory, so separate `TMATES_CLI_HOME`s do not collide.
+ */
+export const keyringStore: CredentialStore = {
+  name: 'keyring',
+  label: 'Secret Service keyring',
+  describeLocation: (profile) => `secret-tool service=${SERVICE} profile=${profile}`,
+  isAvailable() {
+    available ??= probe();
+    return available;
+  },
+  async read(profile) {
+    const result = await runSecretTool(['lookup', ...attributes(profile)]);
+    if (result.code === 0) {
+      return result.stdout.replace(/\n$/, '');
+    }
+    if (!result.stderr.trim()) {
+      return null;
+    }
+    throw new Error(`Could not read from the keyring: ${result.stderr.trim()}`);
+  },
+  async write(profile, value) {
+    const result = await runSecretTool(
+      ['store', `--label=Tmates CLI session (${profile})`, ...attributes(profile)],
+      value,
+    );
+    if (result.code !== 0) {
+      throw new Error(
+        `Could not write to the keyring: ${result.stderr.trim() || 'secret-tool failed'}`,
+      );
+    }
+  },
+  async remove(profile) {
+    const result = await runSecretTool(['clear', ...attributes(profile)]);
+    if (result.code !== 0 && result.stderr.trim()) {
+      throw new Error(`Could not remove the keyring entry: ${result.stderr.trim()}`);
+    }
+  },
+  async has(profile) {
+    return (await keyringStore.read(profile)) !== null;
+  },
+};
+
+function attributes(profile: string): string[] {
+  return ['service', SERVICE, 'profile', profile, 'scope', getConfigDirectory()];
+}
+
+/**
+ * `secret-tool lookup` exits with 1 and no output when nothing matches, but also prints an error when
+ * no Secret Service is running (e.g. over SSH without a D-Bus session).
+ */
+async function probe(): Promise<boolean> {
+  if (process.platform !== 'linux') {
+    return false;
+  }
+  try {
+    const result = await runSecretTool(['lookup', 'service', SERVICE, 'probe', '1']);
+    return result.code === 0 || !result.stderr.trim();
+  } catch {
+    return false;
+  }
+}
+
+function runSecretTool(args: string[], input?: string): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('secret-tool', args);
+    // Not spawn's `timeout` option: its timer outlives a failed spawn and keeps the process alive.
+    const timer = setTimeout(() => child.kill(), COMMAND_TIMEOUT_MS);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString('utf-8');
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString('utf-8');
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code: code ?? 1, stdout, stderr });
+    });
+    child.stdin.end(input ?? '');
+  });
+}
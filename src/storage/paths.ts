@@ -26,14 +26,34 @@ export function getSessionsDirectory(): string {
   return ensureDirectory(join(getConfigDirectory(), 'sessions'));
 }
 
-export function getSessionFilePath(): string {
-  return join(getSessionsDirectory(), 'default.json');
+export function getSessionFilePath(profile: string): string {
+  return join(getSessionsDirectory(), `${profile}.json`);
+}
+
+export function getEncryptedSessionPath(profile: string): string {
+  return join(getSessionsDirectory(), `${profile}.enc`);
 }
 
 export function getAppSettingsPath(): string {
   return join(getConfigDirectory(), 'settings.json');
 }
 
+export function getPinboardStatePath(profile: string): string {
+  return join(ensureDirectory(join(getConfigDirectory(), 'pinboard')), `${profile}.json`);
+}
+
+export function getSearchIndexPath(profile: string): string {
+  return join(ensureDirectory(join(getConfigDirectory(), 'search')), `${profile}.json`);
+}
+
+export function getCacheRoot(): string {
+  return join(getConfigDirectory(), 'cache');
+}
+
+export function getCacheDirectory(profile: string): string {
+  return ensureDirectory(join(getCacheRoot(), profile));
+}
+
 function ensureDirectory(path: string): string {
   if (!existsSync(path)) {
     mkdirSync(path, { recursive: true, mode: 0o700 });
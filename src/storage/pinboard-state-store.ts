@@ -0,0 +1,98 @@
+import { chmodSync, promises as fs } from 'fs';
+import type { PinboardPost } from '../api/pinboard';
+import { getPinboardStatePath } from './paths';
+
+const FILE_MODE = 0o600;
+
+/** Seen posts kept per profile; the oldest are dropped beyond this. */
+const MAX_TRACKED_POSTS = 2000;
+
+export type PinboardReadStatus = 'new' | 'updated' | 'seen';
+
+type SeenPost = {
+  /** `updated_at` of the post when it was last seen. */
+  updatedAt: string | null;
+  seenAt: string;
+};
+
+export type PinboardState = {
+  seen: Record<string, SeenPost>;
+  /** When `tmates pinboard digest --since last` last ran. */
+  lastDigestAt?: string;
+};
+
+export async function loadPinboardState(profile: string): Promise<PinboardState> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getPinboardStatePath(profile), 'utf-8'));
+    if (parsed && typeof parsed === 'object' && parsed.seen && typeof parsed.seen === 'object') {
+      return parsed as PinboardState;
+    }
+    return { seen: {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+      return { seen: {} };
+    }
+    throw error;
+  }
+}
+
+export async function savePinboardState(profile: string, state: PinboardState): Promise<void> {
+  const path = getPinboardStatePath(profile);
+  await fs.writeFile(path, JSON.stringify(pruneSeen(state), null, 2), { mode: FILE_MODE });
+  chmodSync(path, FILE_MODE);
+}
+
+export async function deletePinboardState(profile: string): Promise<void> {
+  try {
+    await fs.unlink(getPinboardStatePath(profile));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * `new` for a post never seen before, `updated` when its `updated_at` moved on since it was seen.
+ */
+export function getReadStatus(state: PinboardState, post: PinboardPost): PinboardReadStatus {
+  const seen = state.seen[post.id];
+  if (!seen) {
+    return 'new';
+  }
+  return post.updated_at && post.updated_at !== seen.updatedAt ? 'updated' : 'seen';
+}
+
+export function markPostsSeen(state: PinboardState, posts: PinboardPost[]): PinboardState {
+  const seenAt = new Date().toISOString();
+  const seen = { ...state.seen };
+  posts.forEach((post) => {
+    seen[post.id] = { updatedAt: post.updated_at ?? null, seenAt };
+  });
+  return { ...state, seen };
+}
+
+/**
+ * Load the profile's state, mark `posts` as seen and save it. Returns the status each post had
+ * before, keyed by id.
+ */
+export async function recordPostsSeen(
+  profile: string,
+  posts: PinboardPost[],
+): Promise<Map<string, PinboardReadStatus>> {
+  const state = await loadPinboardState(profile);
+  const statuses = new Map(posts.map((post) => [post.id, getReadStatus(state, post)]));
+  if ([...statuses.values()].some((status) => status !== 'seen')) {
+    await savePinboardState(profile, markPostsSeen(state, posts));
+  }
+  return statuses;
+}
+
+function pruneSeen(state: PinboardState): PinboardState {
+  const entries = Object.entries(state.seen);
+  if (entries.length <= MAX_TRACKED_POSTS) {
+    return state;
+  }
+  entries.sort(([, left], [, right]) => right.seenAt.localeCompare(left.seenAt));
+  return { ...state, seen: Object.fromEntries(entries.slice(0, MAX_TRACKED_POSTS)) };
+}
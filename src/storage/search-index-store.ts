@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import { getSearchIndexPath } from './paths';
+
+const FILE_MODE = 0o600;
+
+/** Bumped when the stored shape changes; an index of another version is rebuilt from scratch. */
+const INDEX_VERSION = 1;
+
+export type SearchDocumentKind = 'message' | 'post' | 'file';
+
+export type SearchDocument = {
+  kind: SearchDocumentKind;
+  /** Thread title, post title or file name. */
+  title: string;
+  text: string;
+  /** Message author, post author agent or null. */
+  author: string | null;
+  date: string | null;
+  /** Set for messages. */
+  threadId?: string;
+  messageId?: string;
+  /** Set for posts. */
+  slug?: string;
+  /** Set for files. */
+  path?: string;
+};
+
+export type SearchIndex = {
+  version: number;
+  /** `last_activity` of each indexed thread, so unchanged threads are not fetched again. */
+  threads: Record<string, string | null>;
+  /** `updated_at` of each indexed post, keyed by slug. */
+  posts: Record<string, string | null>;
+  documents: SearchDocument[];
+  syncedAt?: string;
+};
+
+export function createSearchIndex(): SearchIndex {
+  return { version: INDEX_VERSION, threads: {}, posts: {}, documents: [] };
+}
+
+export async function loadSearchIndex(profile: string): Promise<SearchIndex> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getSearchIndexPath(profile), 'utf-8'));
+    if (parsed?.version === INDEX_VERSION && Array.isArray(parsed.documents)) {
+      return parsed as SearchIndex;
+    }
+    return createSearchIndex();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+      return createSearchIndex();
+    }
+    throw error;
+  }
+}
+
+export async function saveSearchIndex(profile: string, index: SearchIndex): Promise<void> {
+  const path = getSearchIndexPath(profile);
+  const partial = `${path}.part`;
+  await fs.writeFile(partial, JSON.stringify(index), { mode: FILE_MODE });
+  await fs.rename(partial, path);
+}
+
+export async function deleteSearchIndex(profile: string): Promise<void> {
+  try {
+    await fs.unlink(getSearchIndexPath(profile));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { promises as fs } from 'fs';
 import { chmodSync, constants as fsConstants } from 'fs';
 import { Session } from '@supabase/supabase-js';
+import { plaintextStore, resolveCredentialStore } from './credential-store';
+import type { CredentialStore } from './credential-store';
+import { unlockEncryptedStore } from './encrypted-store';
 import { getSessionFilePath, getSessionsDirectory } from './paths';
 
 const FILE_MODE = 0o600;
@@ -10,56 +13,97 @@ export type StoredSession = {
   savedAt: string;
 };
 
-export async function loadStoredSession(): Promise<Session | null> {
-  const filePath = getSessionFilePath();
-  try {
-    const raw = await fs.readFile(filePath, 'utf-8');
-    const data = JSON.parse(raw) as StoredSession;
-    if (!data || typeof data !== 'object' || !data.session) {
-      return null;
-    }
-    return data.session;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return null;
-    }
-    throw error;
+const warnedProfiles = new Set<string>();
+
+/**
+ * Load the profile's session from the active credential store. A plaintext session file left over
+ * from before another store was chosen is still honoured, with a warning, until it is next saved.
+ */
+export async function loadStoredSession(profile: string): Promise<Session | null> {
+  const { store } = await resolveCredentialStore();
+  const stored = await readStoredSession(store, profile);
+  if (stored || store === plaintextStore) {
+    return stored?.session ?? null;
+  }
+
+  const legacy = await readStoredSession(plaintextStore, profile);
+  if (legacy && !warnedProfiles.has(profile)) {
+    warnedProfiles.add(profile);
+    console.warn(
+      `Using the plaintext session file of profile "${profile}"; it moves to the ${store.label} when the session is next saved. Run \`tmates auth migrate-storage\` to move it now.`,
+    );
   }
+  return legacy?.session ?? null;
 }
 
-export async function saveSession(session: Session): Promise<void> {
-  const directory = getSessionsDirectory();
-  await fs.mkdir(directory, { recursive: true, mode: 0o700 });
-  const filePath = getSessionFilePath();
-  const payload: StoredSession = {
-    session,
-    savedAt: new Date().toISOString(),
-  };
-  await fs.writeFile(filePath, JSON.stringify(payload, null, 2), { mode: FILE_MODE });
-  try {
-    chmodSync(filePath, FILE_MODE);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      throw error;
-    }
+export async function readStoredSession(
+  store: CredentialStore,
+  profile: string,
+): Promise<StoredSession | null> {
+  const raw = await store.read(profile);
+  if (!raw) {
+    return null;
+  }
+  const data = JSON.parse(raw) as StoredSession;
+  if (!data || typeof data !== 'object' || !data.session) {
+    return null;
   }
+  return data;
 }
 
-export async function deleteSession(): Promise<void> {
-  const filePath = getSessionFilePath();
-  try {
-    await fs.unlink(filePath);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      throw error;
-    }
+export async function saveSession(session: Session, profile: string): Promise<void> {
+  const { store, source } = await resolveCredentialStore();
+  if (source === 'fallback' && !warnedProfiles.has(profile)) {
+    warnedProfiles.add(profile);
+    console.warn(
+      `No keyring, terminal or TMATES_CLI_KEY to encrypt the session of profile "${profile}" with; it is kept in a plaintext file. Set TMATES_CLI_KEY, or run \`tmates auth migrate-storage\` from a terminal.`,
+    );
+  }
+  await writeStoredSession(store, profile, { session, savedAt: new Date().toISOString() });
+}
+
+/**
+ * Write to `store` and drop any plaintext copy, so that tokens never linger unencrypted once a
+ * secure store is in use.
+ */
+export async function writeStoredSession(
+  store: CredentialStore,
+  profile: string,
+  stored: StoredSession,
+): Promise<void> {
+  await store.write(profile, JSON.stringify(stored, null, 2));
+  if (store !== plaintextStore) {
+    await plaintextStore.remove(profile);
+  }
+}
+
+export async function deleteSession(profile: string): Promise<void> {
+  const { store } = await resolveCredentialStore();
+  await store.remove(profile);
+  await plaintextStore.remove(profile);
+}
+
+export async function hasStoredSession(profile: string): Promise<boolean> {
+  const { store } = await resolveCredentialStore();
+  return (await store.has(profile)) || (await plaintextStore.has(profile));
+}
+
+/**
+ * Ask for the encrypted store's passphrase now, when a prompt will not clash with spinners or the
+ * interactive UI. Pass `create` when a session is about to be saved for the first time. Other stores
+ * need no unlocking.
+ */
+export async function unlockSessionStore(profile: string, create = false): Promise<void> {
+  const { store } = await resolveCredentialStore();
+  if (store.name === 'encrypted-file') {
+    await unlockEncryptedStore(profile, create);
   }
 }
 
-export async function touchSessionFile(): Promise<void> {
+export async function touchSessionFile(profile: string): Promise<void> {
   const directory = getSessionsDirectory();
   await fs.mkdir(directory, { recursive: true, mode: 0o700 });
-  const filePath = getSessionFilePath();
+  const filePath = getSessionFilePath(profile);
   try {
     await fs.access(filePath, fsConstants.F_OK);
   } catch (error) {
@@ -1,15 +1,31 @@
 import { promises as fs } from 'fs';
 import { chmodSync } from 'fs';
+import type { CredentialStoreName } from './credential-store';
 import { getAppSettingsPath, getConfigDirectory } from './paths';
 
 const FILE_MODE = 0o600;
 
-export type PersistedSettings = {
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export type ProfileSettings = {
   customApiBaseUrl?: string;
   customSupabaseUrl?: string;
   customSupabaseAnonKey?: string;
 };
 
+/**
+ * The top-level endpoint fields belong to the `default` profile; every other named profile keeps
+ * its own endpoints under `profiles`.
+ */
+export type PersistedSettings = ProfileSettings & {
+  activeProfile?: string;
+  /** Chosen with `tmates auth migrate-storage`; applies to every profile. */
+  credentialStore?: CredentialStoreName;
+  profiles?: Record<string, ProfileSettings>;
+};
+
 export async function loadSettings(): Promise<PersistedSettings> {
   const path = getAppSettingsPath();
   try {
@@ -40,3 +56,54 @@ export async function saveSettings(settings: PersistedSettings): Promise<void> {
     }
   }
 }
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+export function listProfileNames(settings: PersistedSettings): string[] {
+  const named = Object.keys(settings.profiles ?? {}).filter((name) => name !== DEFAULT_PROFILE);
+  return [DEFAULT_PROFILE, ...named.sort((a, b) => a.localeCompare(b))];
+}
+
+export function getProfileSettings(
+  settings: PersistedSettings,
+  name: string,
+): ProfileSettings | null {
+  if (name === DEFAULT_PROFILE) {
+    return {
+      customApiBaseUrl: settings.customApiBaseUrl,
+      customSupabaseUrl: settings.customSupabaseUrl,
+      customSupabaseAnonKey: settings.customSupabaseAnonKey,
+    };
+  }
+  return settings.profiles?.[name] ?? null;
+}
+
+export function withProfileSettings(
+  settings: PersistedSettings,
+  name: string,
+  values: ProfileSettings,
+): PersistedSettings {
+  const cleaned = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== ''),
+  ) as ProfileSettings;
+  if (name === DEFAULT_PROFILE) {
+    const next: PersistedSettings = { ...settings };
+    delete next.customApiBaseUrl;
+    delete next.customSupabaseUrl;
+    delete next.customSupabaseAnonKey;
+    return { ...next, ...cleaned };
+  }
+  return { ...settings, profiles: { ...(settings.profiles ?? {}), [name]: cleaned } };
+}
+
+export function withoutProfile(settings: PersistedSettings, name: string): PersistedSettings {
+  const profiles = { ...(settings.profiles ?? {}) };
+  delete profiles[name];
+  const next: PersistedSettings = { ...settings, profiles };
+  if (next.activeProfile === name) {
+    delete next.activeProfile;
+  }
+  return next;
+}